@@ -0,0 +1,95 @@
+import React from 'react';
+import Link from 'next/link';
+import type { AnalysisIssue } from '@/lib/review';
+import type { DocumentLineage } from '@/lib/document-lineage';
+
+export interface DocumentVersionsProps {
+  documentId: string;
+  lineage: DocumentLineage;
+}
+
+const IssueList: React.FC<{ issues: AnalysisIssue[]; empty: string }> = ({ issues, empty }) =>
+  issues.length === 0 ? (
+    <p className="text-sm text-gray-500">{empty}</p>
+  ) : (
+    <ul className="space-y-2 text-sm">
+      {issues.map((issue, index) => (
+        <li key={index}>
+          <span className="text-gray-500">p. {issue.page} · {issue.type.replace('_', ' ')}</span>
+          <p className="text-gray-900">{issue.message}</p>
+        </li>
+      ))}
+    </ul>
+  );
+
+/**
+ * Versions of a document and which issues the latest upload resolved, kept or introduced
+ */
+export const DocumentVersions: React.FC<DocumentVersionsProps> = ({ documentId, lineage }) => {
+  const { versions, previousVersion, comparison } = lineage;
+
+  return (
+    <div className="mt-6 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Version {lineage.versionNumber}
+          {lineage.fundName && <span className="ml-2 text-sm font-normal text-gray-500">{lineage.fundName}</span>}
+        </h2>
+        <Link href={`/review?previousVersion=${documentId}`} className="text-sm text-primary hover:underline font-medium">
+          Upload new version
+        </Link>
+      </div>
+
+      {versions.length > 1 && (
+        <ol className="flex flex-wrap gap-2 mb-4 text-sm">
+          {versions.map(version => (
+            <li key={version.id}>
+              {version.id === documentId ? (
+                <span className="px-2 py-1 rounded-md bg-blue-100 text-blue-800 font-medium">
+                  v{version.version_number} · {version.issue_count} issue{version.issue_count !== 1 ? 's' : ''}
+                </span>
+              ) : (
+                <Link href={`/history/${version.id}`} className="px-2 py-1 rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200">
+                  v{version.version_number} · {version.issue_count} issue{version.issue_count !== 1 ? 's' : ''}
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {previousVersion && comparison ? (
+        <>
+          <p className="mb-3 text-sm text-gray-600">
+            Compared with v{previousVersion.version_number} ({previousVersion.user_input}, {new Date(previousVersion.created_at).toLocaleDateString()})
+            {' · '}
+            <Link href={`/history/${documentId}/compare`} className="text-primary hover:underline font-medium">
+              See what changed in the text
+            </Link>
+          </p>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-green-700">Resolved ({comparison.resolved.length})</h3>
+              <IssueList issues={comparison.resolved} empty="No issues from the previous version were fixed." />
+            </div>
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-yellow-700">Still present ({comparison.persisting.length})</h3>
+              <IssueList
+                issues={comparison.persisting.map(match => match.current)}
+                empty="Every issue from the previous version was fixed."
+              />
+            </div>
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-red-700">New ({comparison.introduced.length})</h3>
+              <IssueList issues={comparison.introduced} empty="No new issues." />
+            </div>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">
+          This is the first version. Upload the customer&apos;s revised PDF as a new version to check which fixes were applied.
+        </p>
+      )}
+    </div>
+  );
+};
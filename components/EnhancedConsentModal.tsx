@@ -1,14 +1,25 @@
 import React, { useState } from 'react';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
+import {
+  SANITIZATION_PACKS,
+  SANITIZATION_PACK_IDS,
+  DEFAULT_SANITIZATION_PACKS,
+  type SanitizationPackId
+} from '../lib/sanitization-packs';
+import type { SanitizationPreview } from '../lib/document-sanitizer';
 
 export type ProcessingMethod = 'company_llm' | 'external_ai' | 'local_patterns' | 'manual_only';
+export type SanitizationMode = 'redact' | 'pseudonymize';
 
 export interface EnhancedConsentData {
   processingMethod: ProcessingMethod;
   dataRetention: number; // days
   sensitiveDataDetected: boolean;
   sanitizationRequired: boolean;
+  sanitizationPacks: SanitizationPackId[];
+  sanitizationAllowList: string[];
+  sanitizationMode: SanitizationMode;
   explicitConsent: boolean;
 }
 
@@ -19,9 +30,14 @@ export interface EnhancedConsentModalProps {
   fileName: string;
   sensitiveDataDetected?: boolean;
   detectedPatterns?: Array<{ type: string; count: number; description: string }>;
+  classification?: { classification: string; confidence: number }; // From the pre-upload scan
   companyLLMAvailable?: boolean;
+  file?: File; // Enables the redaction preview
 }
 
+// Enough to judge the rules without rendering every match in a long document
+const MAX_PREVIEW_ROWS = 50;
+
 export const EnhancedConsentModal: React.FC<EnhancedConsentModalProps> = ({
   isOpen,
   onClose,
@@ -29,23 +45,70 @@ export const EnhancedConsentModal: React.FC<EnhancedConsentModalProps> = ({
   fileName,
   sensitiveDataDetected = false,
   detectedPatterns = [],
-  companyLLMAvailable = true
+  classification,
+  companyLLMAvailable = true,
+  file
 }) => {
   const [processingMethod, setProcessingMethod] = useState<ProcessingMethod>(
     companyLLMAvailable ? 'company_llm' : 'local_patterns'
   );
   const [dataRetention, setDataRetention] = useState(30);
   const [sanitizationRequired, setSanitizationRequired] = useState(sensitiveDataDetected);
+  const [sanitizationPacks, setSanitizationPacks] = useState<SanitizationPackId[]>(DEFAULT_SANITIZATION_PACKS);
+  const [allowListText, setAllowListText] = useState('');
+  const [sanitizationMode, setSanitizationMode] = useState<SanitizationMode>('redact');
+  const [preview, setPreview] = useState<SanitizationPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [explicitConsent, setExplicitConsent] = useState(false);
 
   if (!isOpen) return null;
 
+  const sanitizationAllowList = allowListText
+    .split('\n')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  const togglePack = (pack: SanitizationPackId) => {
+    setSanitizationPacks(current =>
+      current.includes(pack) ? current.filter(p => p !== pack) : [...current, pack]
+    );
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setPreviewLoading(true);
+    setPreviewError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('packs', sanitizationPacks.join(','));
+      formData.append('allowList', JSON.stringify(sanitizationAllowList));
+
+      const res = await fetch('/api/sanitization/preview', { method: 'POST', body: formData });
+      const json = await res.json();
+      if (!res.ok || !json.ok) {
+        throw new Error(json.error || 'Preview failed');
+      }
+      setPreview(json.preview);
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   const handleConsent = () => {
     onConsent({
       processingMethod,
       dataRetention,
       sensitiveDataDetected,
       sanitizationRequired,
+      sanitizationPacks,
+      sanitizationAllowList,
+      sanitizationMode,
       explicitConsent
     });
     onClose();
@@ -121,6 +184,12 @@ export const EnhancedConsentModal: React.FC<EnhancedConsentModalProps> = ({
               <p className="text-sm text-gray-600">
                 <strong>File:</strong> {fileName}
               </p>
+              {classification && (
+                <p className="text-sm text-gray-600">
+                  <strong>Classification:</strong> <span className="capitalize">{classification.classification}</span>
+                  {' '}({Math.round(classification.confidence * 100)}% confidence)
+                </p>
+              )}
               {sensitiveDataDetected && (
                 <div className="mt-3 p-3 bg-yellow-100 border border-yellow-300 rounded-md">
                   <p className="text-sm text-yellow-800 font-medium">
@@ -318,6 +387,103 @@ export const EnhancedConsentModal: React.FC<EnhancedConsentModalProps> = ({
                     </p>
                   </div>
                 </label>
+
+                {sanitizationRequired && (
+                  <div className="mt-4 space-y-4">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 mb-2">Redact</p>
+                      <div className="space-y-2">
+                        {SANITIZATION_PACK_IDS.map(packId => (
+                          <label key={packId} className="flex items-start space-x-3">
+                            <input
+                              type="checkbox"
+                              checked={sanitizationPacks.includes(packId)}
+                              onChange={() => togglePack(packId)}
+                              className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                            />
+                            <div className="text-sm">
+                              <span className="font-medium text-gray-900">{SANITIZATION_PACKS[packId].name}</span>
+                              <p className="text-gray-600">{SANITIZATION_PACKS[packId].description}</p>
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-1">
+                        Replace values with
+                      </label>
+                      <select
+                        value={sanitizationMode}
+                        onChange={(e) => setSanitizationMode(e.target.value as SanitizationMode)}
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="redact">Placeholders such as [EMAIL-REDACTED]</option>
+                        <option value="pseudonymize">Unique tokens such as [INVESTOR_1], restored in the results</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-1">
+                        Never redact (one value per line)
+                      </label>
+                      <textarea
+                        value={allowListText}
+                        onChange={(e) => {
+                          setAllowListText(e.target.value);
+                          setPreview(null);
+                        }}
+                        rows={3}
+                        placeholder="e.g. the fund's name, registered address or signatories"
+                        className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+
+                    {file && (
+                      <div>
+                        <Button
+                          onClick={handlePreview}
+                          variant="secondary"
+                          disabled={previewLoading || sanitizationPacks.length === 0}
+                          className="px-4 py-2 text-sm"
+                        >
+                          {previewLoading ? 'Checking...' : 'Preview redactions'}
+                        </Button>
+                        {previewError && (
+                          <p className="mt-2 text-sm text-red-600">{previewError}</p>
+                        )}
+                        {preview && (
+                          <div className="mt-3">
+                            <p className="text-sm text-gray-700">
+                              {preview.redactions.length === 0
+                                ? 'Nothing would be redacted with these settings.'
+                                : `${preview.redactions.length} value${preview.redactions.length !== 1 ? 's' : ''} would be redacted:`}
+                            </p>
+                            {preview.redactions.length > 0 && (
+                              <ul className="mt-2 max-h-60 overflow-y-auto divide-y border rounded-md text-sm">
+                                {preview.redactions.slice(0, MAX_PREVIEW_ROWS).map((redaction, index) => (
+                                  <li key={index} className="p-2">
+                                    <div className="flex justify-between text-xs text-gray-500">
+                                      <span>{redaction.description}</span>
+                                      <span>Page {redaction.page}</span>
+                                    </div>
+                                    <p className="text-gray-800 break-words">{redaction.excerpt}</p>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {preview.redactions.length > MAX_PREVIEW_ROWS && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                Showing the first {MAX_PREVIEW_ROWS}.
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
               </Card>
             )}
 
@@ -55,6 +55,9 @@ export type Issue = {
     locationHint?: string;
     pageImageUrl?: string;
     screenshotUrl?: string;
+    detectedBy?: string[];
+    agreement?: number;
+    deterministic?: boolean;
 };
 
 type Props = {
@@ -67,11 +70,20 @@ const IssuesTable: React.FC<Props> = ({
     defaultFilter,
 }) => {
     const [filterType, setFilterType] = useState<'All' | string>('All');
+    const [sortBy, setSortBy] = useState<'default' | 'agreement' | 'page'>('default');
+
+    const hasAgreement = useMemo(() => issues.some(i => typeof i.agreement === 'number'), [issues]);
 
     const visible = useMemo(() => {
-        if (filterType === 'All') return issues;
-        return issues.filter(i => i.type === filterType);
-    }, [issues, filterType]);
+        const filtered = filterType === 'All' ? issues : issues.filter(i => i.type === filterType);
+        if (sortBy === 'agreement') {
+            return [...filtered].sort((a, b) => (b.agreement ?? 0) - (a.agreement ?? 0) || a.page - b.page);
+        }
+        if (sortBy === 'page') {
+            return [...filtered].sort((a, b) => a.page - b.page);
+        }
+        return filtered;
+    }, [issues, filterType, sortBy]);
 
     const types = useMemo(() => {
         const uniqueTypes = Array.from(new Set(issues.map(i => i.type)));
@@ -99,6 +111,19 @@ const IssuesTable: React.FC<Props> = ({
                         </button>
                     );
                 })}
+                <div className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                    <label htmlFor="issues-sort">Sort by</label>
+                    <select
+                        id="issues-sort"
+                        value={sortBy}
+                        onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                        className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-700"
+                    >
+                        <option value="default">Detected order</option>
+                        <option value="page">Page</option>
+                        {hasAgreement && <option value="agreement">Agreement</option>}
+                    </select>
+                </div>
             </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full bg-white rounded-lg shadow-sm border border-gray-200">
@@ -110,6 +135,9 @@ const IssuesTable: React.FC<Props> = ({
                             <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-48">Original</th>
                             <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-48">Suggestion</th>
                             <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-40">Location</th>
+                            {hasAgreement && (
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-32">Agreement</th>
+                            )}
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -119,6 +147,14 @@ const IssuesTable: React.FC<Props> = ({
                                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">{issue.page}</td>
                                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                                         {issue.type === 'logic_point' ? 'Logic point' : issue.type.charAt(0).toUpperCase() + issue.type.slice(1)}
+                                        {issue.deterministic && (
+                                            <span
+                                                className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800"
+                                                title="Found by a deterministic rule, not a model"
+                                            >
+                                                Rule
+                                            </span>
+                                        )}
                                     </td>
                                     <td className="px-4 py-4 text-sm text-gray-900 leading-relaxed">{issue.message}</td>
                                     <td className="px-4 py-4 text-sm">
@@ -183,6 +219,20 @@ const IssuesTable: React.FC<Props> = ({
                                             </div>
                                         )}
                                     </td>
+                                    {hasAgreement && (
+                                        <td className="px-4 py-4 text-sm text-gray-900">
+                                            {typeof issue.agreement === 'number' ? (
+                                                <div title={issue.detectedBy?.join(', ')}>
+                                                    <span className="font-medium">{Math.round(issue.agreement * 100)}%</span>
+                                                    {issue.detectedBy && (
+                                                        <p className="text-xs text-gray-500 mt-1">{issue.detectedBy.join(', ')}</p>
+                                                    )}
+                                                </div>
+                                            ) : (
+                                                <span className="text-gray-400">—</span>
+                                            )}
+                                        </td>
+                                    )}
                                 </tr>
                             );
                         })}
@@ -0,0 +1,95 @@
+import React from 'react';
+
+export interface SecureReviewSummaryProps {
+  classification: { classification: string; confidence: number };
+  processingMethod: string;
+  sanitization?: {
+    detectedPatterns: Array<{ type: string; count: number; description: string }>;
+    redactionCount: number;
+  };
+  sanitizationMode?: 'redact' | 'pseudonymize';
+  encryptionApplied: boolean;
+  retentionScheduled: boolean;
+  retentionExpiresAt?: string;
+}
+
+const PROCESSING_METHOD_LABELS: Record<string, string> = {
+  company_llm: 'Company internal AI',
+  external_ai: 'External AI',
+  local_patterns: 'Local pattern analysis',
+  manual_only: 'Manual review only'
+};
+
+const CLASSIFICATION_STYLES: Record<string, string> = {
+  public: 'bg-green-100 text-green-800',
+  internal: 'bg-blue-100 text-blue-800',
+  confidential: 'bg-yellow-100 text-yellow-800',
+  restricted: 'bg-red-100 text-red-800'
+};
+
+/**
+ * How a secure review handled the document: classification, what was sanitized and when it will be deleted
+ */
+export const SecureReviewSummary: React.FC<SecureReviewSummaryProps> = ({
+  classification,
+  processingMethod,
+  sanitization,
+  sanitizationMode = 'redact',
+  encryptionApplied,
+  retentionScheduled,
+  retentionExpiresAt
+}) => {
+  return (
+    <div className="mb-6 grid gap-4 md:grid-cols-3">
+      <div className="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Classification</h3>
+        <span
+          className={`inline-block px-2.5 py-0.5 rounded-full text-sm font-medium capitalize ${
+            CLASSIFICATION_STYLES[classification.classification] || 'bg-gray-100 text-gray-800'
+          }`}
+        >
+          {classification.classification}
+        </span>
+        <p className="mt-2 text-sm text-gray-600">
+          {Math.round(classification.confidence * 100)}% confidence
+        </p>
+        <p className="text-sm text-gray-600">
+          {PROCESSING_METHOD_LABELS[processingMethod] || processingMethod}
+          {encryptionApplied && ' · stored encrypted'}
+        </p>
+      </div>
+
+      <div className="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Sanitization</h3>
+        {sanitization ? (
+          <>
+            <p className="text-sm text-gray-900">
+              {sanitization.redactionCount} value{sanitization.redactionCount !== 1 ? 's' : ''}{' '}
+              {sanitizationMode === 'pseudonymize' ? 'pseudonymized' : 'redacted'} before analysis
+            </p>
+            <ul className="mt-2 text-sm text-gray-600">
+              {sanitization.detectedPatterns.map(pattern => (
+                <li key={pattern.type}>
+                  • {pattern.description}: {pattern.count}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">Not applied; the document was analyzed as uploaded.</p>
+        )}
+      </div>
+
+      <div className="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500 mb-2">Retention</h3>
+        {retentionScheduled && retentionExpiresAt ? (
+          <p className="text-sm text-gray-900">
+            Deleted on {new Date(retentionExpiresAt).toLocaleDateString()}
+          </p>
+        ) : (
+          <p className="text-sm text-yellow-700">Deletion could not be scheduled; contact an administrator.</p>
+        )}
+      </div>
+    </div>
+  );
+};
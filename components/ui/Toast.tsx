@@ -5,9 +5,10 @@ type ToastProps = {
   message: string;
   variant: 'success' | 'danger';
   onClose: () => void;
+  action?: { label: string; onClick: () => void };
 };
 
-export const Toast = ({ message, variant, onClose }: ToastProps) => {
+export const Toast = ({ message, variant, onClose, action }: ToastProps) => {
   const baseClasses = 'fixed top-5 right-5 w-full max-w-xs p-4 rounded-acl shadow-elev-3';
   const variantClasses = {
     success: 'bg-success text-white',
@@ -20,6 +21,14 @@ export const Toast = ({ message, variant, onClose }: ToastProps) => {
         <div className="ml-3 flex-1">
           <p className="text-sm font-medium">{message}</p>
         </div>
+        {action && (
+          <button
+            onClick={action.onClick}
+            className="ml-3 text-sm font-semibold underline hover:no-underline focus:outline-none"
+          >
+            {action.label}
+          </button>
+        )}
         <button
           onClick={onClose}
           className="ml-auto -mx-1.5 -my-1.5 bg-transparent rounded-acl p-1.5 inline-flex h-8 w-8 text-white hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white"
@@ -0,0 +1,233 @@
+import { callGemini, normalizeData, type AnalysisResult } from './review';
+import { analyzeDocumentWithN8n } from './n8n';
+import { analyzeDocumentWithCompanyLLM } from './company-llm';
+import { processDocumentWithPatterns } from './local-patterns';
+import { extractPdfText } from './pdf';
+import { createEnsembleProvider } from './ensemble';
+
+export interface AnalysisProviderCapabilities {
+  acceptsRawPdf: boolean;
+  acceptsText: boolean;
+  requiresConsent: boolean; // Document content leaves our infrastructure
+  supportsSanitizedInput: boolean;
+}
+
+export interface AnalysisInput {
+  fileName: string;
+  fileBuffer: Buffer;
+  text?: string; // Extracted (and possibly sanitized) text; extracted on demand when omitted
+  wasSanitized?: boolean;
+  userId?: string;
+}
+
+export interface AnalysisProvider {
+  name: string;
+  description: string;
+  capabilities: AnalysisProviderCapabilities;
+  analyze(input: AnalysisInput): Promise<AnalysisResult>;
+}
+
+export const DEFAULT_ANALYSIS_PROVIDER = 'n8n';
+export const DEFAULT_ENSEMBLE_PROVIDERS = ['gemini', 'company_llm', 'local_patterns'];
+
+/**
+ * Returns the document text for text-based providers, extracting it when the caller did not
+ */
+const resolveText = async (input: AnalysisInput): Promise<string> => {
+  if (input.text !== undefined) {
+    return input.text;
+  }
+  const { pages } = await extractPdfText(input.fileBuffer);
+  return pages.join('\f');
+};
+
+const geminiProvider: AnalysisProvider = {
+  name: 'gemini',
+  description: 'Google Gemini analysis of the raw PDF, or of the sanitized text',
+  capabilities: {
+    acceptsRawPdf: true,
+    acceptsText: true,
+    requiresConsent: true,
+    supportsSanitizedInput: true
+  },
+  async analyze(input) {
+    // The PDF still holds every value sanitization removed, so sanitized reviews only send the text
+    const raw = input.wasSanitized
+      ? await callGemini({ text: await resolveText(input) }, true)
+      : await callGemini({ base64Pdf: input.fileBuffer.toString('base64') });
+    return normalizeData(raw, input.fileName);
+  }
+};
+
+const n8nProvider: AnalysisProvider = {
+  name: 'n8n',
+  description: 'n8n analysis workflow (LiteLLM)',
+  capabilities: {
+    acceptsRawPdf: true,
+    acceptsText: false,
+    requiresConsent: true,
+    supportsSanitizedInput: false
+  },
+  async analyze(input) {
+    const raw = await analyzeDocumentWithN8n(
+      input.fileBuffer.toString('base64'),
+      input.fileName,
+      input.userId
+    );
+    return normalizeData(raw, input.fileName);
+  }
+};
+
+const companyLLMProvider: AnalysisProvider = {
+  name: 'company_llm',
+  description: 'Company internal LLM',
+  capabilities: {
+    acceptsRawPdf: false,
+    acceptsText: true,
+    requiresConsent: false,
+    supportsSanitizedInput: true
+  },
+  async analyze(input) {
+    const text = await resolveText(input);
+    return analyzeDocumentWithCompanyLLM(text, input.fileName, input.wasSanitized);
+  }
+};
+
+const localPatternsProvider: AnalysisProvider = {
+  name: 'local_patterns',
+  description: 'Local pattern matching',
+  capabilities: {
+    acceptsRawPdf: false,
+    acceptsText: true,
+    requiresConsent: false,
+    supportsSanitizedInput: true
+  },
+  async analyze(input) {
+    const text = await resolveText(input);
+    return processDocumentWithPatterns(text, input.fileName);
+  }
+};
+
+const manualOnlyProvider: AnalysisProvider = {
+  name: 'manual_only',
+  description: 'No automated processing',
+  capabilities: {
+    acceptsRawPdf: false,
+    acceptsText: false,
+    requiresConsent: false,
+    supportsSanitizedInput: true
+  },
+  async analyze(input) {
+    return {
+      fileName: input.fileName,
+      issues: [{
+        page: 1,
+        type: 'other',
+        message: 'Document uploaded for manual review only',
+        original: '',
+        suggestion: 'Please review this document manually',
+        locationHint: 'Manual review required'
+      }],
+      summary: {
+        issueCount: 1,
+        pagesAffected: [1]
+      }
+    };
+  }
+};
+
+export class AnalysisProviderRegistry {
+  private providers = new Map<string, AnalysisProvider>();
+
+  /**
+   * Registers a provider, replacing any provider with the same name
+   */
+  register(provider: AnalysisProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Removes a provider by name
+   */
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  /**
+   * Checks if a provider is registered
+   */
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Gets a provider by name
+   */
+  get(name: string): AnalysisProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown analysis provider: ${name}. Registered providers: ${[...this.providers.keys()].join(', ') || 'none'}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Gets all registered providers
+   */
+  list(): AnalysisProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * Gets providers whose capabilities match every given flag
+   */
+  findByCapabilities(required: Partial<AnalysisProviderCapabilities>): AnalysisProvider[] {
+    return this.list().filter(provider =>
+      (Object.keys(required) as Array<keyof AnalysisProviderCapabilities>).every(
+        key => provider.capabilities[key] === required[key]
+      )
+    );
+  }
+
+  /**
+   * Gets the provider configured through ANALYSIS_PROVIDER, falling back to the default
+   */
+  getDefault(): AnalysisProvider {
+    return this.get(process.env.ANALYSIS_PROVIDER || DEFAULT_ANALYSIS_PROVIDER);
+  }
+}
+
+// Singleton instance
+let providerRegistryInstance: AnalysisProviderRegistry | null = null;
+
+export const getProviderRegistry = (): AnalysisProviderRegistry => {
+  if (!providerRegistryInstance) {
+    providerRegistryInstance = new AnalysisProviderRegistry();
+    [
+      geminiProvider,
+      n8nProvider,
+      companyLLMProvider,
+      localPatternsProvider,
+      manualOnlyProvider
+    ].forEach(provider => providerRegistryInstance!.register(provider));
+
+    const ensembleMembers = process.env.ENSEMBLE_PROVIDERS
+      ? process.env.ENSEMBLE_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+      : DEFAULT_ENSEMBLE_PROVIDERS;
+    providerRegistryInstance.register(createEnsembleProvider(providerRegistryInstance, ensembleMembers));
+  }
+  return providerRegistryInstance;
+};
+
+// Convenience functions
+export const getAnalysisProvider = (name?: string): AnalysisProvider => {
+  const registry = getProviderRegistry();
+  return name ? registry.get(name) : registry.getDefault();
+};
+
+export const analyzeWithProvider = (
+  name: string | undefined,
+  input: AnalysisInput
+): Promise<AnalysisResult> => {
+  return getAnalysisProvider(name).analyze(input);
+};
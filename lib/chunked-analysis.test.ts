@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeInPageWindows, buildPageWindows, dedupeIssues, remapIssues } from './chunked-analysis';
+import type { AnalysisInput, AnalysisProvider } from './analysis-providers';
+import type { AnalysisIssue } from './review';
+
+const issue = (overrides: Partial<AnalysisIssue> = {}): AnalysisIssue => ({
+  page: 1,
+  type: 'typo',
+  message: 'Misspelled word',
+  original: 'the Partnershp agreement',
+  suggestion: 'the Partnership agreement',
+  locationHint: '',
+  ...overrides,
+});
+
+const pageWindow = (startPage: number, endPage: number) => ({ index: 0, startPage, endPage });
+
+describe('buildPageWindows', () => {
+  it('overlaps consecutive windows and ends on the last page', () => {
+    assert.deepEqual(buildPageWindows(10, 4, 1), [
+      { index: 0, startPage: 1, endPage: 4 },
+      { index: 1, startPage: 4, endPage: 7 },
+      { index: 2, startPage: 7, endPage: 10 },
+    ]);
+  });
+
+  it('shortens the last window instead of adding one made of overlap only', () => {
+    assert.deepEqual(buildPageWindows(9, 4, 1).map(w => [w.startPage, w.endPage]), [[1, 4], [4, 7], [7, 9]]);
+  });
+
+  it('keeps a single-page document in one window', () => {
+    assert.deepEqual(buildPageWindows(1, 15, 2), [{ index: 0, startPage: 1, endPage: 1 }]);
+  });
+
+  it('still advances when the overlap is as large as the window', () => {
+    assert.deepEqual(buildPageWindows(3, 2, 5).map(w => [w.startPage, w.endPage]), [[1, 2], [2, 3]]);
+  });
+});
+
+describe('remapIssues', () => {
+  it('moves window pages onto the full document', () => {
+    assert.deepEqual(remapIssues([issue({ page: 1 }), issue({ page: 3 })], pageWindow(7, 10)).map(i => i.page), [7, 9]);
+  });
+
+  it('clamps pages the model reported outside the window', () => {
+    assert.deepEqual(remapIssues([issue({ page: 0 }), issue({ page: 12 })], pageWindow(7, 10)).map(i => i.page), [7, 10]);
+  });
+});
+
+describe('dedupeIssues', () => {
+  it('drops an issue reported by both windows sharing its page', () => {
+    // Page 4 is the last page of the first window and the first of the second
+    const first = remapIssues([issue({ page: 4 })], pageWindow(1, 4));
+    const second = remapIssues([issue({ page: 1, original: 'Partnershp agreement' })], pageWindow(4, 7));
+
+    assert.deepEqual(dedupeIssues([...first, ...second]), first);
+  });
+
+  it('keeps the same finding on different pages', () => {
+    const issues = [issue({ page: 4 }), issue({ page: 5 })];
+    assert.deepEqual(dedupeIssues(issues), issues);
+  });
+
+  it('keeps issues without quoted text unless they are identical', () => {
+    const blank = issue({ original: '', type: 'logic_point', message: 'Confirm the closing date' });
+    assert.deepEqual(dedupeIssues([blank, { ...blank }]), [blank]);
+    assert.equal(dedupeIssues([blank, { ...blank, message: 'Confirm the fee rate' }]).length, 2);
+  });
+});
+
+describe('analyzeInPageWindows', () => {
+  const textProvider = (analyze: (input: AnalysisInput) => AnalysisIssue[]): AnalysisProvider => ({
+    name: 'fake',
+    description: 'Reports issues from the window text',
+    capabilities: { acceptsRawPdf: false, acceptsText: true, requiresConsent: false, supportsSanitizedInput: true },
+    analyze: async (input) => {
+      const issues = analyze(input);
+      return { fileName: input.fileName, issues, summary: { issueCount: issues.length, pagesAffected: [] } };
+    },
+  });
+
+  // A typo on every page that says "typo"; the provider only sees its window
+  const typoPerPage = textProvider(input =>
+    (input.text ?? '').split('\f').flatMap((page, index) =>
+      page.includes('typo') ? [issue({ page: index + 1, original: page })] : []
+    )
+  );
+
+  it('analyzes a short document in one call', async () => {
+    const result = await analyzeInPageWindows(typoPerPage, {
+      fileName: 'sub-doc.pdf',
+      fileBuffer: Buffer.alloc(0),
+      text: 'typo on page one',
+    }, { windowSize: 4, overlap: 1 });
+
+    assert.deepEqual(result.issues.map(i => i.page), [1]);
+  });
+
+  it('reports an issue on a window boundary once, on its document page', async () => {
+    const pages = ['intro', 'terms', 'fees', 'typo on page four', 'signatures', 'typo on page six', 'notices'];
+    const result = await analyzeInPageWindows(typoPerPage, {
+      fileName: 'sub-doc.pdf',
+      fileBuffer: Buffer.alloc(0),
+      text: pages.join('\f'),
+    }, { windowSize: 4, overlap: 1 });
+
+    assert.deepEqual(result.issues.map(i => i.page), [4, 6]);
+    assert.deepEqual(result.summary, { issueCount: 2, pagesAffected: [4, 6] });
+  });
+});
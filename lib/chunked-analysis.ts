@@ -0,0 +1,181 @@
+import type { AnalysisIssue, AnalysisResult } from './review';
+import type { AnalysisInput, AnalysisProvider } from './analysis-providers';
+import { extractPdfText, extractPdfPages } from './pdf';
+import { isNearDuplicate } from './ensemble';
+import { collectDeclaredSections, findSectionLabels } from './rules';
+
+export interface PageWindow {
+  index: number;
+  startPage: number; // 1-based, inclusive
+  endPage: number; // 1-based, inclusive
+}
+
+export interface ChunkingOptions {
+  windowSize?: number; // Pages per window
+  overlap?: number; // Pages shared by consecutive windows
+  concurrency?: number; // Windows analyzed at the same time
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: Required<ChunkingOptions> = {
+  windowSize: Number(process.env.CHUNK_WINDOW_PAGES) || 15,
+  overlap: Number(process.env.CHUNK_OVERLAP_PAGES) || 2,
+  concurrency: Number(process.env.CHUNK_CONCURRENCY) || 3,
+};
+
+/**
+ * Splits a document into overlapping page windows
+ */
+export const buildPageWindows = (pageCount: number, windowSize: number, overlap: number): PageWindow[] => {
+  const size = Math.max(1, windowSize);
+  const step = Math.max(1, size - Math.max(0, overlap));
+  const windows: PageWindow[] = [];
+
+  for (let start = 1; start <= pageCount; start += step) {
+    const end = Math.min(pageCount, start + size - 1);
+    windows.push({ index: windows.length, startPage: start, endPage: end });
+    if (end === pageCount) break;
+  }
+  return windows;
+};
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight, preserving order
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
+
+/**
+ * Moves window-relative page numbers back onto the full document
+ */
+export const remapIssues = (issues: AnalysisIssue[], window: PageWindow): AnalysisIssue[] => {
+  return issues.map(issue => ({
+    ...issue,
+    page: Math.min(window.endPage, window.startPage + Math.max(1, issue.page) - 1),
+  }));
+};
+
+/**
+ * Drops issues reported twice because they sit in the overlap between windows
+ */
+export const dedupeIssues = (issues: AnalysisIssue[]): AnalysisIssue[] => {
+  const unique: AnalysisIssue[] = [];
+  for (const issue of issues) {
+    // Issues without quoted text only repeat when everything else about them is identical
+    const repeated = (existing: AnalysisIssue) => existing.message === issue.message && (
+      isNearDuplicate(existing, issue) ||
+      (!existing.original.trim() && !issue.original.trim() && existing.page === issue.page && existing.type === issue.type)
+    );
+    if (!unique.some(repeated)) {
+      unique.push(issue);
+    }
+  }
+  return unique;
+};
+
+/**
+ * Drops window-level cross-reference issues whose target section is declared in another window.
+ * Missing references across the whole document are reported by the deterministic rules instead.
+ */
+const crossWindowPass = (pages: string[], issues: AnalysisIssue[]): AnalysisIssue[] => {
+  const declared = collectDeclaredSections(pages);
+
+  return issues.filter(issue => {
+    if (issue.type !== 'cross_reference' || issue.deterministic) return true;
+    const labels = findSectionLabels(`${issue.original} ${issue.message}`);
+    return labels.length === 0 || labels.some(label => !declared.has(label));
+  });
+};
+
+/**
+ * Analyzes a document window by window and merges the results onto full-document page numbers
+ */
+export const analyzeInPageWindows = async (
+  provider: AnalysisProvider,
+  input: AnalysisInput,
+  options: ChunkingOptions = {}
+): Promise<AnalysisResult> => {
+  const { windowSize, overlap, concurrency } = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+
+  // Sanitized text keeps the form feeds between pages, so windows line up with the PDF
+  const pages = input.text !== undefined
+    ? input.text.split('\f')
+    : (await extractPdfText(input.fileBuffer)).pages;
+
+  if (pages.length <= windowSize) {
+    return provider.analyze(input);
+  }
+
+  const windows = buildPageWindows(pages.length, windowSize, overlap);
+  const warnings: string[] = [];
+
+  const windowResults = await mapWithConcurrency(windows, concurrency, async (window) => {
+    try {
+      const windowInput: AnalysisInput = {
+        ...input,
+        text: pages.slice(window.startPage - 1, window.endPage).join('\f'),
+        fileBuffer: provider.capabilities.acceptsRawPdf
+          ? await extractPdfPages(input.fileBuffer, window.startPage, window.endPage)
+          : input.fileBuffer,
+      };
+      const result = await provider.analyze(windowInput);
+      warnings.push(...(result.warnings ?? []).map(w => `Pages ${window.startPage}-${window.endPage}: ${w}`));
+      return remapIssues(result.issues, window);
+    } catch (error) {
+      console.error(`Analysis of pages ${window.startPage}-${window.endPage} failed:`, error);
+      warnings.push(`Pages ${window.startPage}-${window.endPage} could not be analyzed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  });
+
+  if (windowResults.every(result => result === null)) {
+    throw new Error(`All ${windows.length} page windows failed to analyze`);
+  }
+
+  const issues = crossWindowPass(
+    pages,
+    dedupeIssues(windowResults.flatMap(result => result ?? []))
+  ).sort((a, b) => a.page - b.page);
+
+  return {
+    fileName: input.fileName,
+    issues,
+    summary: {
+      issueCount: issues.length,
+      pagesAffected: [...new Set(issues.map(issue => issue.page))],
+    },
+    ...(warnings.length > 0 && { warnings }),
+  };
+};
+
+/**
+ * Wraps a provider so long documents are analyzed in page windows
+ */
+export const withPageWindows = (provider: AnalysisProvider, options: ChunkingOptions = {}): AnalysisProvider => {
+  // Providers that never read the document have nothing to chunk
+  if (!provider.capabilities.acceptsRawPdf && !provider.capabilities.acceptsText) {
+    return provider;
+  }
+
+  return {
+    name: provider.name,
+    description: provider.description,
+    capabilities: provider.capabilities,
+    analyze: (input) => analyzeInPageWindows(provider, input, options),
+  };
+};
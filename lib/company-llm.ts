@@ -1,4 +1,5 @@
 import type { AnalysisResult } from './review';
+import { parseModelJson, validateAnalysisResult } from './model-output';
 
 export interface CompanyLLMConfig {
   apiUrl: string;
@@ -56,7 +57,7 @@ export class CompanyLLMService {
         temperature: 0.1 // Low temperature for consistent analysis
       });
 
-      return this.parseAnalysisResponse(response.content, fileName);
+      return await this.parseAnalysisResponse(response.content, fileName, prompt);
     } catch (error) {
       console.error('Company LLM analysis failed:', error);
       throw new Error(`Document analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -109,7 +110,7 @@ export class CompanyLLMService {
   private buildDocumentAnalysisPrompt(wasSanitized: boolean): string {
     return `
 Act as a PDF QA checker for a data science team specializing in subscription documents.
-${wasSanitized ? 'NOTE: This document has been sanitized to remove sensitive information.' : ''}
+${wasSanitized ? 'NOTE: This document has been sanitized to remove sensitive information. Bracketed tokens such as [INVESTOR_1] stand in for removed values; copy them exactly when quoting the text.' : ''}
 
 Your task is to analyze the document content and identify issues that need attention.
 
@@ -211,26 +212,30 @@ Document content to analyze:
   }
 
   /**
-   * Parses LLM response into structured analysis result
+   * Parses LLM response into structured analysis result, asking the model to repair schema errors
    */
-  private parseAnalysisResponse(content: string, fileName: string): AnalysisResult {
+  private async parseAnalysisResponse(content: string, fileName: string, prompt: string): Promise<AnalysisResult> {
     try {
-      // Clean the response - remove code fences if present
-      const cleanedContent = content
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-
-      const parsed = JSON.parse(cleanedContent);
+      const { value, warnings } = await parseModelJson(content, {
+        label: 'document analysis',
+        validate: validateAnalysisResult,
+        repair: async (repairPrompt) => {
+          const response = await this.callLLM({
+            prompt,
+            documentContent: repairPrompt,
+            fileName,
+            maxTokens: 4000,
+            temperature: 0
+          });
+          return response.content;
+        }
+      });
 
-      // Validate and normalize the response
       return {
-        fileName: parsed.fileName || fileName,
-        issues: Array.isArray(parsed.issues) ? parsed.issues.map(this.normalizeIssue) : [],
-        summary: {
-          issueCount: parsed.summary?.issueCount || 0,
-          pagesAffected: Array.isArray(parsed.summary?.pagesAffected) ? parsed.summary.pagesAffected : []
-        }
+        fileName: value.fileName || fileName,
+        issues: value.issues.map(this.normalizeIssue),
+        summary: value.summary,
+        ...(warnings.length > 0 && { warnings })
       };
     } catch (error) {
       console.error('Failed to parse LLM response:', error);
@@ -243,7 +248,8 @@ Document content to analyze:
         summary: {
           issueCount: 0,
           pagesAffected: []
-        }
+        },
+        warnings: [error instanceof Error ? error.message : 'Failed to parse LLM response']
       };
     }
   }
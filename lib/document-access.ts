@@ -0,0 +1,297 @@
+import { createServerSupabase } from './supabaseServer';
+import type { AnalysisResult } from './review';
+import { HISTORY_PAGE_SIZE, type HistoryFilters, type HistorySort } from './history-query';
+
+/**
+ * Clerk identity a document is stored under or read by; orgId is the active organization, if any
+ */
+export interface DocumentOwner {
+  userId: string;
+  orgId?: string | null;
+}
+
+export interface HistoryDocument {
+  id: string;
+  created_at: string;
+  user_input: string;
+  ai_result: AnalysisResult;
+  created_by: string;
+  org_id: string | null;
+  shared_with_org: boolean;
+  issue_count: number;
+  document_classification: string | null;
+  processing_method: string | null;
+  version_number: number;
+}
+
+/**
+ * Position after the last row of a history page: its value in the sort column and its id as a tiebreaker
+ */
+export interface HistoryCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface HistoryPage {
+  items: HistoryDocument[];
+  nextCursor: string | null;
+}
+
+export const HISTORY_COLUMNS =
+  'id, created_at, user_input, ai_result, created_by, org_id, shared_with_org, issue_count, document_classification, processing_method, version_number';
+
+const SORT_COLUMNS: Record<HistorySort, { column: 'created_at' | 'issue_count' | 'user_input'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  most_issues: { column: 'issue_count', ascending: false },
+  fewest_issues: { column: 'issue_count', ascending: true },
+  file_name: { column: 'user_input', ascending: true }
+};
+
+// Clerk ids are interpolated into PostgREST filters, so anything else is rejected
+const CLERK_ID_PATTERN = /^[A-Za-z0-9_]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isDocumentId = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value);
+
+export const encodeHistoryCursor = (cursor: HistoryCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Reads a cursor produced by encodeHistoryCursor; null when it was tampered with or is malformed
+ */
+export const parseHistoryCursor = (value: string): HistoryCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const validValue = typeof cursor?.value === 'string' || typeof cursor?.value === 'number';
+    return validValue && isDocumentId(cursor.id) ? { value: cursor.value, id: cursor.id } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Cursor values can be file names, so they are quoted before going into a PostgREST filter
+const quoteFilterValue = (value: string | number): string =>
+  `"${String(value).replace(/[\\"]/g, '\\$&')}"`;
+
+const dayAfter = (date: string): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * Ownership columns written with every stored analysis
+ */
+export const toOwnerColumns = (owner: DocumentOwner | null) => ({
+  created_by: owner?.userId ?? null,
+  org_id: owner?.orgId ?? null
+});
+
+export class DocumentAccessService {
+  private supabase = createServerSupabase();
+
+  /**
+   * Filter matching the viewer's own documents and those teammates chose to share with the viewer's organization
+   */
+  scopeFilter(viewer: DocumentOwner): string {
+    if (!CLERK_ID_PATTERN.test(viewer.userId) || (viewer.orgId && !CLERK_ID_PATTERN.test(viewer.orgId))) {
+      throw new Error('Invalid viewer id');
+    }
+    const own = `created_by.eq.${viewer.userId}`;
+    return viewer.orgId ? `${own},and(org_id.eq.${viewer.orgId},shared_with_org.is.true)` : own;
+  }
+
+  /**
+   * One page of the documents the viewer can see, filtered and sorted server-side; dates are UTC days
+   */
+  async searchDocuments(
+    viewer: DocumentOwner,
+    filters: HistoryFilters,
+    cursor: HistoryCursor | null = null,
+    limit: number = HISTORY_PAGE_SIZE
+  ): Promise<HistoryPage> {
+    const { column, ascending } = SORT_COLUMNS[filters.sort];
+
+    let query = this.supabase
+      .from('demo_requests')
+      .select(HISTORY_COLUMNS)
+      .or(this.scopeFilter(viewer))
+      .is('deleted_at', null);
+
+    if (filters.q) {
+      query = query.textSearch('search_vector', filters.q, { type: 'websearch', config: 'english' });
+    }
+    if (filters.from) {
+      query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+    }
+    if (filters.to) {
+      query = query.lt('created_at', dayAfter(filters.to));
+    }
+    if (filters.issueType) {
+      query = query.filter('ai_result->issues', 'cs', JSON.stringify([{ type: filters.issueType }]));
+    }
+    if (filters.minIssues !== undefined) {
+      query = query.gte('issue_count', filters.minIssues);
+    }
+    if (filters.maxIssues !== undefined) {
+      query = query.lte('issue_count', filters.maxIssues);
+    }
+    if (filters.classification) {
+      query = query.eq('document_classification', filters.classification);
+    }
+    if (filters.processingMethod) {
+      query = query.eq('processing_method', filters.processingMethod);
+    }
+    if (filters.reviewer) {
+      query = query.eq('created_by', filters.reviewer);
+    }
+
+    // Keyset pagination stays stable while documents are added or deleted between pages
+    if (cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      const value = quoteFilterValue(cursor.value);
+      query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) {
+      console.error('Error searching documents:', error);
+      throw new Error('Failed to load history');
+    }
+
+    const rows = (data ?? []) as unknown as HistoryDocument[];
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit && last ? encodeHistoryCursor({ value: last[column], id: last.id }) : null
+    };
+  }
+
+  /**
+   * Gets a document the viewer can see; null both when it does not exist and when it belongs to someone else
+   */
+  async getDocument<T = HistoryDocument>(
+    documentId: string,
+    viewer: DocumentOwner,
+    columns: string = HISTORY_COLUMNS
+  ): Promise<T | null> {
+    if (!isDocumentId(documentId)) {
+      return null;
+    }
+
+    // Deleted documents waiting out their undo window are hidden everywhere
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select(columns)
+      .eq('id', documentId)
+      .or(this.scopeFilter(viewer))
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading document:', error);
+      return null;
+    }
+    return (data as T | null) ?? null;
+  }
+
+  async canAccessDocument(documentId: string, viewer: DocumentOwner): Promise<boolean> {
+    return (await this.getDocument(documentId, viewer, 'id')) !== null;
+  }
+
+  /**
+   * Finds the document whose issues link to a screenshot URL, whoever owns it; callers check access with canAccessDocument
+   */
+  async findDocumentByScreenshot(screenshotUrl: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select('id')
+      .filter('ai_result->issues', 'cs', JSON.stringify([{ screenshotUrl }]))
+      .is('deleted_at', null)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error finding document for screenshot:', error);
+      return null;
+    }
+    return data?.id ?? null;
+  }
+
+  /**
+   * Adds issues covered by a sent review email to the document's emailed issues; indexes outside its issues are ignored
+   */
+  async recordEmailedIssues(documentId: string, viewer: DocumentOwner, issueIndexes: number[]): Promise<boolean> {
+    const document = await this.getDocument<{ ai_result: AnalysisResult | null; emailed_issues: number[] | null }>(
+      documentId,
+      viewer,
+      'ai_result, emailed_issues'
+    );
+    if (!document) {
+      return false;
+    }
+
+    const issueCount = document.ai_result?.issues?.length ?? 0;
+    const emailed = new Set(document.emailed_issues ?? []);
+    issueIndexes
+      .filter(index => Number.isInteger(index) && index >= 0 && index < issueCount)
+      .forEach(index => emailed.add(index));
+
+    const { error } = await this.supabase
+      .from('demo_requests')
+      .update({ emailed_issues: [...emailed].sort((a, b) => a - b) })
+      .eq('id', documentId);
+
+    if (error) {
+      console.error('Error recording emailed issues:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Shares a document with the organization it was created in, or stops sharing it; only the owner may
+   */
+  async setSharing(documentId: string, owner: DocumentOwner, shared: boolean): Promise<boolean> {
+    if (!isDocumentId(documentId)) {
+      return false;
+    }
+
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .update({ shared_with_org: shared })
+      .eq('id', documentId)
+      .eq('created_by', owner.userId)
+      .not('org_id', 'is', null)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error updating document sharing:', error);
+      return false;
+    }
+    return (data ?? []).length > 0;
+  }
+}
+
+// Singleton instance
+let documentAccessInstance: DocumentAccessService | null = null;
+
+export const getDocumentAccessService = (): DocumentAccessService => {
+  if (!documentAccessInstance) {
+    documentAccessInstance = new DocumentAccessService();
+  }
+  return documentAccessInstance;
+};
+
+// Convenience functions
+export const canAccessDocument = (documentId: string, viewer: DocumentOwner): Promise<boolean> => {
+  return getDocumentAccessService().canAccessDocument(documentId, viewer);
+};
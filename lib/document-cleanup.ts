@@ -0,0 +1,78 @@
+import { createServerSupabase } from './supabaseServer';
+import { getSecureScreenshotManager } from './secure-screenshot';
+import { SCREENSHOT_PREFIX, screenshotOwner } from './screenshot';
+import { getStorageBackend } from './storage';
+import { shredDataKey } from './envelope-encryption';
+import type { AnalysisResult } from './review';
+
+/**
+ * The columns of a document needed to find what was stored alongside it
+ */
+export interface DocumentArtifactsSource {
+  id: string;
+  created_by: string | null;
+  ai_result: AnalysisResult | null;
+}
+
+export interface DeletedArtifacts {
+  screenshotsDeleted: number;
+  reviewJobsDeleted: number;
+}
+
+export const DOCUMENT_ARTIFACT_COLUMNS = 'id, created_by, ai_result';
+
+/**
+ * Deletes a document's screenshots and the review jobs that produced it, shredding the jobs' data keys.
+ * Run before the document row is deleted, which would unlink its jobs; the document's own data key is left to the caller
+ */
+export async function deleteDocumentArtifacts(document: DocumentArtifactsSource): Promise<DeletedArtifacts> {
+  const screenshotsDeleted = await deleteScreenshots(document);
+  const reviewJobsDeleted = await deleteReviewJobs(document.id);
+  return { screenshotsDeleted, reviewJobsDeleted };
+}
+
+/**
+ * Deletes the review jobs that produced a document: they hold its extracted text, its analysis and,
+ * for jobs saved before they discarded it, the PDF under a key of its own
+ */
+async function deleteReviewJobs(documentId: string): Promise<number> {
+  const supabase = createServerSupabase();
+  const { data, error } = await supabase
+    .from('review_jobs')
+    .select('id, data_key_id')
+    .eq('result_id', documentId);
+  if (error) {
+    throw new Error(`Failed to list review jobs: ${error.message}`);
+  }
+
+  for (const job of data ?? []) {
+    if (job.data_key_id) {
+      await shredDataKey(job.data_key_id);
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('review_jobs')
+    .delete()
+    .eq('result_id', documentId);
+  if (deleteError) {
+    throw new Error(`Failed to delete review jobs: ${deleteError.message}`);
+  }
+  return data?.length ?? 0;
+}
+
+async function deleteScreenshots(document: DocumentArtifactsSource): Promise<number> {
+  let deleted = await getSecureScreenshotManager().deleteDocumentScreenshots(document.id);
+
+  // Plain screenshots are only linked to the document through the issues that show them
+  const ownScreenshots = `/api/${SCREENSHOT_PREFIX}/${screenshotOwner(document.created_by)}/`;
+  const storage = getStorageBackend();
+  for (const issue of document.ai_result?.issues ?? []) {
+    if (issue.screenshotUrl?.startsWith(ownScreenshots)) {
+      await storage.delete(issue.screenshotUrl.slice('/api/'.length));
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareIssues, lineageKey, normalizeDocumentName } from './document-lineage';
+import type { AnalysisIssue } from './review';
+
+const issue = (overrides: Partial<AnalysisIssue> = {}): AnalysisIssue => ({
+  page: 1,
+  type: 'typo',
+  message: 'Misspelled word',
+  original: 'Partnershp agreement',
+  suggestion: 'Partnership agreement',
+  locationHint: '',
+  ...overrides,
+});
+
+describe('normalizeDocumentName', () => {
+  it('drops version suffixes, copy counters and punctuation', () => {
+    assert.equal(normalizeDocumentName('Sub Doc_v2 (1).pdf'), 'sub doc');
+    assert.equal(normalizeDocumentName('Sub Doc FINAL.pdf'), 'sub doc');
+    assert.equal(normalizeDocumentName('sub-doc rev 3 2026-03-15.PDF'), 'sub doc');
+  });
+
+  it('keeps the name when it is nothing but a version marker', () => {
+    assert.equal(normalizeDocumentName('Final.pdf'), 'final');
+  });
+});
+
+describe('lineageKey', () => {
+  it('combines the fund and the document name', () => {
+    assert.equal(lineageKey('Acme Growth Fund II, L.P.', 'Sub Doc_v2 (1).pdf'), 'acme growth fund ii l p::sub doc');
+    assert.equal(lineageKey('ACME growth fund II L.P.', 'sub-doc final.pdf'), 'acme growth fund ii l p::sub doc');
+  });
+
+  it('groups nothing without a fund', () => {
+    assert.equal(lineageKey(null, 'Sub Doc.pdf'), null);
+    assert.equal(lineageKey(' , ', 'Sub Doc.pdf'), null);
+  });
+});
+
+describe('compareIssues', () => {
+  it('matches issues whose wording overlaps by half or more, whatever their page', () => {
+    // {partnershp, agreement, misspelled, word} against {the, partnershp, agreement, misspelled, name}: 3 of 6 words
+    const previous = [issue({ page: 2 })];
+    const current = [issue({ page: 3, original: 'the Partnershp agreement', message: 'Misspelled name' })];
+
+    const comparison = compareIssues(previous, current);
+    assert.deepEqual(comparison.persisting, [{ previous: previous[0], current: current[0] }]);
+    assert.deepEqual(comparison.resolved, []);
+    assert.deepEqual(comparison.introduced, []);
+  });
+
+  it('treats less overlap as a resolved issue and a new one', () => {
+    // 2 of 6 words
+    const previous = [issue()];
+    const current = [issue({ original: 'Partnershp terms', message: 'Misspelled name' })];
+
+    assert.deepEqual(compareIssues(previous, current), { resolved: previous, persisting: [], introduced: current });
+  });
+
+  it('never matches issues of different types', () => {
+    const previous = [issue()];
+    const current = [issue({ type: 'spacing' })];
+
+    assert.deepEqual(compareIssues(previous, current), { resolved: previous, persisting: [], introduced: current });
+  });
+
+  it('prefers the same flagged text over closer wording', () => {
+    const previous = [issue({ original: 'Partnershp', message: 'Misspelled word in the fund name' })];
+    const sameText = issue({ original: 'Partnershp', message: 'Typo' });
+    const sameWords = issue({ original: 'Partnershp.', message: 'Misspelled word in the fund name' });
+
+    const comparison = compareIssues(previous, [sameWords, sameText]);
+    assert.deepEqual(comparison.persisting, [{ previous: previous[0], current: sameText }]);
+    assert.deepEqual(comparison.introduced, [sameWords]);
+  });
+
+  it('uses each issue at most once and orders persisting issues by current page', () => {
+    const previous = [issue({ page: 5 }), issue({ page: 1, type: 'logic_point', original: '', message: 'Confirm the closing date' })];
+    const current = [issue({ page: 4, type: 'logic_point', original: '', message: 'Confirm the closing date' }), issue({ page: 2 }), issue({ page: 6 })];
+
+    const comparison = compareIssues(previous, current);
+    assert.deepEqual(comparison.persisting.map(match => [match.previous.page, match.current.page]), [[5, 2], [1, 4]]);
+    assert.deepEqual(comparison.introduced.map(unmatched => unmatched.page), [6]);
+    assert.deepEqual(comparison.resolved, []);
+  });
+});
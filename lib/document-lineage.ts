@@ -0,0 +1,348 @@
+import { randomUUID } from 'crypto';
+import { createServerSupabase } from './supabaseServer';
+import { getDocumentAccessService, isDocumentId, type DocumentOwner } from './document-access';
+import { rehydrateStoredAnalysis } from './pseudonymizer';
+import { jaccardSimilarity } from './ensemble';
+import type { AnalysisIssue, AnalysisResult } from './review';
+
+/**
+ * How an upload is linked to earlier versions: explicitly, or by fund and document name
+ */
+export interface LineageRequest {
+  fundName?: string | null;
+  previousVersionId?: string | null;
+}
+
+/**
+ * Lineage columns written with every stored analysis
+ */
+export interface VersionColumns {
+  lineage_id: string;
+  version_number: number;
+  previous_version_id: string | null;
+  fund_name: string | null;
+  lineage_key: string | null;
+}
+
+export interface DocumentVersion {
+  id: string;
+  created_at: string;
+  user_input: string;
+  version_number: number;
+  issue_count: number;
+  created_by: string;
+}
+
+export interface IssueMatch {
+  previous: AnalysisIssue;
+  current: AnalysisIssue;
+}
+
+export interface IssueComparison {
+  resolved: AnalysisIssue[];
+  persisting: IssueMatch[];
+  introduced: AnalysisIssue[];
+}
+
+export interface DocumentLineage {
+  lineageId: string;
+  fundName: string | null;
+  versionNumber: number;
+  versions: DocumentVersion[];
+  previousVersion: DocumentVersion | null;
+  comparison: IssueComparison | null;
+}
+
+interface LineageRow {
+  id: string;
+  lineage_id: string | null;
+  version_number: number;
+  previous_version_id: string | null;
+  fund_name: string | null;
+}
+
+const LINEAGE_COLUMNS = 'id, lineage_id, version_number, previous_version_id, fund_name';
+const VERSION_COLUMNS = 'id, created_at, user_input, version_number, issue_count, created_by';
+
+// Issues whose wording overlaps at least this much are treated as the same issue across versions
+const ISSUE_MATCH_THRESHOLD = 0.5;
+// Postgres unique_violation; another upload saved the same version number first
+const UNIQUE_VIOLATION = '23505';
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Suffixes customers add to revised files: "_v2", "rev 3", "(1)", "final", dates and so on
+const VERSION_MARKERS =
+  /\b(v(er(sion)?)?\s*\d+|rev(ision)?\s*\d*|revised|final|draft|clean|redline|updated|copy|\d{4}\s?\d{2}\s?\d{2})\b/g;
+
+/**
+ * File name reduced to what stays the same across revisions, e.g. "Sub Doc_v2 (1).pdf" becomes "sub doc"
+ */
+export const normalizeDocumentName = (fileName: string): string => {
+  const base = fileName.replace(/\.pdf$/i, '').toLowerCase();
+  const name = base
+    .replace(/\(\d+\)/g, ' ')
+    .replace(/[_\-.()[\]]+/g, ' ')
+    .replace(VERSION_MARKERS, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return name || base.trim();
+};
+
+const normalizeFundName = (fundName: string): string =>
+  fundName.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Key shared by every version of a fund's document; null without a fund, so unrelated uploads
+ * that happen to share a generic file name are never grouped
+ */
+export const lineageKey = (fundName: string | null | undefined, fileName: string): string | null => {
+  const fund = fundName ? normalizeFundName(fundName) : '';
+  return fund ? `${fund}::${normalizeDocumentName(fileName)}` : null;
+};
+
+const words = (issue: AnalysisIssue): Set<string> =>
+  new Set(`${issue.original} ${issue.message}`.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+
+/**
+ * Matches the issues of two versions by type and wording; page numbers are ignored since revisions move text around
+ */
+export const compareIssues = (previous: AnalysisIssue[], current: AnalysisIssue[]): IssueComparison => {
+  const previousWords = previous.map(words);
+  const currentWords = current.map(words);
+
+  const candidates: Array<{ previousIndex: number; currentIndex: number; score: number }> = [];
+  previous.forEach((previousIssue, previousIndex) => {
+    current.forEach((currentIssue, currentIndex) => {
+      if (previousIssue.type !== currentIssue.type) return;
+      // The same flagged text outranks any wording overlap
+      const sameText = previousIssue.original.trim() !== '' && previousIssue.original.trim() === currentIssue.original.trim();
+      const score = jaccardSimilarity(previousWords[previousIndex], currentWords[currentIndex]) + (sameText ? 1 : 0);
+      if (score >= ISSUE_MATCH_THRESHOLD) {
+        candidates.push({ previousIndex, currentIndex, score });
+      }
+    });
+  });
+
+  // Best matches first, each issue used at most once
+  candidates.sort((a, b) => b.score - a.score);
+  const matchedPrevious = new Set<number>();
+  const matchedCurrent = new Set<number>();
+  const persisting: IssueMatch[] = [];
+  for (const { previousIndex, currentIndex } of candidates) {
+    if (matchedPrevious.has(previousIndex) || matchedCurrent.has(currentIndex)) continue;
+    matchedPrevious.add(previousIndex);
+    matchedCurrent.add(currentIndex);
+    persisting.push({ previous: previous[previousIndex], current: current[currentIndex] });
+  }
+
+  return {
+    resolved: previous.filter((_, index) => !matchedPrevious.has(index)),
+    persisting: persisting.sort((a, b) => a.current.page - b.current.page),
+    introduced: current.filter((_, index) => !matchedCurrent.has(index))
+  };
+};
+
+export class DocumentLineageService {
+  private supabase = createServerSupabase();
+
+  /**
+   * Places a new upload in a lineage: after the given previous version, after the latest version
+   * with the same fund and document name the owner can see, or at the start of a new lineage
+   */
+  async resolveVersion(owner: DocumentOwner | null, fileName: string, request: LineageRequest = {}): Promise<VersionColumns> {
+    const fundName = request.fundName?.trim() || null;
+    const key = lineageKey(fundName, fileName);
+    const newLineage: VersionColumns = {
+      lineage_id: randomUUID(),
+      version_number: 1,
+      previous_version_id: null,
+      fund_name: fundName,
+      lineage_key: key
+    };
+
+    // Anonymous reviews have no history to link to
+    if (!owner) {
+      return newLineage;
+    }
+
+    let previous: LineageRow | null = null;
+    if (request.previousVersionId) {
+      previous = await getDocumentAccessService().getDocument<LineageRow>(
+        request.previousVersionId,
+        owner,
+        LINEAGE_COLUMNS
+      );
+      if (!previous) {
+        throw new Error('Previous version not found');
+      }
+    } else if (key) {
+      previous = await this.findLatestVersion(owner, 'lineage_key', key);
+    }
+
+    if (!previous) {
+      return newLineage;
+    }
+
+    // Rows saved before lineages existed are the first version of their own lineage
+    const lineageId = previous.lineage_id ?? previous.id;
+    const latest = request.previousVersionId
+      ? await this.findLatestVersion(owner, 'lineage_id', lineageId)
+      : previous;
+
+    return {
+      lineage_id: lineageId,
+      version_number: Math.max(previous.version_number, latest?.version_number ?? 0) + 1,
+      previous_version_id: previous.id,
+      fund_name: fundName ?? previous.fund_name,
+      lineage_key: key ?? lineageKey(previous.fund_name, fileName)
+    };
+  }
+
+  /**
+   * Inserts a new version, moving it to the next free version number when a concurrent upload
+   * to the same lineage took its number between resolveVersion and the insert
+   */
+  async insertVersion<T extends { error: { code?: string } | null }>(
+    version: VersionColumns,
+    insert: (version: VersionColumns) => PromiseLike<T>
+  ): Promise<T> {
+    let current = version;
+    for (let attempt = 1; ; attempt++) {
+      const result = await insert(current);
+      if (result.error?.code !== UNIQUE_VIOLATION || attempt >= MAX_VERSION_ATTEMPTS) {
+        return result;
+      }
+      current = await this.renumberVersion(current);
+    }
+  }
+
+  /**
+   * Versions of the document's lineage the viewer can see, and how its issues changed since the previous version
+   */
+  async getLineage(documentId: string, viewer: DocumentOwner): Promise<DocumentLineage | null> {
+    const access = getDocumentAccessService();
+    const document = await access.getDocument<LineageRow & { ai_result: AnalysisResult }>(
+      documentId,
+      viewer,
+      `${LINEAGE_COLUMNS}, ai_result`
+    );
+    if (!document) {
+      return null;
+    }
+
+    const lineageId = document.lineage_id ?? document.id;
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select(VERSION_COLUMNS)
+      .eq('lineage_id', lineageId)
+      .or(access.scopeFilter(viewer))
+      .is('deleted_at', null)
+      .order('version_number', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading document versions:', error);
+      return null;
+    }
+
+    const versions = (data ?? []) as DocumentVersion[];
+    // Falls back to the closest earlier version when the direct predecessor was deleted or is not shared
+    const previousVersion =
+      versions.find(version => version.id === document.previous_version_id) ??
+      [...versions].reverse().find(version => version.version_number < document.version_number) ??
+      null;
+
+    let comparison: IssueComparison | null = null;
+    if (previousVersion) {
+      const previous = await access.getDocument<{ ai_result: AnalysisResult }>(previousVersion.id, viewer, 'ai_result');
+      if (previous) {
+        // Each version has its own token map, so tokens are only comparable once replaced by real values
+        const [previousResult, currentResult] = await Promise.all([
+          rehydrateStoredAnalysis(previousVersion.id, viewer, previous.ai_result ?? { issues: [] }),
+          rehydrateStoredAnalysis(documentId, viewer, document.ai_result ?? { issues: [] }),
+        ]);
+        comparison = compareIssues(previousResult.issues, currentResult.issues);
+      }
+    }
+
+    return {
+      lineageId,
+      fundName: document.fund_name,
+      versionNumber: document.version_number,
+      versions,
+      previousVersion,
+      comparison
+    };
+  }
+
+  /**
+   * Next number after every version of the lineage, including ones the owner cannot see or has deleted
+   */
+  private async renumberVersion(version: VersionColumns): Promise<VersionColumns> {
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select('version_number')
+      .eq('lineage_id', version.lineage_id)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to renumber document version: ${error.message}`);
+    }
+    return { ...version, version_number: Math.max(version.version_number, data?.version_number ?? 0) + 1 };
+  }
+
+  private async findLatestVersion(
+    owner: DocumentOwner,
+    column: 'lineage_key' | 'lineage_id',
+    value: string
+  ): Promise<LineageRow | null> {
+    if (column === 'lineage_id' && !isDocumentId(value)) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select(LINEAGE_COLUMNS)
+      .eq(column, value)
+      .or(getDocumentAccessService().scopeFilter(owner))
+      .is('deleted_at', null)
+      .order('version_number', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error finding latest document version:', error);
+      return null;
+    }
+    return (data as LineageRow | null) ?? null;
+  }
+}
+
+// Singleton instance
+let documentLineageInstance: DocumentLineageService | null = null;
+
+export const getDocumentLineageService = (): DocumentLineageService => {
+  if (!documentLineageInstance) {
+    documentLineageInstance = new DocumentLineageService();
+  }
+  return documentLineageInstance;
+};
+
+// Convenience functions
+export const resolveDocumentVersion = (
+  owner: DocumentOwner | null,
+  fileName: string,
+  request?: LineageRequest
+): Promise<VersionColumns> => {
+  return getDocumentLineageService().resolveVersion(owner, fileName, request);
+};
+
+export const insertDocumentVersion = <T extends { error: { code?: string } | null }>(
+  version: VersionColumns,
+  insert: (version: VersionColumns) => PromiseLike<T>
+): Promise<T> => {
+  return getDocumentLineageService().insertVersion(version, insert);
+};
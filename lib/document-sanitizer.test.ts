@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentSanitizer, previewSanitization } from './document-sanitizer';
+import { SANITIZATION_PACK_IDS, type SanitizationPackId } from './sanitization-packs';
+
+const redacted = (content: string, packs?: SanitizationPackId[], allowList?: string[]) =>
+  DocumentSanitizer.forOptions({ packs, allowList }).findMatches(content).map(match => [match.type, match.text]);
+
+describe('findMatches validators', () => {
+  it('redacts card numbers that pass the Luhn check only', () => {
+    assert.deepEqual(redacted('Card: 4111 1111 1111 1111'), [['[CARD-REDACTED]', '4111 1111 1111 1111']]);
+    assert.deepEqual(redacted('Card: 4111 1111 1111 1112'), []);
+  });
+
+  it('redacts IBANs that pass the mod-97 check only', () => {
+    assert.deepEqual(redacted('IBAN GB82 WEST 1234 5698 7654 32'), [['[IBAN-REDACTED]', 'GB82 WEST 1234 5698 7654 32']]);
+    assert.deepEqual(redacted('IBAN GB82 WEST 1234 5698 7654 33'), []);
+  });
+
+  it('redacts labelled routing numbers that pass the ABA check only', () => {
+    assert.deepEqual(redacted('Routing number: 021000021'), [['[ROUTING-REDACTED]', '021000021']]);
+    assert.deepEqual(redacted('Routing number: 021000022'), []);
+  });
+});
+
+describe('findMatches context windows', () => {
+  it('redacts labelled account numbers', () => {
+    assert.deepEqual(redacted('Account No.: 12345678'), [['[ACCOUNT-REDACTED]', '12345678']]);
+    assert.deepEqual(redacted('Beneficiary acct # 987654321'), [['[ACCOUNT-REDACTED]', '987654321']]);
+  });
+
+  it('leaves subscription amounts and share counts intact', () => {
+    const content = 'Subscription amount: 250000 for 1500000 Class A shares, $1,000,000 in total';
+    assert.deepEqual(redacted(content), []);
+  });
+
+  it('only redacts amounts when the amounts pack is chosen', () => {
+    assert.deepEqual(redacted('Commitment of $1,000,000', ['amounts']), [['[AMOUNT-REDACTED]', '$1,000,000']]);
+  });
+
+  it('redacts dates of birth but not other dates', () => {
+    assert.deepEqual(redacted('Date of birth: 01/02/1980'), [['[DOB-REDACTED]', '01/02/1980']]);
+    assert.deepEqual(redacted('Effective date: 01/02/2024'), []);
+  });
+
+  it('ignores labels outside the window', () => {
+    assert.deepEqual(redacted(`Account holder ${'x'.repeat(40)} 12345678`), []);
+  });
+
+  it('skips excluded labels such as fax numbers', () => {
+    assert.deepEqual(redacted('Phone: 212-555-0100'), [['[PHONE-REDACTED]', '212-555-0100']]);
+    assert.deepEqual(redacted('Fax: 212-555-0100'), []);
+  });
+});
+
+describe('findMatches allow-lists', () => {
+  it('keeps role mailboxes', () => {
+    assert.deepEqual(redacted('Send notices to legal@fund.com or jane@fund.com'), [['[EMAIL-REDACTED]', 'jane@fund.com']]);
+  });
+
+  it('keeps values on the review allow-list, including parts of an entry', () => {
+    const content = 'Investor: Acme Capital\nAuthorized Signatory: Jane Doe';
+    assert.deepEqual(redacted(content, SANITIZATION_PACK_IDS, ['Acme Capital LP']), [['[NAME-REDACTED]', 'Jane Doe']]);
+  });
+
+  it('keeps the earliest, longest match where rules overlap', () => {
+    const matches = DocumentSanitizer.forOptions({ packs: SANITIZATION_PACK_IDS }).findMatches('TIN: 123-45-6789');
+    assert.equal(matches.length, 1);
+  });
+});
+
+describe('previewSanitization', () => {
+  it('reports redactions by page with the replacement in the excerpt', () => {
+    const preview = previewSanitization(['Account number: 12345678', 'Phone: 212-555-0100'], { packs: ['us_pii', 'banking'] });
+
+    assert.deepEqual(preview.redactions.map(redaction => [redaction.page, redaction.type, redaction.excerpt]), [
+      [1, '[ACCOUNT-REDACTED]', 'Account number: [ACCOUNT-REDACTED]'],
+      [2, '[PHONE-REDACTED]', 'Phone: [PHONE-REDACTED]'],
+    ]);
+    assert.deepEqual(preview.detectedPatterns.map(pattern => [pattern.type, pattern.count]), [
+      ['[ACCOUNT-REDACTED]', 1],
+      ['[PHONE-REDACTED]', 1],
+    ]);
+  });
+
+  it('finds nothing when no pack is chosen', () => {
+    assert.deepEqual(previewSanitization(['Account number: 12345678'], { packs: [] }).redactions, []);
+  });
+});
@@ -1,7 +1,48 @@
+import {
+  DEFAULT_SANITIZATION_PACKS,
+  getPackRules,
+  type SanitizationPackId
+} from './sanitization-packs';
+
 export interface SanitizationRule {
+  id?: string;
   pattern: RegExp;
   replacement: string;
   description: string;
+  allowList?: Array<string | RegExp>; // Matches that are never redacted
+  context?: {
+    include?: RegExp; // Redact only when the text just before the match matches
+    exclude?: RegExp; // Never redact when the text just before the match matches
+    window?: number; // Characters before the match to look at; defaults to 40
+  };
+  validate?: (match: string) => boolean; // Checksum or format check that rejects look-alikes
+  tokenLabel?: string; // Pseudonym prefix, e.g. INVESTOR for [INVESTOR_1]; defaults to the replacement's name
+}
+
+export interface SanitizationOptions {
+  packs?: SanitizationPackId[];
+  allowList?: string[]; // Values this review must keep, e.g. the fund's own name and address; parts of an entry are kept too
+}
+
+export interface SanitizationMatch {
+  ruleId: string;
+  tokenLabel: string;
+  type: string;
+  description: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SanitizationPreview {
+  detectedPatterns: SanitizationResult['detectedPatterns'];
+  redactions: Array<{
+    page: number;
+    type: string;
+    description: string;
+    text: string;
+    excerpt: string; // Surrounding text with the redaction applied
+  }>;
 }
 
 export interface SanitizationResult {
@@ -11,84 +52,82 @@ export interface SanitizationResult {
     count: number;
     description: string;
   }>;
+  redactions: SanitizationMatch[];
 }
 
+const DEFAULT_CONTEXT_WINDOW = 40;
+const PREVIEW_EXCERPT_CHARS = 40;
+
+const normalizeValue = (value: string) => value.replace(/\s+/g, ' ').replace(/[.,;:]+$/, '').trim().toLowerCase();
+
 export class DocumentSanitizer {
-  private rules: SanitizationRule[] = [
-    // Social Security Numbers
-    {
-      pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
-      replacement: '[SSN-REDACTED]',
-      description: 'Social Security Number'
-    },
-    // Credit Card Numbers (basic pattern)
-    {
-      pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g,
-      replacement: '[CARD-REDACTED]',
-      description: 'Credit Card Number'
-    },
-    // Phone Numbers
-    {
-      pattern: /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g,
-      replacement: '[PHONE-REDACTED]',
-      description: 'Phone Number'
-    },
-    // Email Addresses
-    {
-      pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      replacement: '[EMAIL-REDACTED]',
-      description: 'Email Address'
-    },
-    // Dollar Amounts (with various formats)
-    {
-      pattern: /\$[\d,]+(?:\.\d{2})?/g,
-      replacement: '[AMOUNT-REDACTED]',
-      description: 'Dollar Amount'
-    },
-    // Bank Account Numbers (generic pattern)
-    {
-      pattern: /\b\d{8,17}\b/g,
-      replacement: '[ACCOUNT-REDACTED]',
-      description: 'Potential Account Number'
-    },
-    // IP Addresses
-    {
-      pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
-      replacement: '[IP-REDACTED]',
-      description: 'IP Address'
-    },
-    // Dates (MM/DD/YYYY, MM-DD-YYYY, etc.)
-    {
-      pattern: /\b\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}\b/g,
-      replacement: '[DATE-REDACTED]',
-      description: 'Date'
-    }
-  ];
+  private rules: SanitizationRule[];
+  private allowList: Set<string>;
+
+  constructor(rules: SanitizationRule[] = getPackRules(DEFAULT_SANITIZATION_PACKS), allowList: string[] = []) {
+    this.rules = [...rules];
+    this.allowList = new Set(allowList.map(normalizeValue).filter(Boolean));
+  }
 
   /**
-   * Sanitizes document content by replacing sensitive patterns
+   * Sanitizer for the packs and allow-list chosen for one review
    */
-  sanitize(content: string): SanitizationResult {
-    let sanitizedContent = content;
-    const detectedPatterns: Array<{ type: string; count: number; description: string }> = [];
+  static forOptions(options: SanitizationOptions = {}): DocumentSanitizer {
+    return new DocumentSanitizer(getPackRules(options.packs), options.allowList);
+  }
 
-    for (const rule of this.rules) {
-      const matches = content.match(rule.pattern);
-      const count = matches ? matches.length : 0;
+  /**
+   * Finds what would be redacted, in document order; where rules overlap the earliest, longest match wins
+   */
+  findMatches(content: string): SanitizationMatch[] {
+    const candidates: SanitizationMatch[] = [];
 
-      if (count > 0) {
-        sanitizedContent = sanitizedContent.replace(rule.pattern, rule.replacement);
-        detectedPatterns.push({
+    for (const rule of this.rules) {
+      const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+      for (const match of content.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        if (match[0].length === 0 || !this.shouldRedact(rule, match[0], content, start)) continue;
+        candidates.push({
+          ruleId: rule.id || rule.replacement,
+          tokenLabel: rule.tokenLabel || rule.replacement.replace(/^\[|-REDACTED\]$|\]$/g, ''),
           type: rule.replacement,
-          count,
-          description: rule.description
+          description: rule.description,
+          text: match[0],
+          start,
+          end: start + match[0].length
         });
       }
     }
 
+    candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const matches: SanitizationMatch[] = [];
+    for (const candidate of candidates) {
+      const previous = matches[matches.length - 1];
+      if (!previous || candidate.start >= previous.end) {
+        matches.push(candidate);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Sanitizes document content by replacing sensitive patterns
+   */
+  sanitize(content: string): SanitizationResult {
+    const redactions = this.findMatches(content);
+
+    let sanitizedContent = '';
+    let position = 0;
+    for (const redaction of redactions) {
+      sanitizedContent += content.slice(position, redaction.start) + redaction.type;
+      position = redaction.end;
+    }
+    sanitizedContent += content.slice(position);
+
     return {
       sanitizedContent,
-      detectedPatterns
+      detectedPatterns: this.summarize(redactions),
+      redactions
     };
   }
 
@@ -125,29 +164,49 @@ export class DocumentSanitizer {
    * Checks if content contains sensitive information without modifying it
    */
   detectSensitiveContent(content: string): boolean {
-    return this.rules.some(rule => rule.pattern.test(content));
+    return this.findMatches(content).length > 0;
   }
 
   /**
    * Gets a summary of what would be sanitized without actually sanitizing
    */
   getSanitizationPreview(content: string): Array<{ type: string; count: number; description: string }> {
-    const detectedPatterns: Array<{ type: string; count: number; description: string }> = [];
+    return this.summarize(this.findMatches(content));
+  }
 
-    for (const rule of this.rules) {
-      const matches = content.match(rule.pattern);
-      const count = matches ? matches.length : 0;
+  private shouldRedact(rule: SanitizationRule, text: string, content: string, start: number): boolean {
+    const value = normalizeValue(text);
+    if ([...this.allowList].some(entry => entry.includes(value))) {
+      return false;
+    }
+    if (rule.allowList?.some(entry => typeof entry === 'string' ? normalizeValue(entry) === value : entry.test(text))) {
+      return false;
+    }
+    if (rule.validate && !rule.validate(text)) {
+      return false;
+    }
 
-      if (count > 0) {
-        detectedPatterns.push({
-          type: rule.replacement,
-          count,
-          description: rule.description
-        });
+    if (rule.context) {
+      const before = content.slice(Math.max(0, start - (rule.context.window ?? DEFAULT_CONTEXT_WINDOW)), start);
+      if (rule.context.include && !rule.context.include.test(before)) {
+        return false;
+      }
+      if (rule.context.exclude && rule.context.exclude.test(before)) {
+        return false;
       }
     }
+    return true;
+  }
 
-    return detectedPatterns;
+  private summarize(matches: SanitizationMatch[]): Array<{ type: string; count: number; description: string }> {
+    const counts = new Map<string, { type: string; count: number; description: string }>();
+    for (const match of matches) {
+      const key = `${match.type}|${match.description}`;
+      const entry = counts.get(key) ?? { type: match.type, count: 0, description: match.description };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    return [...counts.values()];
   }
 }
 
@@ -162,14 +221,38 @@ export const getSanitizer = (): DocumentSanitizer => {
 };
 
 // Convenience functions
-export const sanitizeDocument = (content: string): SanitizationResult => {
-  return getSanitizer().sanitize(content);
+export const sanitizeDocument = (content: string, options?: SanitizationOptions): SanitizationResult => {
+  return (options ? DocumentSanitizer.forOptions(options) : getSanitizer()).sanitize(content);
 };
 
 export const quickSanitize = (content: string): string => {
   return DocumentSanitizer.quickSanitize(content);
 };
 
-export const detectSensitiveContent = (content: string): boolean => {
-  return getSanitizer().detectSensitiveContent(content);
-};
\ No newline at end of file
+export const detectSensitiveContent = (content: string, options?: SanitizationOptions): boolean => {
+  return (options ? DocumentSanitizer.forOptions(options) : getSanitizer()).detectSensitiveContent(content);
+};
+/**
+ * Dry run over a document's pages: what the chosen packs would redact, page by page, without changing anything
+ */
+export const previewSanitization = (pages: string[], options: SanitizationOptions = {}): SanitizationPreview => {
+  const sanitizer = DocumentSanitizer.forOptions(options);
+  const content = pages.join('\f');
+  const matches = sanitizer.findMatches(content);
+
+  return {
+    detectedPatterns: sanitizer.getSanitizationPreview(content),
+    redactions: matches.map(match => {
+      // Excerpts stay on the redaction's own page
+      const before = content.slice(Math.max(0, match.start - PREVIEW_EXCERPT_CHARS), match.start).split('\f').pop();
+      const after = content.slice(match.end, match.end + PREVIEW_EXCERPT_CHARS).split('\f')[0];
+      return {
+        page: content.slice(0, match.start).split('\f').length,
+        type: match.type,
+        description: match.description,
+        text: match.text,
+        excerpt: `${before}${match.type}${after}`.replace(/\s+/g, ' ').trim()
+      };
+    })
+  };
+};
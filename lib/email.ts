@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseModelJson, validateEmailDraft, type EmailDraftFollowUp } from './model-output';
 
 const SYSTEM_PROMPT = `You are a legal-ops email drafter for Anduin’s digitization workflow. Draft **precise, concise, customer-friendly** emails that ask or confirm legal behaviors found during sub-doc review.
 **Obligations:**
@@ -40,7 +41,12 @@ The output should be a JSON object with the following structure:
   ],
   "closing": "Closing paragraph of the email.",
   "signature": "Email signature.",
-  "followUps": []
+  "followUps": [
+    {
+      "date": "YYYY-MM-DD",
+      "message": "Reminder to send if the customer has not replied by this date."
+    }
+  ]
 }
 `
 
@@ -80,6 +86,7 @@ export interface EmailGenerationInputs {
   typos: Typo[];
   expectedDate: string;
   firstTestingDate?: string;
+  documentId?: string; // Reviewed document; if it was pseudonymized, its values are tokenized for the provider
 }
 
 export interface GeneratedEmail {
@@ -91,7 +98,7 @@ export interface GeneratedEmail {
 export interface EmailMetadata {
   toneCheckPassed: boolean;
   referencesCheckPassed: boolean;
-  followUpSchedule: any[]; // Adjust type as needed
+  followUpSchedule: EmailDraftFollowUp[];
 }
 
 export interface PostProcessorFlag {
@@ -257,11 +264,18 @@ export async function generateReviewEmail(inputs: EmailGenerationInputs): Promis
   const result = await model.generateContent([SYSTEM_PROMPT, userPrompt]);
   const response = result.response;
   const text = response.text();
-  const cleanedText = text.replace(/```json\n|```/g, '').trim();
 
-  const generatedJson = JSON.parse(cleanedText);
+  const { value: generatedJson, warnings } = await parseModelJson(text, {
+    label: 'review email',
+    validate: validateEmailDraft,
+    repair: async (repairPrompt) => {
+      const repaired = await model.generateContent([SYSTEM_PROMPT, userPrompt, repairPrompt]);
+      return repaired.response.text();
+    },
+  });
 
   const flags = await runPostProcessorChecks(generatedJson, inputs);
+  flags.push(...warnings.map((message): PostProcessorFlag => ({ type: 'warning', message: `Schema: ${message}` })));
 
   const { bodyHtml, bodyText } = constructEmailBody(generatedJson);
 
@@ -1,58 +1,136 @@
 import crypto from 'crypto';
 
 const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+const AUTH_TAG_LENGTH = 16;
+const DEFAULT_KEY_ID = 'default';
 
 export interface EncryptionResult {
   encrypted: string;
   iv: string;
   authTag: string;
+  keyId?: string; // Missing on payloads written before key versioning
+  dataKeyId?: string; // Set instead of keyId when the payload is encrypted with a per-document data key
+}
+
+export interface EncryptionKey {
+  id: string;
+  secret: string;
 }
 
 export interface EncryptionConfig {
-  key: string;
-  algorithm?: string;
+  keys: EncryptionKey[];
+  activeKeyId?: string; // Defaults to the first key
+  legacySecret?: string; // Secret used by payloads without a key id
+}
+
+/**
+ * Columns that hold an encrypted document in demo_requests and review_jobs
+ */
+export interface EncryptedColumns {
+  encrypted_document: string;
+  encryption_iv: string;
+  encryption_auth_tag: string;
+  encryption_key_id: string | null;
+  data_key_id: string | null;
 }
 
-class DocumentEncryption {
-  private key: Buffer;
-  private algorithm: string;
+/**
+ * Turns a configured secret into a 32-byte key; 64 hex characters are used as-is, anything else is a passphrase
+ */
+const deriveKey = (key: EncryptionKey): Buffer => {
+  if (/^[0-9a-f]{64}$/i.test(key.secret)) {
+    return Buffer.from(key.secret, 'hex');
+  }
+  return crypto.scryptSync(key.secret, `document-encryption:${key.id}`, 32);
+};
+
+/**
+ * OpenSSL's EVP_BytesToKey with MD5 and no salt, which the deprecated createCipher used to derive its key and IV
+ */
+const bytesToKey = (password: Buffer, keyLength: number, ivLength: number) => {
+  let derived: Buffer = Buffer.alloc(0);
+  let block: Buffer = Buffer.alloc(0);
+  while (derived.length < keyLength + ivLength) {
+    block = crypto.createHash('md5').update(Buffer.concat([block, password])).digest();
+    derived = Buffer.concat([derived, block]);
+  }
+  return { key: derived.subarray(0, keyLength), iv: derived.subarray(keyLength, keyLength + ivLength) };
+};
+
+/**
+ * Encrypts a buffer with a raw 32-byte key using AES-256-GCM and a random IV
+ */
+export const encryptWithKey = (key: Buffer, buffer: Buffer): EncryptionResult => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  const encrypted = Buffer.concat([cipher.update(buffer), cipher.final()]);
+
+  return {
+    encrypted: encrypted.toString('hex'),
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex')
+  };
+};
+
+/**
+ * Decrypts an AES-256-GCM payload with a raw key; throws if the auth tag does not verify
+ */
+export const decryptWithKey = (key: Buffer, { encrypted, iv, authTag }: EncryptionResult): Buffer => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'hex'), {
+    authTagLength: AUTH_TAG_LENGTH
+  });
+  decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]);
+};
+
+export class DocumentEncryption {
+  private keys = new Map<string, Buffer>();
+  private activeKeyId: string;
+  private legacyKey: Buffer | null;
 
   constructor(config: EncryptionConfig) {
-    this.algorithm = config.algorithm || ALGORITHM;
-    // Ensure key is 32 bytes for AES-256
-    this.key = crypto.scryptSync(config.key, 'salt', 32);
+    if (config.keys.length === 0) {
+      throw new Error('At least one encryption key is required');
+    }
+    config.keys.forEach(key => this.keys.set(key.id, deriveKey(key)));
+
+    this.activeKeyId = config.activeKeyId || config.keys[0].id;
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new Error(`Active encryption key "${this.activeKeyId}" is not configured`);
+    }
+    this.legacyKey = config.legacySecret ? crypto.scryptSync(config.legacySecret, 'salt', 32) : null;
   }
 
   /**
-   * Encrypts a buffer using AES-256-GCM
+   * Encrypts a buffer using AES-256-GCM under the active key
    */
   encrypt(buffer: Buffer): EncryptionResult {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipher(this.algorithm, this.key);
-
-    let encrypted = cipher.update(buffer);
-    encrypted = Buffer.concat([encrypted, cipher.final()]);
-
-    // For compatibility, we'll use a simpler approach without AAD and auth tag
     return {
-      encrypted: encrypted.toString('hex'),
-      iv: iv.toString('hex'),
-      authTag: crypto.createHash('sha256').update(encrypted).digest('hex').substring(0, 32)
+      ...encryptWithKey(this.keys.get(this.activeKeyId)!, buffer),
+      keyId: this.activeKeyId
     };
   }
 
   /**
-   * Decrypts data using AES-256-GCM
+   * Decrypts data using AES-256-GCM, verifying the auth tag
    */
   decrypt(encryptionResult: EncryptionResult): Buffer {
-    const { encrypted, iv } = encryptionResult;
-
-    const decipher = crypto.createDecipher(this.algorithm, this.key);
+    const { keyId, dataKeyId } = encryptionResult;
+    if (dataKeyId) {
+      throw new Error('Payload is encrypted with a data key; decrypt it through envelope encryption');
+    }
+    if (!keyId) {
+      return this.decryptLegacy(encryptionResult);
+    }
 
-    let decrypted = decipher.update(Buffer.from(encrypted, 'hex'));
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
 
-    return decrypted;
+    return decryptWithKey(key, encryptionResult);
   }
 
   /**
@@ -69,24 +147,91 @@ class DocumentEncryption {
     return this.decrypt(encryptionResult).toString('utf8');
   }
 
+  /**
+   * Whether a payload was written under a key other than the active one
+   */
+  needsRotation(encryptionResult: EncryptionResult): boolean {
+    // Data key payloads are rotated by rewrapping their data key
+    return !encryptionResult.dataKeyId && encryptionResult.keyId !== this.activeKeyId;
+  }
+
+  /**
+   * Decrypts a payload and encrypts it again under the active key
+   */
+  reencrypt(encryptionResult: EncryptionResult): EncryptionResult {
+    return this.encrypt(this.decrypt(encryptionResult));
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
   /**
    * Generates a secure random key
    */
   static generateKey(): string {
     return crypto.randomBytes(32).toString('hex');
   }
+
+  /**
+   * Reads payloads from createCipher, which ran GCM with a key and IV derived from the key and never stored a tag.
+   * GCM without its tag is CTR mode starting at counter 2, and the stored hash of the ciphertext is checked instead.
+   */
+  private decryptLegacy({ encrypted, authTag }: EncryptionResult): Buffer {
+    if (!this.legacyKey) {
+      throw new Error('Payload has no key id and DOCUMENT_ENCRYPTION_KEY is not set to decrypt it');
+    }
+
+    const ciphertext = Buffer.from(encrypted, 'hex');
+    const checksum = crypto.createHash('sha256').update(ciphertext).digest('hex').substring(0, 32);
+    if (checksum !== authTag) {
+      throw new Error('Legacy payload integrity check failed');
+    }
+
+    const { key, iv } = bytesToKey(this.legacyKey, 32, IV_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-ctr', key, Buffer.concat([iv, Buffer.from([0, 0, 0, 2])]));
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
 }
 
+/**
+ * Reads keys from DOCUMENT_ENCRYPTION_KEYS ("id:secret,id:secret") and DOCUMENT_ENCRYPTION_KEY, which is the "default" key
+ */
+const loadEncryptionConfig = (): EncryptionConfig => {
+  const keys: EncryptionKey[] = (process.env.DOCUMENT_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('DOCUMENT_ENCRYPTION_KEYS entries must look like "keyId:secret"');
+      }
+      return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+
+  const legacySecret = process.env.DOCUMENT_ENCRYPTION_KEY;
+  if (legacySecret && !keys.some(key => key.id === DEFAULT_KEY_ID)) {
+    keys.push({ id: DEFAULT_KEY_ID, secret: legacySecret });
+  }
+
+  if (keys.length === 0) {
+    throw new Error('DOCUMENT_ENCRYPTION_KEY or DOCUMENT_ENCRYPTION_KEYS environment variable not set');
+  }
+
+  return {
+    keys,
+    activeKeyId: process.env.DOCUMENT_ENCRYPTION_KEY_ID || undefined,
+    legacySecret
+  };
+};
+
 // Singleton instance
 let encryptionInstance: DocumentEncryption | null = null;
 
 export const getEncryption = (): DocumentEncryption => {
   if (!encryptionInstance) {
-    const key = process.env.DOCUMENT_ENCRYPTION_KEY;
-    if (!key) {
-      throw new Error('DOCUMENT_ENCRYPTION_KEY environment variable not set');
-    }
-    encryptionInstance = new DocumentEncryption({ key });
+    encryptionInstance = new DocumentEncryption(loadEncryptionConfig());
   }
   return encryptionInstance;
 };
@@ -106,4 +251,20 @@ export const encryptString = (text: string): EncryptionResult => {
 
 export const decryptString = (encryptionResult: EncryptionResult): string => {
   return getEncryption().decryptToString(encryptionResult);
-};
\ No newline at end of file
+};
+
+export const toEncryptedColumns = (result: EncryptionResult): EncryptedColumns => ({
+  encrypted_document: result.encrypted,
+  encryption_iv: result.iv,
+  encryption_auth_tag: result.authTag,
+  encryption_key_id: result.keyId ?? null,
+  data_key_id: result.dataKeyId ?? null
+});
+
+export const fromEncryptedColumns = (row: EncryptedColumns): EncryptionResult => ({
+  encrypted: row.encrypted_document,
+  iv: row.encryption_iv,
+  authTag: row.encryption_auth_tag,
+  keyId: row.encryption_key_id ?? undefined,
+  dataKeyId: row.data_key_id ?? undefined
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isNearDuplicate, mergeProviderResults, textSimilarity, typesCompatible, type ProviderAnalysis } from './ensemble';
+import type { AnalysisIssue } from './review';
+
+const issue = (overrides: Partial<AnalysisIssue> = {}): AnalysisIssue => ({
+  page: 1,
+  type: 'typo',
+  message: 'Misspelled word',
+  original: 'the Partnershp agreement',
+  suggestion: 'the Partnership agreement',
+  locationHint: 'first paragraph',
+  ...overrides,
+});
+
+const analysis = (provider: string, issues: AnalysisIssue[]): ProviderAnalysis => ({
+  provider,
+  result: { fileName: 'sub-doc.pdf', issues, summary: { issueCount: issues.length, pagesAffected: [] } },
+});
+
+describe('textSimilarity', () => {
+  it('scores containment as a full match', () => {
+    assert.equal(textSimilarity('Partnershp', 'the  Partnershp agreement'), 1);
+  });
+
+  it('never matches empty text', () => {
+    assert.equal(textSimilarity('', ''), 0);
+    assert.equal(textSimilarity('   ', 'the Partnershp agreement'), 0);
+  });
+});
+
+describe('isNearDuplicate', () => {
+  it('matches overlapping text of compatible types on the same page', () => {
+    assert.ok(isNearDuplicate(issue(), issue({ type: 'spacing', original: 'Partnershp agreement' })));
+  });
+
+  it('rejects other pages, incompatible types and unrelated text', () => {
+    assert.ok(!isNearDuplicate(issue(), issue({ page: 2 })));
+    assert.ok(!isNearDuplicate(issue(), issue({ type: 'logic_point' })));
+    assert.ok(!isNearDuplicate(issue(), issue({ original: 'capital call notice' })));
+  });
+
+  it('never matches issues without quoted text', () => {
+    assert.ok(!isNearDuplicate(issue({ original: '' }), issue({ original: '' })));
+  });
+
+  it('treats "other" as compatible with every type', () => {
+    assert.ok(typesCompatible('other', 'cross_reference'));
+    assert.ok(!typesCompatible('typo', 'font'));
+  });
+});
+
+describe('mergeProviderResults', () => {
+  it('merges the same finding from different providers', () => {
+    const result = mergeProviderResults(
+      [analysis('gemini', [issue({ type: 'other' })]), analysis('company-llm', [issue({ message: 'Typo in "Partnership"' })])],
+      'sub-doc.pdf'
+    );
+
+    assert.equal(result.issues.length, 1);
+    assert.deepEqual(result.issues[0].detectedBy, ['gemini', 'company-llm']);
+    assert.equal(result.issues[0].type, 'typo');
+    assert.equal(result.issues[0].message, 'Typo in "Partnership"');
+    assert.equal(result.issues[0].agreement, 1);
+  });
+
+  it('never merges issues from the same provider', () => {
+    const result = mergeProviderResults([analysis('gemini', [issue(), issue()])], 'sub-doc.pdf');
+
+    assert.equal(result.issues.length, 2);
+    assert.deepEqual(result.issues.map(merged => merged.detectedBy), [['gemini'], ['gemini']]);
+  });
+
+  it('matches a second provider to one issue only', () => {
+    const result = mergeProviderResults(
+      [analysis('gemini', [issue(), issue()]), analysis('company-llm', [issue()])],
+      'sub-doc.pdf'
+    );
+
+    assert.deepEqual(result.issues.map(merged => merged.detectedBy), [['gemini', 'company-llm'], ['gemini']]);
+  });
+
+  it('never merges issues without quoted text', () => {
+    const result = mergeProviderResults(
+      [analysis('gemini', [issue({ original: '' })]), analysis('company-llm', [issue({ original: '' })])],
+      'sub-doc.pdf'
+    );
+
+    assert.equal(result.issues.length, 2);
+  });
+
+  it('divides agreement by the number of requested providers', () => {
+    // Three providers were asked and one failed, so a finding both others made scores 2/3
+    const result = mergeProviderResults(
+      [analysis('gemini', [issue(), issue({ page: 2 })]), analysis('company-llm', [issue()])],
+      'sub-doc.pdf',
+      {},
+      3
+    );
+
+    assert.deepEqual(result.issues.map(merged => merged.agreement), [0.67, 0.33]);
+    assert.deepEqual(result.summary, { issueCount: 2, pagesAffected: [1, 2] });
+  });
+});
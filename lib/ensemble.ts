@@ -0,0 +1,189 @@
+import type { AnalysisIssue, AnalysisResult } from './review';
+import type { AnalysisInput, AnalysisProvider, AnalysisProviderRegistry } from './analysis-providers';
+
+export interface ProviderAnalysis {
+  provider: string;
+  result: AnalysisResult;
+}
+
+export interface EnsembleOptions {
+  minTextSimilarity?: number; // Token overlap (0-1) needed to treat two `original` snippets as the same text
+}
+
+const DEFAULT_MIN_TEXT_SIMILARITY = 0.5;
+
+// Issue types that engines commonly use interchangeably for the same finding
+const COMPATIBLE_TYPE_GROUPS: AnalysisIssue['type'][][] = [
+  ['typo', 'spacing', 'punctuation', 'capitalization'],
+  ['alignment', 'font', 'formatting']
+];
+
+const tokenize = (text: string): Set<string> => {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+  );
+};
+
+const countShared = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared;
+};
+
+/**
+ * Jaccard index of two token sets, shared tokens over all tokens; two empty sets are identical
+ */
+export const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  const shared = countShared(a, b);
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Checks whether two issue types can describe the same finding
+ */
+export const typesCompatible = (a: AnalysisIssue['type'], b: AnalysisIssue['type']): boolean => {
+  if (a === b || a === 'other' || b === 'other') {
+    return true;
+  }
+  return COMPATIBLE_TYPE_GROUPS.some(group => group.includes(a) && group.includes(b));
+};
+
+/**
+ * Scores how much two `original` snippets overlap (1 when one contains the other); empty snippets match nothing
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = a.replace(/\s+/g, ' ').trim().toLowerCase();
+  const right = b.replace(/\s+/g, ' ').trim().toLowerCase();
+  if (!left || !right) {
+    return 0;
+  }
+  if (left.includes(right) || right.includes(left)) {
+    return 1;
+  }
+
+  const leftTokens = tokenize(left);
+  const rightTokens = tokenize(right);
+  const smaller = Math.min(leftTokens.size, rightTokens.size);
+  if (smaller === 0) {
+    return 0;
+  }
+  return countShared(leftTokens, rightTokens) / smaller;
+};
+
+/**
+ * Checks whether two issues are near-duplicates of each other
+ */
+export const isNearDuplicate = (
+  a: AnalysisIssue,
+  b: AnalysisIssue,
+  minTextSimilarity: number = DEFAULT_MIN_TEXT_SIMILARITY
+): boolean => {
+  return a.page === b.page &&
+    typesCompatible(a.type, b.type) &&
+    textSimilarity(a.original, b.original) >= minTextSimilarity;
+};
+
+/**
+ * Merges issue lists from several providers, collapsing near-duplicates and scoring agreement.
+ * Agreement is the share of requested providers that reported an issue, so a failed provider lowers it
+ */
+export const mergeProviderResults = (
+  analyses: ProviderAnalysis[],
+  fileName: string,
+  options: EnsembleOptions = {},
+  requestedProviderCount: number = analyses.length
+): AnalysisResult => {
+  const minTextSimilarity = options.minTextSimilarity ?? DEFAULT_MIN_TEXT_SIMILARITY;
+  const merged: AnalysisIssue[] = [];
+
+  for (const { provider, result } of analyses) {
+    for (const issue of result.issues) {
+      // Two issues from the same provider are separate findings, never duplicates of each other
+      const match = merged.find(existing =>
+        !existing.detectedBy!.includes(provider) && isNearDuplicate(existing, issue, minTextSimilarity)
+      );
+
+      if (!match) {
+        merged.push({ ...issue, detectedBy: [provider] });
+        continue;
+      }
+
+      match.detectedBy!.push(provider);
+      // Prefer the more specific type and the longer, more informative fields
+      if (match.type === 'other' && issue.type !== 'other') {
+        match.type = issue.type;
+      }
+      if (issue.message.length > match.message.length) match.message = issue.message;
+      if (issue.original.length > match.original.length) match.original = issue.original;
+      if (!match.suggestion) match.suggestion = issue.suggestion;
+      if (!match.locationHint) match.locationHint = issue.locationHint;
+    }
+  }
+
+  const providerCount = Math.max(1, requestedProviderCount, analyses.length);
+  merged.forEach(issue => {
+    issue.agreement = Number((issue.detectedBy!.length / providerCount).toFixed(2));
+  });
+
+  return {
+    fileName,
+    issues: merged,
+    summary: {
+      issueCount: merged.length,
+      pagesAffected: [...new Set(merged.map(issue => issue.page))]
+    }
+  };
+};
+
+/**
+ * Creates a provider that runs several registered providers on the same document and merges their issues
+ */
+export const createEnsembleProvider = (
+  registry: AnalysisProviderRegistry,
+  providerNames: string[],
+  options: EnsembleOptions = {}
+): AnalysisProvider => {
+  const members = () => providerNames.map(name => registry.get(name));
+
+  return {
+    name: 'ensemble',
+    description: `Ensemble of ${providerNames.join(', ')}`,
+    get capabilities() {
+      const providers = members();
+      return {
+        acceptsRawPdf: providers.some(p => p.capabilities.acceptsRawPdf),
+        acceptsText: providers.some(p => p.capabilities.acceptsText),
+        requiresConsent: providers.some(p => p.capabilities.requiresConsent),
+        supportsSanitizedInput: providers.every(p => p.capabilities.supportsSanitizedInput)
+      };
+    },
+    async analyze(input: AnalysisInput) {
+      const providers = members();
+      const settled = await Promise.allSettled(providers.map(p => p.analyze(input)));
+
+      const analyses: ProviderAnalysis[] = [];
+      settled.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          analyses.push({ provider: providers[index].name, result: outcome.value });
+        } else {
+          console.error(`Ensemble member ${providers[index].name} failed:`, outcome.reason);
+        }
+      });
+
+      if (analyses.length === 0) {
+        throw new Error('All ensemble providers failed');
+      }
+
+      return mergeProviderResults(analyses, input.fileName, options, providers.length);
+    }
+  };
+};
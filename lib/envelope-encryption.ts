@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { createServerSupabase } from './supabaseServer';
+import { encryptWithKey, decryptWithKey, getEncryption, type EncryptionResult } from './encryption';
+import { getKeyManagementProvider, type KeyManagementProvider } from './key-management';
+
+const DATA_KEY_BYTES = 32;
+// Unwrapped keys are reused briefly so a document's screenshots do not each call the KMS
+const DATA_KEY_CACHE_TTL_MS = 60 * 1000;
+
+export interface DocumentKey {
+  id: string;
+  provider: string;
+  master_key_id: string;
+  wrapped_key: string | null; // Cleared when the key is shredded
+  created_at: string;
+  destroyed_at: string | null;
+}
+
+export class EnvelopeEncryption {
+  private supabase = createServerSupabase();
+  private cache = new Map<string, { key: Buffer; expiresAt: number }>();
+
+  constructor(private kms: KeyManagementProvider = getKeyManagementProvider()) {}
+
+  /**
+   * Generates a data key for one document and stores it wrapped by the master key; returns its id
+   */
+  async createDataKey(): Promise<string> {
+    const dataKey = crypto.randomBytes(DATA_KEY_BYTES);
+    const { wrappedKey, masterKeyId } = await this.kms.wrapKey(dataKey);
+
+    const { data, error } = await this.supabase
+      .from('document_keys')
+      .insert({
+        provider: this.kms.name,
+        master_key_id: masterKeyId,
+        wrapped_key: wrappedKey,
+        created_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to store data key: ${error?.message || 'no id returned'}`);
+    }
+
+    this.cache.set(data.id, { key: dataKey, expiresAt: Date.now() + DATA_KEY_CACHE_TTL_MS });
+    return data.id;
+  }
+
+  /**
+   * Encrypts a buffer with a document's data key
+   */
+  async encrypt(buffer: Buffer, dataKeyId: string): Promise<EncryptionResult> {
+    return {
+      ...encryptWithKey(await this.getDataKey(dataKeyId), buffer),
+      dataKeyId
+    };
+  }
+
+  /**
+   * Decrypts a payload written with a data key, or with the master keyring for older payloads
+   */
+  async decrypt(encryptionResult: EncryptionResult): Promise<Buffer> {
+    if (!encryptionResult.dataKeyId) {
+      return getEncryption().decrypt(encryptionResult);
+    }
+    return decryptWithKey(await this.getDataKey(encryptionResult.dataKeyId), encryptionResult);
+  }
+
+  /**
+   * Destroys a data key, leaving everything encrypted with it unreadable (crypto-shredding)
+   */
+  async shredDataKey(dataKeyId: string): Promise<void> {
+    this.cache.delete(dataKeyId);
+
+    const { error } = await this.supabase
+      .from('document_keys')
+      .update({ wrapped_key: null, destroyed_at: new Date().toISOString() })
+      .eq('id', dataKeyId);
+
+    if (error) {
+      throw new Error(`Failed to shred data key ${dataKeyId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Rewraps data keys held under an older master key; the documents themselves are not re-encrypted
+   */
+  async rewrapDataKeys(): Promise<{ rotated: number; failed: number }> {
+    const { data, error } = await this.supabase
+      .from('document_keys')
+      .select('*')
+      .not('wrapped_key', 'is', null)
+      .neq('master_key_id', this.kms.getActiveMasterKeyId());
+
+    if (error) {
+      throw new Error(`Failed to list data keys: ${error.message}`);
+    }
+
+    let rotated = 0;
+    let failed = 0;
+    for (const record of (data || []) as DocumentKey[]) {
+      try {
+        const dataKey = await this.kms.unwrapKey({ wrappedKey: record.wrapped_key!, masterKeyId: record.master_key_id });
+        const { wrappedKey, masterKeyId } = await this.kms.wrapKey(dataKey);
+
+        const { error: updateError } = await this.supabase
+          .from('document_keys')
+          .update({ wrapped_key: wrappedKey, master_key_id: masterKeyId })
+          .eq('id', record.id)
+          // A key shredded meanwhile must stay shredded
+          .not('wrapped_key', 'is', null);
+
+        if (updateError) {
+          throw updateError;
+        }
+        rotated++;
+      } catch (error) {
+        console.error(`Error rewrapping data key ${record.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { rotated, failed };
+  }
+
+  private async getDataKey(dataKeyId: string): Promise<Buffer> {
+    const cached = this.cache.get(dataKeyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.key;
+    }
+
+    const { data, error } = await this.supabase
+      .from('document_keys')
+      .select('*')
+      .eq('id', dataKeyId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load data key ${dataKeyId}: ${error.message}`);
+    }
+
+    const record = data as DocumentKey | null;
+    if (!record || !record.wrapped_key) {
+      throw new Error(`Data key ${dataKeyId} does not exist or has been destroyed`);
+    }
+
+    const key = await this.kms.unwrapKey({ wrappedKey: record.wrapped_key, masterKeyId: record.master_key_id });
+    this.cache.set(dataKeyId, { key, expiresAt: Date.now() + DATA_KEY_CACHE_TTL_MS });
+    return key;
+  }
+}
+
+// Singleton instance
+let envelopeEncryptionInstance: EnvelopeEncryption | null = null;
+
+export const getEnvelopeEncryption = (): EnvelopeEncryption => {
+  if (!envelopeEncryptionInstance) {
+    envelopeEncryptionInstance = new EnvelopeEncryption();
+  }
+  return envelopeEncryptionInstance;
+};
+
+// Convenience functions
+export const createDataKey = (): Promise<string> => {
+  return getEnvelopeEncryption().createDataKey();
+};
+
+export const encryptWithDataKey = (buffer: Buffer, dataKeyId: string): Promise<EncryptionResult> => {
+  return getEnvelopeEncryption().encrypt(buffer, dataKeyId);
+};
+
+export const decryptPayload = (encryptionResult: EncryptionResult): Promise<Buffer> => {
+  return getEnvelopeEncryption().decrypt(encryptionResult);
+};
+
+export const shredDataKey = (dataKeyId: string): Promise<void> => {
+  return getEnvelopeEncryption().shredDataKey(dataKeyId);
+};
@@ -0,0 +1,181 @@
+import type { NextApiRequest } from 'next';
+import { createServerSupabase } from './supabaseServer';
+import { isDocumentId, type DocumentOwner } from './document-access';
+import { shredDataKey } from './envelope-encryption';
+import { auditLog, AuditAction } from './audit-logger';
+import { deleteDocumentArtifacts, DOCUMENT_ARTIFACT_COLUMNS, type DocumentArtifactsSource } from './document-cleanup';
+
+export type DeletionScope = 'single' | 'selection' | 'all';
+
+export interface DeletionResult {
+  deletedIds: string[];
+  undoUntil: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  screenshotsDeleted: number;
+  errors: string[];
+}
+
+interface DeletedDocument extends DocumentArtifactsSource {
+  data_key_id: string | null;
+}
+
+// Deleted analyses can be restored for this long; the cleanup job removes them for good afterwards
+export const UNDO_WINDOW_MS = (Number(process.env.HISTORY_UNDO_WINDOW_MINUTES) || 15) * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+export class HistoryDeletionService {
+  private supabase = createServerSupabase();
+
+  /**
+   * Soft-deletes the given documents, or all of the owner's documents; only rows the owner created are touched
+   */
+  async deleteDocuments(
+    owner: DocumentOwner,
+    ids: string[] | 'all',
+    req?: NextApiRequest
+  ): Promise<DeletionResult> {
+    const deletedAt = new Date();
+    const undoUntil = new Date(deletedAt.getTime() + UNDO_WINDOW_MS).toISOString();
+    const scope: DeletionScope = ids === 'all' ? 'all' : ids.length === 1 ? 'single' : 'selection';
+
+    let query = this.supabase
+      .from('demo_requests')
+      .update({ deleted_at: deletedAt.toISOString(), deleted_by: owner.userId })
+      .eq('created_by', owner.userId)
+      .is('deleted_at', null);
+
+    if (ids !== 'all') {
+      const documentIds = ids.filter(isDocumentId);
+      if (documentIds.length === 0) {
+        return { deletedIds: [], undoUntil };
+      }
+      query = query.in('id', documentIds);
+    }
+
+    const { data, error } = await query.select('id');
+    if (error) {
+      console.error('Error deleting documents:', error);
+      throw new Error('Failed to delete history');
+    }
+
+    const deletedIds = (data ?? []).map(row => row.id as string);
+    for (const documentId of deletedIds) {
+      await auditLog(
+        AuditAction.DOCUMENT_DELETE,
+        { req, userId: owner.userId, documentId },
+        { deletion_type: 'soft', scope, undo_until: undoUntil }
+      );
+    }
+
+    return { deletedIds, undoUntil };
+  }
+
+  /**
+   * Brings back documents the owner deleted, as long as their undo window is still open
+   */
+  async restoreDocuments(owner: DocumentOwner, ids: string[], req?: NextApiRequest): Promise<string[]> {
+    const documentIds = ids.filter(isDocumentId);
+    if (documentIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .update({ deleted_at: null, deleted_by: null })
+      .eq('created_by', owner.userId)
+      .in('id', documentIds)
+      .gt('deleted_at', new Date(Date.now() - UNDO_WINDOW_MS).toISOString())
+      .select('id');
+
+    if (error) {
+      console.error('Error restoring documents:', error);
+      throw new Error('Failed to restore history');
+    }
+
+    const restoredIds = (data ?? []).map(row => row.id as string);
+    for (const documentId of restoredIds) {
+      await auditLog(
+        AuditAction.DOCUMENT_ACCESS,
+        { req, userId: owner.userId, documentId },
+        { action: 'restored' }
+      );
+    }
+
+    return restoredIds;
+  }
+
+  /**
+   * Permanently removes documents whose undo window has closed, with their screenshots and data keys
+   */
+  async purgeDeletedDocuments(): Promise<PurgeResult> {
+    const result: PurgeResult = { purged: 0, screenshotsDeleted: 0, errors: [] };
+
+    const { data, error } = await this.supabase
+      .from('demo_requests')
+      .select(`${DOCUMENT_ARTIFACT_COLUMNS}, data_key_id`)
+      .not('deleted_at', 'is', null)
+      .lte('deleted_at', new Date(Date.now() - UNDO_WINDOW_MS).toISOString())
+      .limit(PURGE_BATCH_SIZE);
+
+    if (error) {
+      result.errors.push(`Failed to list deleted documents: ${error.message}`);
+      return result;
+    }
+
+    for (const document of (data ?? []) as DeletedDocument[]) {
+      try {
+        const { screenshotsDeleted, reviewJobsDeleted } = await deleteDocumentArtifacts(document);
+
+        // Shredding the data key also covers copies of the document left in backups
+        if (document.data_key_id) {
+          await shredDataKey(document.data_key_id);
+        }
+
+        const { error: deleteError } = await this.supabase
+          .from('demo_requests')
+          .delete()
+          .eq('id', document.id);
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        await this.supabase
+          .from('document_retention')
+          .update({ status: 'deleted' })
+          .eq('document_id', document.id);
+
+        await auditLog(
+          AuditAction.DOCUMENT_DELETE,
+          { userId: document.created_by || 'system', documentId: document.id },
+          {
+            deletion_type: 'purge',
+            screenshots_deleted: screenshotsDeleted,
+            review_jobs_deleted: reviewJobsDeleted,
+            crypto_shredded: !!document.data_key_id
+          }
+        );
+
+        result.purged++;
+        result.screenshotsDeleted += screenshotsDeleted;
+      } catch (purgeError) {
+        const message = purgeError instanceof Error ? purgeError.message : 'Unknown error';
+        result.errors.push(`Failed to purge document ${document.id}: ${message}`);
+      }
+    }
+
+    return result;
+  }
+}
+
+// Singleton instance
+let historyDeletionInstance: HistoryDeletionService | null = null;
+
+export const getHistoryDeletionService = (): HistoryDeletionService => {
+  if (!historyDeletionInstance) {
+    historyDeletionInstance = new HistoryDeletionService();
+  }
+  return historyDeletionInstance;
+};
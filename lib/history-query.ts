@@ -0,0 +1,110 @@
+import type { ParsedUrlQuery } from 'querystring';
+import type { AnalysisIssue } from './review';
+import type { ProcessingMethod } from './secure-review';
+import { DocumentClassification } from './document-classification';
+
+// Shared by the history page and the history API, so it only imports types from server modules
+
+export type HistorySort = 'newest' | 'oldest' | 'most_issues' | 'fewest_issues' | 'file_name';
+
+export interface HistoryFilters {
+  q?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  issueType?: AnalysisIssue['type'];
+  minIssues?: number;
+  maxIssues?: number;
+  classification?: DocumentClassification;
+  processingMethod?: ProcessingMethod;
+  reviewer?: string; // Clerk user id
+  sort: HistorySort;
+}
+
+export const HISTORY_PAGE_SIZE = 25;
+const MAX_QUERY_LENGTH = 200;
+
+export const HISTORY_SORTS: Array<{ value: HistorySort; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'most_issues', label: 'Most issues' },
+  { value: 'fewest_issues', label: 'Fewest issues' },
+  { value: 'file_name', label: 'File name' },
+];
+
+export const HISTORY_ISSUE_TYPES: Array<{ value: AnalysisIssue['type']; label: string }> = [
+  { value: 'typo', label: 'Typo' },
+  { value: 'spacing', label: 'Spacing' },
+  { value: 'punctuation', label: 'Punctuation' },
+  { value: 'capitalization', label: 'Capitalization' },
+  { value: 'alignment', label: 'Alignment' },
+  { value: 'font', label: 'Font' },
+  { value: 'formatting', label: 'Formatting' },
+  { value: 'cross_reference', label: 'Cross-reference' },
+  { value: 'logic_point', label: 'Logic point' },
+  { value: 'other', label: 'Other' },
+];
+
+export const HISTORY_PROCESSING_METHODS: Array<{ value: ProcessingMethod; label: string }> = [
+  { value: 'company_llm', label: 'Company internal AI' },
+  { value: 'external_ai', label: 'External AI' },
+  { value: 'local_patterns', label: 'Local pattern analysis' },
+  { value: 'manual_only', label: 'Manual review only' },
+];
+
+export const HISTORY_CLASSIFICATIONS = Object.values(DocumentClassification);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CLERK_ID_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const first = (value: string | string[] | undefined): string | undefined => {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || undefined;
+};
+
+const oneOf = <T extends string>(value: string | undefined, options: readonly T[]): T | undefined =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+const toDate = (value: string | undefined): string | undefined =>
+  value && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+
+const toCount = (value: string | undefined): number | undefined => {
+  const count = Number(value);
+  return value && Number.isInteger(count) && count >= 0 ? count : undefined;
+};
+
+/**
+ * Reads history filters from a URL query; values that are malformed or not allowed are dropped
+ */
+export const parseHistoryQuery = (query: ParsedUrlQuery): HistoryFilters => {
+  const reviewer = first(query.reviewer);
+
+  return {
+    q: first(query.q)?.slice(0, MAX_QUERY_LENGTH),
+    from: toDate(first(query.from)),
+    to: toDate(first(query.to)),
+    issueType: oneOf(first(query.issueType), HISTORY_ISSUE_TYPES.map(option => option.value)),
+    minIssues: toCount(first(query.minIssues)),
+    maxIssues: toCount(first(query.maxIssues)),
+    classification: oneOf(first(query.classification), HISTORY_CLASSIFICATIONS),
+    processingMethod: oneOf(first(query.processingMethod), HISTORY_PROCESSING_METHODS.map(option => option.value)),
+    reviewer: reviewer && CLERK_ID_PATTERN.test(reviewer) ? reviewer : undefined,
+    sort: oneOf(first(query.sort), HISTORY_SORTS.map(option => option.value)) ?? 'newest',
+  };
+};
+
+/**
+ * URL query for the given filters, leaving out empty values and the default sort so shared links stay short
+ */
+export const toHistoryQuery = (filters: HistoryFilters): Record<string, string> => {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === '' || (key === 'sort' && value === 'newest')) {
+      continue;
+    }
+    query[key] = String(value);
+  }
+  return query;
+};
+
+export const hasActiveFilters = (filters: HistoryFilters): boolean =>
+  Object.keys(toHistoryQuery({ ...filters, sort: 'newest' })).length > 0;
@@ -0,0 +1,115 @@
+import type { AnalysisIssue } from './review';
+import { extractPdfLayout, unionBoxes, type BoundingBox, type LayoutPage } from './pdf-layout';
+
+// Long quotes rarely survive extraction verbatim; matching their start is enough to place them
+const MAX_NEEDLE_LENGTH = 80;
+const MIN_NEEDLE_LENGTH = 3;
+
+type CharSource = { line: number; run: number; offset: number };
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Flattens a page into normalized text, remembering which run and character each position came from
+ */
+const indexPage = (page: LayoutPage) => {
+  let text = '';
+  const sources: CharSource[] = [];
+
+  page.lines.forEach((line, lineIndex) => {
+    line.runs.forEach((run, runIndex) => {
+      for (let offset = 0; offset < run.text.length; offset++) {
+        const char = run.text[offset].toLowerCase();
+        if (/\s/.test(char)) {
+          if (text.endsWith(' ') || text === '') continue;
+          text += ' ';
+        } else {
+          text += char;
+        }
+        sources.push({ line: lineIndex, run: runIndex, offset });
+      }
+      // Runs and lines are separated by whitespace in the flattened text
+      if (!text.endsWith(' ')) {
+        text += ' ';
+        sources.push({ line: lineIndex, run: runIndex, offset: run.text.length });
+      }
+    });
+  });
+  return { text, sources };
+};
+
+/**
+ * Box around a character range; widths inside a run are estimated proportionally
+ */
+const boxForRange = (page: LayoutPage, sources: CharSource[], start: number, end: number): BoundingBox => {
+  const boxes: BoundingBox[] = [];
+  const runs = new Map<string, { line: number; run: number; from: number; to: number }>();
+
+  for (let i = start; i < end; i++) {
+    const { line, run, offset } = sources[i];
+    const key = `${line}:${run}`;
+    const span = runs.get(key);
+    if (span) {
+      span.from = Math.min(span.from, offset);
+      span.to = Math.max(span.to, offset + 1);
+    } else {
+      runs.set(key, { line, run, from: offset, to: offset + 1 });
+    }
+  }
+
+  for (const span of runs.values()) {
+    const run = page.lines[span.line].runs[span.run];
+    const length = Math.max(1, run.text.length);
+    const from = Math.min(span.from, length);
+    const to = Math.min(span.to, length);
+    boxes.push({
+      x: run.bbox.x + (run.bbox.width * from) / length,
+      y: run.bbox.y,
+      width: Math.max(1, (run.bbox.width * (to - from)) / length),
+      height: run.bbox.height,
+    });
+  }
+  return unionBoxes(boxes);
+};
+
+/**
+ * Finds where a piece of text appears on a laid-out page
+ */
+export function locateText(page: LayoutPage, needle: string): BoundingBox | null {
+  const query = normalize(needle).slice(0, MAX_NEEDLE_LENGTH).trim();
+  if (query.length < MIN_NEEDLE_LENGTH) return null;
+
+  const { text, sources } = indexPage(page);
+  const start = text.indexOf(query);
+  if (start === -1) return null;
+  return boxForRange(page, sources, start, start + query.length);
+}
+
+/**
+ * Resolves the bounding box of an issue from its quoted text, falling back to the location hint
+ */
+export function locateIssue(issue: AnalysisIssue, page: LayoutPage): BoundingBox | null {
+  return locateText(page, issue.original) ?? locateText(page, issue.locationHint);
+}
+
+/**
+ * Adds bounding boxes to issues that do not have one yet; issues that cannot be found are returned unchanged
+ */
+export async function locateIssues(pdfBuffer: Buffer, issues: AnalysisIssue[]): Promise<AnalysisIssue[]> {
+  const pageNumbers = [...new Set(issues.filter(issue => !issue.bbox).map(issue => issue.page))];
+  if (pageNumbers.length === 0) return issues;
+
+  try {
+    const layout = await extractPdfLayout(pdfBuffer, { pages: pageNumbers });
+    const pages = new Map(layout.pages.map(page => [page.pageNumber, page]));
+
+    return issues.map(issue => {
+      const page = pages.get(issue.page);
+      const bbox = !issue.bbox && page ? locateIssue(issue, page) : null;
+      return bbox ? { ...issue, bbox } : issue;
+    });
+  } catch (error) {
+    console.error('Could not locate issues on the page:', error);
+    return issues;
+  }
+}
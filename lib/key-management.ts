@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import { DocumentEncryption, getEncryption, type EncryptionConfig, type EncryptionResult } from './encryption';
+
+export interface WrappedDataKey {
+  wrappedKey: string;
+  masterKeyId: string;
+}
+
+/**
+ * Holds the master keys that wrap per-document data keys; a cloud KMS can implement this without the app seeing its keys
+ */
+export interface KeyManagementProvider {
+  name: string;
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer>;
+  getActiveMasterKeyId(): string;
+}
+
+export type KeyManagementProviderName = 'local';
+
+/**
+ * Wraps data keys with the local AES-256-GCM keyring, so envelope encryption works offline
+ */
+export class LocalKeyManagementProvider implements KeyManagementProvider {
+  name = 'local';
+
+  constructor(private keyring: DocumentEncryption) {}
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const wrapped = this.keyring.encrypt(dataKey);
+    return {
+      wrappedKey: JSON.stringify(wrapped),
+      masterKeyId: wrapped.keyId!
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const payload: EncryptionResult = JSON.parse(wrapped.wrappedKey);
+    return this.keyring.decrypt(payload);
+  }
+
+  getActiveMasterKeyId(): string {
+    return this.keyring.getActiveKeyId();
+  }
+}
+
+/**
+ * Master keys come from LOCAL_MASTER_KEY_FILE when set, otherwise from the DOCUMENT_ENCRYPTION_KEY(S) environment variables
+ */
+const createLocalProvider = (): LocalKeyManagementProvider => {
+  const keyFile = process.env.LOCAL_MASTER_KEY_FILE;
+  if (!keyFile) {
+    return new LocalKeyManagementProvider(getEncryption());
+  }
+
+  const config: EncryptionConfig = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+  return new LocalKeyManagementProvider(new DocumentEncryption(config));
+};
+
+// Singleton instance
+let keyManagementInstance: KeyManagementProvider | null = null;
+
+/**
+ * Gets the provider configured through KMS_PROVIDER
+ */
+export const getKeyManagementProvider = (): KeyManagementProvider => {
+  if (!keyManagementInstance) {
+    const provider = (process.env.KMS_PROVIDER || 'local') as KeyManagementProviderName;
+    if (provider === 'local') {
+      keyManagementInstance = createLocalProvider();
+    } else {
+      throw new Error(`Unknown key management provider: ${provider}`);
+    }
+  }
+  return keyManagementInstance;
+};
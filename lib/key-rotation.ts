@@ -0,0 +1,93 @@
+import { createServerSupabase } from './supabaseServer';
+import {
+  getEncryption,
+  toEncryptedColumns,
+  fromEncryptedColumns,
+  type EncryptedColumns,
+} from './encryption';
+import { getSecureScreenshotManager } from './secure-screenshot';
+import { getEnvelopeEncryption } from './envelope-encryption';
+
+const ROTATION_BATCH_SIZE = 100;
+
+export interface RotationCounts {
+  rotated: number;
+  failed: number;
+}
+
+export interface KeyRotationReport {
+  activeKeyId: string;
+  dataKeys: RotationCounts;
+  documents: RotationCounts;
+  reviewJobs: RotationCounts;
+  screenshots: RotationCounts;
+}
+
+type EncryptedTable = 'demo_requests' | 'review_jobs';
+
+/**
+ * Re-encrypts every row of a table that is not under the active key
+ */
+async function rotateTable(table: EncryptedTable): Promise<RotationCounts> {
+  const supabase = createServerSupabase();
+  const encryption = getEncryption();
+  const activeKeyId = encryption.getActiveKeyId();
+  const counts: RotationCounts = { rotated: 0, failed: 0 };
+  const failedIds = new Set<string>();
+
+  // Rotated rows drop out of the filter, so each batch starts from the top again
+  for (;;) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, encrypted_document, encryption_iv, encryption_auth_tag, encryption_key_id, data_key_id')
+      .not('encrypted_document', 'is', null)
+      // Rows under a data key are rotated by rewrapping the key
+      .is('data_key_id', null)
+      .or(`encryption_key_id.is.null,encryption_key_id.neq.${activeKeyId}`)
+      .order('id')
+      .limit(ROTATION_BATCH_SIZE + failedIds.size);
+
+    if (error) {
+      throw new Error(`Failed to list ${table} for key rotation: ${error.message}`);
+    }
+
+    const rows = ((data || []) as Array<EncryptedColumns & { id: string }>).filter(row => !failedIds.has(row.id));
+    if (rows.length === 0) {
+      return counts;
+    }
+
+    for (const row of rows) {
+      try {
+        const reencrypted = encryption.reencrypt(fromEncryptedColumns(row));
+        const { error: updateError } = await supabase
+          .from(table)
+          .update(toEncryptedColumns(reencrypted))
+          .eq('id', row.id)
+          // Skip rows another rotation already rewrote
+          .eq('encryption_iv', row.encryption_iv);
+
+        if (updateError) {
+          throw updateError;
+        }
+        counts.rotated++;
+      } catch (error) {
+        console.error(`Error rotating key for ${table} ${row.id}:`, error);
+        failedIds.add(row.id);
+        counts.failed++;
+      }
+    }
+  }
+}
+
+/**
+ * Rewraps data keys, then re-encrypts stored documents, review jobs and screenshots that predate them
+ */
+export async function rotateEncryptionKeys(): Promise<KeyRotationReport> {
+  return {
+    activeKeyId: getEncryption().getActiveKeyId(),
+    dataKeys: await getEnvelopeEncryption().rewrapDataKeys(),
+    documents: await rotateTable('demo_requests'),
+    reviewJobs: await rotateTable('review_jobs'),
+    screenshots: await getSecureScreenshotManager().rotateScreenshotKeys(),
+  };
+}
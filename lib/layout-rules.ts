@@ -0,0 +1,321 @@
+import type { AnalysisIssue } from './review';
+import {
+  extractPdfLayout,
+  layoutToPageText,
+  unionBoxes,
+  type BoundingBox,
+  type DocumentLayout,
+  type LayoutLine,
+  type LayoutPage,
+  type TextRun,
+} from './pdf-layout';
+import { findHeadingLabel } from './rules';
+import { parseTableOfContents } from './toc';
+
+/**
+ * Layout rule findings and the page number printed on each page, for the text-based rules
+ */
+export interface LayoutAnalysis {
+  issues: AnalysisIssue[];
+  pageLabels: Array<string | null>;
+}
+
+const SIZE_TOLERANCE = 0.5; // Points; sizes closer than this count as the same
+const BODY_SIZE_RANGE = 0.15; // Lines more than 15% larger or smaller are deliberate (headings, footnotes)
+const INDENT_TOLERANCE = 3; // Points
+const MARGIN_TOLERANCE = 6; // Points
+const MIN_LINES_FOR_MARGINS = 20; // Too few lines to tell where the margins are
+const MIN_LINES_AT_MARGIN = 5; // Lines that must sit at a margin before lines past it are flagged
+const BODY_STYLE_SHARE = 0.2; // Styles with at least this share of the dominant style's text are body text too
+const MARGIN_BAND = 0.08; // Header and footer bands, as a share of the page height
+const MIN_RUN_LENGTH = 3; // Shorter runs (bullets, footnote markers) are ignored
+
+// "1.", "a)", "(iv)", or a bullet, followed by a space
+const LIST_MARKER_RE = /^(?:\(?([a-z]{1,4}|\d{1,3})[.)]|[•·▪◦‣–-])\s/i;
+const ROMAN_MARKER_RE = /^[ivxl]+$/i;
+// Style words stripped from PostScript names so "Times-Bold" and "Times-Roman" share the family "Times"
+const FONT_STYLE_SUFFIX_RE = /[-,](?:bold|italic|oblique|black|semibold|regular|roman|medium|light|heavy|demi|book)+.*$/i;
+
+type LineRef = { page: LayoutPage; line: LayoutLine };
+
+const fontFamily = (run: TextRun) =>
+  run.fontName.replace(FONT_STYLE_SUFFIX_RE, '').replace(/(?:MT|PS)+$/, '') || run.fontFamily;
+
+const roundSize = (size: number) => Math.round(size / SIZE_TOLERANCE) * SIZE_TOLERANCE;
+
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const lineSize = (line: LayoutLine) => Math.max(...line.runs.map(run => run.fontSize));
+
+const excerpt = (text: string) => (text.length > 120 ? `${text.slice(0, 117)}...` : text);
+
+const locationOf = (page: LayoutPage, bbox: BoundingBox) =>
+  `Page ${page.label ?? page.pageNumber}, ${Math.round(bbox.y)}pt from the top`;
+
+const inMarginBand = ({ page, line }: LineRef) =>
+  line.bbox.y + line.bbox.height < page.height * MARGIN_BAND || line.bbox.y > page.height * (1 - MARGIN_BAND);
+
+const isHeading = (line: LayoutLine) =>
+  findHeadingLabel(line.text) !== null || (line.runs.every(run => run.bold) && line.text.length < 80);
+
+/**
+ * Lines outside the table of contents, header and footer
+ */
+const contentLines = (layout: DocumentLayout): LineRef[] => {
+  const toc = parseTableOfContents(layoutToPageText(layout));
+  return layout.pages
+    .filter((_, i) => !toc?.pages.includes(i + 1))
+    .flatMap(page => page.lines.map(line => ({ page, line })))
+    .filter(ref => !inMarginBand(ref));
+};
+
+/**
+ * Finds body text whose font family or size differs from the dominant body style
+ */
+export function findFontInconsistencies(layout: DocumentLayout): AnalysisIssue[] {
+  const lines = contentLines(layout).filter(({ line }) => !isHeading(line));
+
+  // The body style is the one most characters are set in; documents often set notes or quotes
+  // in a second style almost as widely used, which is body text too
+  const styleKey = (run: TextRun) => `${fontFamily(run)}|${roundSize(run.fontSize)}`;
+  const weights = new Map<string, number>();
+  lines.forEach(({ line }) => line.runs.forEach(run => {
+    weights.set(styleKey(run), (weights.get(styleKey(run)) ?? 0) + run.text.length);
+  }));
+  const [dominant, dominantWeight] = [...weights.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (!dominant || !dominantWeight) return [];
+  const bodyStyles = [...weights.entries()]
+    .filter(([, weight]) => weight >= dominantWeight * BODY_STYLE_SHARE)
+    .map(([key]) => ({ family: key.split('|')[0], size: Number(key.split('|')[1]) }));
+  const isBodyStyle = (run: TextRun) => bodyStyles.some(style =>
+    style.family === fontFamily(run) && Math.abs(run.fontSize - style.size) <= SIZE_TOLERANCE
+  );
+  const bodyFamily = dominant.split('|')[0];
+
+  // Reported at the size actually measured, not the rounded size the styles are grouped by
+  const measured = new Map<number, number>();
+  lines.forEach(({ line }) => line.runs.filter(run => styleKey(run) === dominant).forEach(run => {
+    measured.set(run.fontSize, (measured.get(run.fontSize) ?? 0) + run.text.length);
+  }));
+  const bodySize = [...measured.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const issues: AnalysisIssue[] = [];
+  let previous: { ref: LineRef; style: string; issue: AnalysisIssue } | null = null;
+
+  for (const ref of lines) {
+    const size = lineSize(ref.line);
+    if (Math.abs(size - bodySize) > bodySize * BODY_SIZE_RANGE) {
+      previous = null;
+      continue;
+    }
+
+    const offending = ref.line.runs.filter(run =>
+      run.text.trim().length >= MIN_RUN_LENGTH && !isBodyStyle(run)
+    );
+    if (offending.length === 0) {
+      previous = null;
+      continue;
+    }
+
+    const style = `${fontFamily(offending[0])} ${offending[0].fontSize}pt`;
+    const text = offending.map(run => run.text).join(' ');
+    const bbox = unionBoxes(offending.map(run => run.bbox));
+
+    // Consecutive lines in the same wrong style are one paragraph
+    if (previous && previous.ref.page === ref.page && previous.style === style) {
+      previous.issue.bbox = unionBoxes([previous.issue.bbox!, bbox]);
+      previous.issue.original = excerpt(`${previous.issue.original} ${text}`);
+      previous.ref = ref;
+      continue;
+    }
+
+    const issue: AnalysisIssue = {
+      page: ref.page.pageNumber,
+      type: 'font',
+      message: `Text is set in ${style} instead of the body style ${bodyFamily} ${bodySize}pt`,
+      original: excerpt(text),
+      suggestion: `Reformat the text in ${bodyFamily} ${bodySize}pt.`,
+      locationHint: locationOf(ref.page, bbox),
+      bbox,
+      deterministic: true,
+    };
+    issues.push(issue);
+    previous = { ref, style, issue };
+  }
+  return issues;
+}
+
+/**
+ * Finds headings styled differently from other headings at the same level
+ */
+export function findHeadingStyleMismatches(layout: DocumentLayout): AnalysisIssue[] {
+  const levels = new Map<string, Array<LineRef & { style: string }>>();
+
+  for (const ref of contentLines(layout)) {
+    const label = findHeadingLabel(ref.line.text);
+    if (!label) continue;
+    const [kind, id] = label.split(' ');
+    const level = `${kind} level ${id.split('.').length}`;
+    const run = ref.line.runs[0];
+    const style = [
+      fontFamily(run),
+      `${roundSize(run.fontSize)}pt`,
+      run.bold ? 'bold' : '',
+      run.italic ? 'italic' : '',
+    ].filter(Boolean).join(' ');
+    levels.set(level, [...(levels.get(level) ?? []), { ...ref, style }]);
+  }
+
+  const issues: AnalysisIssue[] = [];
+  for (const [level, headings] of levels) {
+    if (headings.length < 2) continue;
+    const dominant = mostCommon(headings.map(h => h.style));
+
+    for (const heading of headings.filter(h => h.style !== dominant)) {
+      issues.push({
+        page: heading.page.pageNumber,
+        type: 'font',
+        message: `Heading is set in ${heading.style}, but other ${level.toLowerCase()} headings use ${dominant}`,
+        original: excerpt(heading.line.text),
+        suggestion: `Format the heading like the other ${level.toLowerCase()} headings (${dominant}).`,
+        locationHint: locationOf(heading.page, heading.line.bbox),
+        bbox: heading.line.bbox,
+        deterministic: true,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Finds list items indented differently from other items of the same kind on the page
+ */
+export function findListIndentation(layout: DocumentLayout): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+
+  for (const page of layout.pages) {
+    const kinds = new Map<string, LayoutLine[]>();
+    let lastLetter: string | null = null;
+
+    for (const line of page.lines) {
+      const m = line.text.match(LIST_MARKER_RE);
+      if (!m) continue;
+      const marker = m[1]?.toLowerCase();
+      let kind: string;
+      if (!marker) {
+        kind = 'bullet';
+      } else if (/^\d+$/.test(marker)) {
+        kind = 'numbered';
+      } else if (ROMAN_MARKER_RE.test(marker) && !(marker.length === 1 && lastLetter && marker.charCodeAt(0) === lastLetter.charCodeAt(0) + 1)) {
+        // "(i)" after "(h)" is a letter; otherwise roman markers open a nested list
+        kind = 'roman numeral';
+      } else {
+        kind = 'lettered';
+        lastLetter = marker;
+      }
+      kinds.set(kind, [...(kinds.get(kind) ?? []), line]);
+    }
+
+    for (const [kind, items] of kinds) {
+      if (items.length < 3) continue;
+      const indent = mostCommon(items.map(item => Math.round(item.bbox.x)))!;
+
+      for (const item of items.filter(i => Math.abs(i.bbox.x - indent) > INDENT_TOLERANCE)) {
+        issues.push({
+          page: page.pageNumber,
+          type: 'alignment',
+          message: `List item is indented at ${Math.round(item.bbox.x)}pt; other ${kind} items on this page start at ${indent}pt`,
+          original: excerpt(item.text),
+          suggestion: `Align the item with the other ${kind} items.`,
+          locationHint: locationOf(page, item.bbox),
+          bbox: item.bbox,
+          deterministic: true,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Smallest edge that at least MIN_LINES_AT_MARGIN lines share; the few lines further out are the ones breaking the margin
+ */
+const outermostEdge = (edges: number[]): number | null => {
+  const sorted = [...edges].sort((a, b) => a - b);
+  for (let i = 0; i + MIN_LINES_AT_MARGIN - 1 < sorted.length; i++) {
+    if (sorted[i + MIN_LINES_AT_MARGIN - 1] - sorted[i] <= MARGIN_TOLERANCE) return sorted[i];
+  }
+  return null;
+};
+
+/**
+ * Finds lines that run outside the text column of pages with the same size
+ */
+export function findMarginBreaks(layout: DocumentLayout): AnalysisIssue[] {
+  const groups = new Map<string, LineRef[]>();
+  contentLines(layout).forEach(ref => {
+    const key = `${Math.round(ref.page.width)}x${Math.round(ref.page.height)}`;
+    groups.set(key, [...(groups.get(key) ?? []), ref]);
+  });
+
+  const issues: AnalysisIssue[] = [];
+  for (const lines of groups.values()) {
+    if (lines.length < MIN_LINES_FOR_MARGINS) continue;
+    // Indented paragraphs and further columns start to the right of the margin, so the margin is
+    // where the leftmost lines start (and, on the right, where the rightmost lines end)
+    const left = outermostEdge(lines.map(({ line }) => line.bbox.x));
+    const mirroredRight = outermostEdge(lines.map(({ line }) => -(line.bbox.x + line.bbox.width)));
+    const right = mirroredRight === null ? null : -mirroredRight;
+
+    for (const { page, line } of lines) {
+      const overLeft = left === null ? 0 : left - line.bbox.x;
+      const overRight = right === null ? 0 : line.bbox.x + line.bbox.width - right;
+      const offPage = line.bbox.x < 0 || line.bbox.x + line.bbox.width > page.width;
+      if (overLeft <= MARGIN_TOLERANCE && overRight <= MARGIN_TOLERANCE && !offPage) continue;
+
+      const side = overLeft > overRight ? 'left' : 'right';
+      issues.push({
+        page: page.pageNumber,
+        type: 'alignment',
+        message: offPage
+          ? 'Line runs off the edge of the page'
+          : `Line extends ${Math.round(Math.max(overLeft, overRight))}pt past the ${side} margin`,
+        original: excerpt(line.text),
+        suggestion: 'Reflow the text to fit within the page margins.',
+        locationHint: locationOf(page, line.bbox),
+        bbox: line.bbox,
+        deterministic: true,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Runs every layout rule
+ */
+export function runLayoutRules(layout: DocumentLayout): AnalysisIssue[] {
+  return [
+    ...findFontInconsistencies(layout),
+    ...findHeadingStyleMismatches(layout),
+    ...findListIndentation(layout),
+    ...findMarginBreaks(layout),
+  ];
+}
+
+/**
+ * Extracts the layout of a PDF and runs the layout rules; returns no issues or labels if the PDF cannot be laid out
+ */
+export async function analyzeLayout(buf: Buffer): Promise<LayoutAnalysis> {
+  try {
+    const layout = await extractPdfLayout(buf);
+    return { issues: runLayoutRules(layout), pageLabels: layout.pages.map(page => page.label) };
+  } catch (error) {
+    console.error('Layout rules skipped, PDF layout could not be extracted:', error);
+    return { issues: [], pageLabels: [] };
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractJsonText, parseModelJson, validateAnalysisResult, validateEmailDraft } from './model-output';
+
+const VALID_RESULT = {
+  fileName: 'sub-doc.pdf',
+  issues: [{ page: 2, type: 'typo', message: 'Misspelled word', original: 'Partnershp', suggestion: 'Partnership', locationHint: '' }],
+  summary: { issueCount: 1, pagesAffected: [2] },
+};
+const VALID_JSON = JSON.stringify(VALID_RESULT);
+
+const EMAIL_DRAFT = {
+  subject: 'Questions on the subscription booklet',
+  opening: 'Thank you for sending the documents.',
+  questions: [],
+  typos: [],
+  closing: 'Please reply by Friday.',
+  signature: 'The review team',
+};
+
+// Returns the given responses to successive repair prompts and records the prompts
+const repairWith = (...responses: string[]) => {
+  const prompts: string[] = [];
+  const repair = async (prompt: string) => {
+    prompts.push(prompt);
+    const response = responses.shift();
+    if (response === undefined) throw new Error('No more responses');
+    return response;
+  };
+  return { repair, prompts };
+};
+
+describe('extractJsonText', () => {
+  it('unwraps code fences and surrounding prose', () => {
+    assert.equal(extractJsonText('```json\n{"a": 1}\n```'), '{"a": 1}');
+    assert.equal(extractJsonText('Here is the result:\n{"a": 1}\nLet me know.'), '{"a": 1}');
+  });
+});
+
+describe('parseModelJson', () => {
+  it('accepts fenced JSON without a repair', async () => {
+    const { repair, prompts } = repairWith();
+    const result = await parseModelJson(`\`\`\`json\n${VALID_JSON}\n\`\`\``, {
+      label: 'analysis',
+      validate: validateAnalysisResult,
+      repair,
+    });
+
+    assert.deepEqual(result, { value: VALID_RESULT, warnings: [], repairAttempts: 0 });
+    assert.equal(prompts.length, 0);
+  });
+
+  it('asks the model to repair trailing commas', async () => {
+    const { repair, prompts } = repairWith(VALID_JSON);
+    const result = await parseModelJson('{"fileName": "sub-doc.pdf", "issues": [],}', {
+      label: 'analysis',
+      validate: validateAnalysisResult,
+      repair,
+    });
+
+    assert.deepEqual(result, { value: VALID_RESULT, warnings: [], repairAttempts: 1 });
+    assert.match(prompts[0], /\$: invalid JSON/);
+    assert.match(prompts[0], /"issues": \[\],\}/);
+  });
+
+  it('repairs truncated output', async () => {
+    const truncated = VALID_JSON.slice(0, VALID_JSON.length - 40);
+    const { repair } = repairWith(truncated, VALID_JSON);
+    const result = await parseModelJson(truncated, { label: 'analysis', validate: validateAnalysisResult, repair });
+
+    assert.deepEqual(result, { value: VALID_RESULT, warnings: [], repairAttempts: 2 });
+  });
+
+  it('throws when truncated output is never repaired', async () => {
+    const truncated = VALID_JSON.slice(0, VALID_JSON.length - 40);
+    const { repair } = repairWith(truncated, truncated);
+
+    await assert.rejects(
+      parseModelJson(truncated, { label: 'analysis', validate: validateAnalysisResult, repair }),
+      /Failed to get valid analysis JSON from the model: \$: invalid JSON/
+    );
+  });
+
+  it('keeps the best partial result with warnings once repairs run out', async () => {
+    const missingPage = JSON.stringify({ ...VALID_RESULT, issues: [...VALID_RESULT.issues, { type: 'typo', message: 'No page' }] });
+    const { repair } = repairWith('not json');
+    const result = await parseModelJson(missingPage, {
+      label: 'analysis',
+      validate: validateAnalysisResult,
+      repair,
+      maxRepairAttempts: 1,
+    });
+
+    assert.deepEqual(result.value.issues, VALID_RESULT.issues);
+    assert.equal(result.repairAttempts, 1);
+    assert.deepEqual(result.warnings, [
+      'issues[1].page: expected positive integer, got undefined',
+      'issues[1].original: expected string, got undefined',
+      'issues[1].suggestion: expected string, got undefined',
+      'issues[1].locationHint: expected string, got undefined',
+    ]);
+  });
+});
+
+describe('validateEmailDraft', () => {
+  it('keeps well-formed follow-ups', () => {
+    const followUps = [{ date: '2026-11-02', message: 'Chase the updated PDF' }];
+    assert.deepEqual(validateEmailDraft({ ...EMAIL_DRAFT, followUps }), {
+      value: { ...EMAIL_DRAFT, assumptionsBlock: undefined, followUps },
+      errors: [],
+    });
+  });
+
+  it('drops follow-ups without a date or message', () => {
+    const { value, errors } = validateEmailDraft({
+      ...EMAIL_DRAFT,
+      followUps: ['next week', { date: 'Friday', message: 'Chase' }, { date: '2026-11-02' }],
+    });
+
+    assert.deepEqual(value?.followUps, []);
+    assert.deepEqual(errors.map(error => error.path), ['followUps[0]', 'followUps[1].date', 'followUps[2].message']);
+  });
+
+  it('defaults a missing follow-up list to none', () => {
+    assert.deepEqual(validateEmailDraft(EMAIL_DRAFT).value?.followUps, []);
+  });
+});
@@ -0,0 +1,388 @@
+import type { AnalysisIssue, AnalysisResult } from './review';
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export interface SchemaError {
+  path: string; // e.g. "issues[3].page"
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T | null; // Best-effort value built from the valid parts of the input
+  errors: SchemaError[];
+}
+
+export interface ModelJsonOptions<T> {
+  label: string; // Used in repair prompts and log messages
+  validate: (data: unknown) => ValidationResult<T>;
+  repair?: (repairPrompt: string) => Promise<string>;
+  maxRepairAttempts?: number;
+}
+
+export interface ModelJsonResult<T> {
+  value: T;
+  warnings: string[];
+  repairAttempts: number;
+}
+
+export interface EmailDraftQuestion {
+  type: string;
+  title: string;
+  issue: string;
+  evidence: {
+    sectionTitle: string;
+    pageRef: string;
+  };
+  proposedSolution: string;
+  requestUpdatedPDF: boolean;
+}
+
+export interface EmailDraftTypo {
+  pageRef: string;
+  excerpt: string;
+  suggestedFix: string;
+}
+
+/**
+ * A reminder to chase the customer if they have not replied by a date
+ */
+export interface EmailDraftFollowUp {
+  date: string; // YYYY-MM-DD
+  message: string;
+}
+
+export interface EmailDraft {
+  subject: string;
+  opening: string;
+  assumptionsBlock?: string;
+  questions: EmailDraftQuestion[];
+  typos: EmailDraftTypo[];
+  closing: string;
+  signature: string;
+  followUps: EmailDraftFollowUp[];
+}
+
+const ISSUE_TYPES: AnalysisIssue['type'][] = ['typo', 'spacing', 'punctuation', 'capitalization', 'alignment', 'font', 'formatting', 'cross_reference', 'logic_point', 'other'];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Reads a string field, recording an error and falling back when it is missing or not a string
+ */
+const readString = (
+  obj: Record<string, any>,
+  key: string,
+  path: string,
+  errors: SchemaError[],
+  fallback: string | null = ''
+): string | null => {
+  const value = obj[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  errors.push({ path: path ? `${path}.${key}` : key, message: `expected string, got ${describe(value)}` });
+  return fallback;
+};
+
+/**
+ * Extracts the JSON payload from a model response, tolerating code fences and surrounding prose
+ */
+export const extractJsonText = (raw: string): string => {
+  const trimmed = raw.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (fenced && fenced[1]) {
+    return fenced[1].trim();
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start >= 0 && end > start) {
+    return trimmed.slice(start, end + 1);
+  }
+  return trimmed;
+};
+
+/**
+ * Validates a single analysis issue, coercing recoverable fields
+ */
+const validateIssue = (raw: unknown, path: string, errors: SchemaError[]): AnalysisIssue | null => {
+  if (!isObject(raw)) {
+    errors.push({ path, message: `expected object, got ${describe(raw)}` });
+    return null;
+  }
+
+  let page: number | null = null;
+  if (typeof raw.page === 'number' && Number.isInteger(raw.page) && raw.page >= 1) {
+    page = raw.page;
+  } else {
+    const parsed = parseInt(String(raw.page), 10);
+    errors.push({ path: `${path}.page`, message: `expected positive integer, got ${JSON.stringify(raw.page)}` });
+    if (Number.isFinite(parsed) && parsed >= 1) {
+      page = parsed;
+    }
+  }
+
+  let type: AnalysisIssue['type'] = 'other';
+  if (ISSUE_TYPES.includes(raw.type)) {
+    type = raw.type;
+  } else {
+    errors.push({ path: `${path}.type`, message: `expected one of ${ISSUE_TYPES.join('|')}, got ${JSON.stringify(raw.type)}` });
+  }
+
+  const message = readString(raw, 'message', path, errors, null);
+  const original = readString(raw, 'original', path, errors) ?? '';
+  const suggestion = readString(raw, 'suggestion', path, errors) ?? '';
+  const locationHint = readString(raw, 'locationHint', path, errors) ?? '';
+
+  // An issue without a page or message cannot be shown to reviewers
+  if (page === null || !message) {
+    return null;
+  }
+
+  return { page, type, message, original, suggestion, locationHint };
+};
+
+/**
+ * Validates model output against the AnalysisResult schema
+ */
+export const validateAnalysisResult = (data: unknown): ValidationResult<AnalysisResult> => {
+  const errors: SchemaError[] = [];
+  if (!isObject(data)) {
+    return { value: null, errors: [{ path: '$', message: `expected object, got ${describe(data)}` }] };
+  }
+
+  const fileName = typeof data.fileName === 'string' ? data.fileName : '';
+  if (typeof data.fileName !== 'string') {
+    errors.push({ path: 'fileName', message: `expected string, got ${describe(data.fileName)}` });
+  }
+
+  const issues: AnalysisIssue[] = [];
+  if (Array.isArray(data.issues)) {
+    data.issues.forEach((raw: unknown, index: number) => {
+      const issue = validateIssue(raw, `issues[${index}]`, errors);
+      if (issue) issues.push(issue);
+    });
+  } else {
+    errors.push({ path: 'issues', message: `expected array, got ${describe(data.issues)}` });
+  }
+
+  if (!isObject(data.summary)) {
+    errors.push({ path: 'summary', message: `expected object, got ${describe(data.summary)}` });
+  } else {
+    if (typeof data.summary.issueCount !== 'number') {
+      errors.push({ path: 'summary.issueCount', message: `expected number, got ${describe(data.summary.issueCount)}` });
+    }
+    if (!Array.isArray(data.summary.pagesAffected)) {
+      errors.push({ path: 'summary.pagesAffected', message: `expected array, got ${describe(data.summary.pagesAffected)}` });
+    }
+  }
+
+  return {
+    value: {
+      fileName,
+      issues,
+      summary: {
+        issueCount: issues.length,
+        pagesAffected: [...new Set(issues.map(issue => issue.page))]
+      }
+    },
+    errors
+  };
+};
+
+/**
+ * Validates model output against the review email JSON schema
+ */
+export const validateEmailDraft = (data: unknown): ValidationResult<EmailDraft> => {
+  const errors: SchemaError[] = [];
+  if (!isObject(data)) {
+    return { value: null, errors: [{ path: '$', message: `expected object, got ${describe(data)}` }] };
+  }
+
+  const questions: EmailDraftQuestion[] = [];
+  if (Array.isArray(data.questions)) {
+    data.questions.forEach((raw: unknown, index: number) => {
+      const path = `questions[${index}]`;
+      if (!isObject(raw)) {
+        errors.push({ path, message: `expected object, got ${describe(raw)}` });
+        return;
+      }
+      const type = readString(raw, 'type', path, errors, null);
+      const title = readString(raw, 'title', path, errors, null);
+      const issue = readString(raw, 'issue', path, errors) ?? '';
+      const proposedSolution = readString(raw, 'proposedSolution', path, errors) ?? '';
+      let evidence = { sectionTitle: '', pageRef: '' };
+      if (isObject(raw.evidence)) {
+        evidence = {
+          sectionTitle: readString(raw.evidence, 'sectionTitle', `${path}.evidence`, errors) ?? '',
+          pageRef: readString(raw.evidence, 'pageRef', `${path}.evidence`, errors) ?? ''
+        };
+      } else {
+        errors.push({ path: `${path}.evidence`, message: `expected object, got ${describe(raw.evidence)}` });
+      }
+      if (raw.requestUpdatedPDF !== undefined && typeof raw.requestUpdatedPDF !== 'boolean') {
+        errors.push({ path: `${path}.requestUpdatedPDF`, message: `expected boolean, got ${describe(raw.requestUpdatedPDF)}` });
+      }
+
+      // Questions without a type or title are dropped; the errors above already name the field
+      if (type && title) {
+        questions.push({ type, title, issue, evidence, proposedSolution, requestUpdatedPDF: raw.requestUpdatedPDF === true });
+      }
+    });
+  } else {
+    errors.push({ path: 'questions', message: `expected array, got ${describe(data.questions)}` });
+  }
+
+  const typos: EmailDraftTypo[] = [];
+  if (Array.isArray(data.typos)) {
+    data.typos.forEach((raw: unknown, index: number) => {
+      const path = `typos[${index}]`;
+      if (!isObject(raw)) {
+        errors.push({ path, message: `expected object, got ${describe(raw)}` });
+        return;
+      }
+      const pageRef = readString(raw, 'pageRef', path, errors, null);
+      const excerpt = readString(raw, 'excerpt', path, errors, null);
+      const suggestedFix = readString(raw, 'suggestedFix', path, errors, null);
+      if (pageRef !== null && excerpt !== null && suggestedFix !== null) {
+        typos.push({ pageRef, excerpt, suggestedFix });
+      }
+    });
+  } else if (data.typos !== undefined) {
+    errors.push({ path: 'typos', message: `expected array, got ${describe(data.typos)}` });
+  }
+
+  if (data.assumptionsBlock !== undefined && data.assumptionsBlock !== null && typeof data.assumptionsBlock !== 'string') {
+    errors.push({ path: 'assumptionsBlock', message: `expected string, got ${describe(data.assumptionsBlock)}` });
+  }
+  const followUps: EmailDraftFollowUp[] = [];
+  if (Array.isArray(data.followUps)) {
+    data.followUps.forEach((raw: unknown, index: number) => {
+      const path = `followUps[${index}]`;
+      if (!isObject(raw)) {
+        errors.push({ path, message: `expected object, got ${describe(raw)}` });
+        return;
+      }
+      const date = readString(raw, 'date', path, errors, null);
+      const message = readString(raw, 'message', path, errors, null);
+      if (date !== null && !DATE_RE.test(date)) {
+        errors.push({ path: `${path}.date`, message: `expected YYYY-MM-DD, got ${JSON.stringify(date)}` });
+      } else if (date !== null && message !== null) {
+        followUps.push({ date, message });
+      }
+    });
+  } else if (data.followUps !== undefined) {
+    errors.push({ path: 'followUps', message: `expected array, got ${describe(data.followUps)}` });
+  }
+
+  const subject = readString(data, 'subject', '', errors) ?? '';
+  const opening = readString(data, 'opening', '', errors) ?? '';
+  const closing = readString(data, 'closing', '', errors) ?? '';
+  const signature = readString(data, 'signature', '', errors) ?? '';
+
+  return {
+    value: {
+      subject,
+      opening,
+      assumptionsBlock: typeof data.assumptionsBlock === 'string' ? data.assumptionsBlock : undefined,
+      questions,
+      typos,
+      closing,
+      signature,
+      followUps
+    },
+    errors
+  };
+};
+
+/**
+ * Formats schema errors as one line per field
+ */
+export const formatSchemaErrors = (errors: SchemaError[]): string[] => {
+  return errors.map(error => `${error.path}: ${error.message}`);
+};
+
+/**
+ * Builds the follow-up prompt asking the model to fix its previous output
+ */
+export const buildRepairPrompt = (label: string, previousOutput: string, errors: SchemaError[]): string => `
+Your previous ${label} response did not match the required JSON schema.
+Fix ONLY the problems listed below and return the complete corrected JSON (no prose, no code fences).
+
+Validation errors:
+${formatSchemaErrors(errors).map(line => `- ${line}`).join('\n')}
+
+Previous response:
+${previousOutput}
+`;
+
+/**
+ * Parses and validates model JSON, asking the model to repair invalid output.
+ * Returns the best partial result with warnings once repair attempts are exhausted,
+ * and only throws when no attempt produced usable JSON.
+ */
+export const parseModelJson = async <T>(
+  raw: string,
+  options: ModelJsonOptions<T>
+): Promise<ModelJsonResult<T>> => {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  let best: { value: T; errors: SchemaError[] } | null = null;
+  let lastErrors: SchemaError[] = [];
+  let current = raw;
+  let repairAttempts = 0;
+
+  while (true) {
+    const text = extractJsonText(current);
+    let result: ValidationResult<T>;
+    try {
+      result = options.validate(JSON.parse(text));
+    } catch (parseError) {
+      result = {
+        value: null,
+        errors: [{ path: '$', message: `invalid JSON: ${parseError instanceof Error ? parseError.message : 'parse failed'}` }]
+      };
+    }
+
+    if (result.value !== null && result.errors.length === 0) {
+      return { value: result.value, warnings: [], repairAttempts };
+    }
+
+    lastErrors = result.errors;
+    if (result.value !== null && (!best || result.errors.length < best.errors.length)) {
+      best = { value: result.value, errors: result.errors };
+    }
+
+    console.warn(`Invalid ${options.label} output (attempt ${repairAttempts + 1}):`, formatSchemaErrors(result.errors));
+
+    if (!options.repair || repairAttempts >= maxRepairAttempts) {
+      break;
+    }
+
+    repairAttempts++;
+    try {
+      current = await options.repair(buildRepairPrompt(options.label, text, result.errors));
+    } catch (repairError) {
+      console.error(`Repair request for ${options.label} failed:`, repairError);
+      break;
+    }
+  }
+
+  if (!best) {
+    throw new Error(`Failed to get valid ${options.label} JSON from the model: ${formatSchemaErrors(lastErrors).join('; ')}`);
+  }
+
+  return {
+    value: best.value,
+    warnings: formatSchemaErrors(best.errors),
+    repairAttempts
+  };
+};
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+
+// canvas needs its native bindings, which are not built on every machine
+const pageImage = (() => {
+  try {
+    return require('./page-image') as typeof import('./page-image');
+  } catch {
+    return null;
+  }
+})();
+
+const createPdf = async (pageCount: number): Promise<Buffer> => {
+  const pdf = await PDFDocument.create();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.addPage([200, 200]).drawText(`Page ${page}`, { x: 20, y: 100, size: 12 });
+  }
+  return Buffer.from(await pdf.save());
+};
+
+// Screenshots of five issues, three of them on page 1
+const ISSUE_PAGES = [1, 1, 2, 1, 2];
+
+describe('PageRenderCache', { skip: !pageImage && 'canvas native bindings are not built' }, () => {
+  const { PageRenderCache } = pageImage ?? ({} as typeof import('./page-image'));
+
+  it('renders each page once however many issues are on it', async () => {
+    const pdf = await createPdf(2);
+    const cache = new PageRenderCache();
+
+    for (const page of ISSUE_PAGES) {
+      await cache.getPage(pdf, page, 1);
+    }
+
+    const { hits, misses, cachedPages } = cache.getStats();
+    assert.equal(misses, 2);
+    assert.equal(hits, ISSUE_PAGES.length - 2);
+    assert.equal(cachedPages, 2);
+    await cache.releaseDocument(pdf);
+  });
+
+  it('renders every screenshot when nothing can be kept', async () => {
+    const pdf = await createPdf(2);
+    const uncached = new PageRenderCache(0);
+
+    for (const page of ISSUE_PAGES) {
+      await uncached.getPage(pdf, page, 1);
+    }
+
+    const { hits, misses, cachedPages } = uncached.getStats();
+    assert.equal(misses, ISSUE_PAGES.length);
+    assert.equal(hits, 0);
+    assert.equal(cachedPages, 0);
+    await uncached.releaseDocument(pdf);
+  });
+
+  it('shares one render between concurrent requests for a page', async () => {
+    const pdf = await createPdf(1);
+    const cache = new PageRenderCache();
+
+    const [first, second] = await Promise.all([cache.getPage(pdf, 1, 1), cache.getPage(pdf, 1, 1)]);
+
+    assert.equal(first, second);
+    assert.equal(cache.getStats().misses, 1);
+    await cache.releaseDocument(pdf);
+  });
+
+  it('renders again after the document is released', async () => {
+    const pdf = await createPdf(1);
+    const cache = new PageRenderCache();
+
+    await cache.getPage(pdf, 1, 1);
+    await cache.releaseDocument(pdf);
+    await cache.getPage(pdf, 1, 1);
+
+    const { misses, openDocuments } = cache.getStats();
+    assert.equal(misses, 2);
+    assert.equal(openDocuments, 1);
+    await cache.releaseDocument(pdf);
+  });
+
+  it('rejects pages outside the document without caching the failure', async () => {
+    const pdf = await createPdf(1);
+    const cache = new PageRenderCache();
+
+    await assert.rejects(cache.getPage(pdf, 2, 1), /Page 2 does not exist/);
+
+    assert.equal(cache.getStats().cachedPages, 0);
+    await cache.releaseDocument(pdf);
+  });
+});
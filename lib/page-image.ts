@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import { createCanvas, type Canvas } from 'canvas';
+import type { RenderParameters } from 'pdfjs-dist/types/src/display/api';
+import { loadPdfjs, type BoundingBox } from './pdf-layout';
+
+export interface PageImageOptions {
+  scale?: number;
+  highlight?: BoundingBox; // Region to outline and crop to, in PDF points from the top-left corner
+  padding?: number; // Points of context kept around the highlight
+  quality?: number; // JPEG quality, 0-1
+}
+
+export interface PageRenderCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  cachedPages: number;
+  cachedBytes: number;
+  openDocuments: number;
+}
+
+const DEFAULT_SCALE = 2.0; // Higher scale for better quality
+const DEFAULT_PADDING = 36;
+const DEFAULT_QUALITY = 0.9;
+// Crops smaller than this lose the surrounding sentence, which reviewers need to recognise the spot
+const MIN_CROP_WIDTH = 320;
+const MIN_CROP_HEIGHT = 96;
+const HIGHLIGHT_STROKE = 'rgba(220, 38, 38, 0.9)';
+const HIGHLIGHT_FILL = 'rgba(250, 204, 21, 0.25)';
+// A letter page at scale 2 is about 8MB of RGBA, so the default keeps roughly 16 pages
+const MAX_CACHE_BYTES = (Number(process.env.PAGE_RENDER_CACHE_MB) || 128) * 1024 * 1024;
+const MAX_OPEN_DOCUMENTS = 2;
+
+type RenderedPage = { canvas: Canvas; scale: number; bytes: number };
+
+/**
+ * Expands a box by the padding and minimum size, keeping it on the page
+ */
+const cropRegion = (box: BoundingBox, padding: number, pageWidth: number, pageHeight: number): BoundingBox => {
+  const width = Math.min(pageWidth, Math.max(box.width + padding * 2, MIN_CROP_WIDTH));
+  const height = Math.min(pageHeight, Math.max(box.height + padding * 2, MIN_CROP_HEIGHT));
+  const x = Math.min(Math.max(0, box.x + box.width / 2 - width / 2), pageWidth - width);
+  const y = Math.min(Math.max(0, box.y + box.height / 2 - height / 2), pageHeight - height);
+  return { x, y, width, height };
+};
+
+export class PageRenderCache {
+  // Maps keep insertion order, so the first entry is always the least recently used
+  private pages = new Map<string, Promise<RenderedPage>>();
+  private pageBytes = new Map<string, number>();
+  private documents = new Map<string, Promise<any>>();
+  private checksums = new WeakMap<Buffer, string>();
+  private bytes = 0;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(private maxBytes: number = MAX_CACHE_BYTES) {}
+
+  /**
+   * Returns the rendered page, rendering it only if no earlier call did
+   */
+  async getPage(pdfBuffer: Buffer, pageNumber: number, scale: number = DEFAULT_SCALE): Promise<RenderedPage> {
+    const checksum = this.checksum(pdfBuffer);
+    const key = `${checksum}:${pageNumber}:${scale}`;
+
+    const cached = this.pages.get(key);
+    if (cached) {
+      this.stats.hits++;
+      this.pages.delete(key);
+      this.pages.set(key, cached);
+      return cached;
+    }
+
+    this.stats.misses++;
+    const rendering = this.renderPage(checksum, pdfBuffer, pageNumber, scale);
+    this.pages.set(key, rendering);
+
+    try {
+      const page = await rendering;
+      this.pageBytes.set(key, page.bytes);
+      this.bytes += page.bytes;
+      this.evict();
+      return page;
+    } catch (error) {
+      this.pages.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Drops every cached page and open document for a PDF
+   */
+  async releaseDocument(pdfBuffer: Buffer): Promise<void> {
+    const checksum = this.checksum(pdfBuffer);
+    for (const key of [...this.pages.keys()]) {
+      if (key.startsWith(`${checksum}:`)) this.dropPage(key);
+    }
+    await this.closeDocument(checksum);
+  }
+
+  getStats(): PageRenderCacheStats {
+    return {
+      ...this.stats,
+      cachedPages: this.pages.size,
+      cachedBytes: this.bytes,
+      openDocuments: this.documents.size,
+    };
+  }
+
+  private async renderPage(checksum: string, pdfBuffer: Buffer, pageNumber: number, scale: number): Promise<RenderedPage> {
+    const pdfDocument = await this.openDocument(checksum, pdfBuffer);
+    if (pageNumber < 1 || pageNumber > pdfDocument.numPages) {
+      throw new Error(`Page ${pageNumber} does not exist in PDF`);
+    }
+
+    const page = await pdfDocument.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const canvas = createCanvas(viewport.width, viewport.height);
+
+    await page.render({
+      // node-canvas implements the parts of the DOM context that pdf.js draws with
+      canvasContext: canvas.getContext('2d') as unknown as RenderParameters['canvasContext'],
+      viewport,
+    }).promise;
+    page.cleanup();
+
+    return { canvas, scale, bytes: canvas.width * canvas.height * 4 };
+  }
+
+  /**
+   * Loads each PDF once; only the most recently used documents stay open
+   */
+  private openDocument(checksum: string, pdfBuffer: Buffer): Promise<any> {
+    const open = this.documents.get(checksum);
+    if (open) {
+      this.documents.delete(checksum);
+      this.documents.set(checksum, open);
+      return open;
+    }
+
+    const loading = loadPdfjs().then(pdfjs => pdfjs.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      useSystemFonts: true
+    }).promise);
+    loading.catch(() => this.documents.delete(checksum));
+    this.documents.set(checksum, loading);
+
+    while (this.documents.size > MAX_OPEN_DOCUMENTS) {
+      void this.closeDocument(this.documents.keys().next().value as string);
+    }
+    return loading;
+  }
+
+  private async closeDocument(checksum: string): Promise<void> {
+    const open = this.documents.get(checksum);
+    this.documents.delete(checksum);
+    try {
+      await (await open)?.destroy();
+    } catch {
+      // A document that failed to load has nothing to close
+    }
+  }
+
+  private evict(): void {
+    for (const key of this.pages.keys()) {
+      if (this.bytes <= this.maxBytes) break;
+      // Pages still rendering have no size yet and are needed by whoever asked for them
+      if (!this.pageBytes.has(key)) continue;
+      this.dropPage(key);
+      this.stats.evictions++;
+    }
+  }
+
+  private dropPage(key: string): void {
+    this.bytes -= this.pageBytes.get(key) ?? 0;
+    this.pageBytes.delete(key);
+    this.pages.delete(key);
+  }
+
+  private checksum(pdfBuffer: Buffer): string {
+    let checksum = this.checksums.get(pdfBuffer);
+    if (!checksum) {
+      checksum = crypto.createHash('sha256').update(pdfBuffer).digest('hex');
+      this.checksums.set(pdfBuffer, checksum);
+    }
+    return checksum;
+  }
+}
+
+// Singleton instance
+let pageRenderCacheInstance: PageRenderCache | null = null;
+
+export const getPageRenderCache = (): PageRenderCache => {
+  if (!pageRenderCacheInstance) {
+    pageRenderCacheInstance = new PageRenderCache();
+  }
+  return pageRenderCacheInstance;
+};
+
+/**
+ * Renders a PDF page to JPEG; with a highlight, crops the image around the region and outlines it
+ */
+export async function renderPageImage(
+  pdfBuffer: Buffer,
+  pageNumber: number,
+  options: PageImageOptions = {}
+): Promise<Buffer> {
+  const { scale = DEFAULT_SCALE, highlight, padding = DEFAULT_PADDING, quality = DEFAULT_QUALITY } = options;
+  const { canvas } = await getPageRenderCache().getPage(pdfBuffer, pageNumber, scale);
+
+  if (!highlight) {
+    return canvas.toBuffer('image/jpeg', { quality });
+  }
+
+  // Crops are drawn on their own canvas so the cached page stays clean for the next issue
+  const crop = cropRegion(highlight, padding, canvas.width / scale, canvas.height / scale);
+  const cropped = createCanvas(Math.round(crop.width * scale), Math.round(crop.height * scale));
+  const context = cropped.getContext('2d');
+  context.drawImage(
+    canvas,
+    crop.x * scale,
+    crop.y * scale,
+    crop.width * scale,
+    crop.height * scale,
+    0,
+    0,
+    cropped.width,
+    cropped.height
+  );
+
+  context.fillStyle = HIGHLIGHT_FILL;
+  context.strokeStyle = HIGHLIGHT_STROKE;
+  context.lineWidth = 2 * scale;
+  const inset = 2; // Points between the text and the outline
+  const rect = [
+    (highlight.x - crop.x - inset) * scale,
+    (highlight.y - crop.y - inset) * scale,
+    (highlight.width + inset * 2) * scale,
+    (highlight.height + inset * 2) * scale,
+  ] as const;
+  context.fillRect(...rect);
+  context.strokeRect(...rect);
+
+  return cropped.toBuffer('image/jpeg', { quality });
+}
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignPages, diffDocuments, diffWords, matchChange } from './pdf-diff';
+import type { AnalysisIssue } from './review';
+
+const issue = (overrides: Partial<AnalysisIssue> = {}): AnalysisIssue => ({
+  page: 1,
+  type: 'typo',
+  message: 'Misspelled word',
+  original: 'Partnershp agreement',
+  suggestion: 'Partnership agreement',
+  locationHint: '',
+  ...overrides,
+});
+
+const words = (text: string) => text.split(' ');
+
+const DEFINITIONS = 'Article I Definitions The terms below apply to every capital commitment made to the Fund';
+const SUBSCRIPTION = 'Article II Subscription The investor subscribes for a limited partnership interest in the Fund';
+const WIRE = 'Exhibit A Wire instructions Send capital contributions to the account listed by the administrator';
+
+describe('diffWords', () => {
+  it('keeps shared words and replaces the rest', () => {
+    assert.deepEqual(diffWords(words('the fund closes in May'), words('the fund closes in June')), [
+      { type: 'equal', word: 'the' },
+      { type: 'equal', word: 'fund' },
+      { type: 'equal', word: 'closes' },
+      { type: 'equal', word: 'in' },
+      { type: 'insert', word: 'June' },
+      { type: 'delete', word: 'May' },
+    ]);
+  });
+
+  it('finds the common words between edits', () => {
+    const edits = diffWords(words('fees are 2 percent per year'), words('management fees are 1.5 percent per annum'));
+    assert.deepEqual(edits.filter(edit => edit.type === 'equal').map(edit => edit.word), ['fees', 'are', 'percent', 'per']);
+    assert.deepEqual(edits.filter(edit => edit.type === 'delete').map(edit => edit.word), ['2', 'year']);
+    assert.deepEqual(edits.filter(edit => edit.type === 'insert').map(edit => edit.word), ['management', '1.5', 'annum']);
+  });
+
+  it('replaces the differing middle wholesale past the comparison cap', () => {
+    // 2,001 differing words a side is over 4,000,000 comparisons, so the shared word is not searched for
+    const middle = (prefix: string) => ['shared', ...Array.from({ length: 2000 }, (_, i) => `${prefix}${i}`)];
+    const edits = diffWords(['start', ...middle('p'), 'end'], ['start', ...middle('c').reverse(), 'end']);
+
+    assert.deepEqual(edits.filter(edit => edit.type === 'equal').map(edit => edit.word), ['start', 'end']);
+    assert.equal(edits.filter(edit => edit.type === 'delete').length, 2001);
+    assert.equal(edits.filter(edit => edit.type === 'insert').length, 2001);
+  });
+
+  it('still searches a middle under the cap', () => {
+    const middle = (prefix: string) => ['shared', ...Array.from({ length: 100 }, (_, i) => `${prefix}${i}`)];
+    const edits = diffWords(['start', ...middle('p'), 'end'], ['start', ...middle('c').reverse(), 'end']);
+
+    assert.deepEqual(edits.filter(edit => edit.type === 'equal').map(edit => edit.word), ['start', 'shared', 'end']);
+  });
+});
+
+describe('alignPages', () => {
+  it('pairs unchanged pages in order', () => {
+    assert.deepEqual(alignPages([DEFINITIONS, SUBSCRIPTION], [DEFINITIONS, SUBSCRIPTION]), [
+      { previous: 0, current: 0 },
+      { previous: 1, current: 1 },
+    ]);
+  });
+
+  it('leaves inserted and removed pages unpaired', () => {
+    assert.deepEqual(alignPages([DEFINITIONS, SUBSCRIPTION], [DEFINITIONS, WIRE, SUBSCRIPTION]), [
+      { previous: 0, current: 0 },
+      { previous: null, current: 1 },
+      { previous: 1, current: 2 },
+    ]);
+    assert.deepEqual(alignPages([DEFINITIONS, WIRE, SUBSCRIPTION], [DEFINITIONS, SUBSCRIPTION]), [
+      { previous: 0, current: 0 },
+      { previous: 1, current: null },
+      { previous: 2, current: 1 },
+    ]);
+  });
+
+  it('never pairs pages sharing too few words', () => {
+    assert.deepEqual(alignPages([DEFINITIONS], [WIRE]), [
+      { previous: 0, current: null },
+      { previous: null, current: 0 },
+    ]);
+  });
+});
+
+describe('matchChange', () => {
+  it('is requested when the quoted text is next to the change', () => {
+    assert.equal(matchChange([issue()], 'The  partnershp AGREEMENT is signed by the General Partner', []), 'requested');
+  });
+
+  it('is requested when the change falls inside the quoted text', () => {
+    const quoted = issue({ original: 'The first closing date is May 1, 2026 unless the General Partner extends it' });
+    assert.equal(matchChange([quoted], 'date is May 1,', ['is May']), 'requested');
+  });
+
+  it('is only a page hint when no emailed issue on the page quotes text', () => {
+    assert.equal(matchChange([issue({ original: '' })], 'Fees are 2 percent', ['are 2']), 'page_hint');
+  });
+
+  it('is unrequested when the quoted text is elsewhere or nothing was asked', () => {
+    assert.equal(matchChange([issue(), issue({ original: '' })], 'Fees are 2 percent', ['are 2']), 'unrequested');
+    assert.equal(matchChange([], 'Fees are 2 percent', ['are 2']), 'unrequested');
+  });
+});
+
+describe('diffDocuments', () => {
+  const filler = 'The General Partner may call capital from time to time on ten business days notice to each investor.';
+  const previousPages = [`The Partnershp agreement is signed. ${filler} Fees are 2 percent.`, SUBSCRIPTION];
+  const currentPages = [`The Partnership agreement is signed. ${filler} Fees are 3 percent.`, SUBSCRIPTION];
+
+  it('flags changes away from the emailed issues', () => {
+    const diff = diffDocuments(previousPages, currentPages, [issue()]);
+
+    assert.deepEqual(diff.pages[0].changes, [
+      { deleted: 'Partnershp', inserted: 'Partnership', match: 'requested' },
+      { deleted: '2', inserted: '3', match: 'unrequested' },
+    ]);
+    assert.deepEqual(diff.pages[1].changes, []);
+    assert.equal(diff.changeCount, 2);
+    assert.equal(diff.unrequestedCount, 1);
+    assert.equal(diff.pageHintCount, 0);
+  });
+
+  it('only applies emailed issues to their own page', () => {
+    const diff = diffDocuments(previousPages, currentPages, [issue({ page: 2, original: '' })]);
+
+    assert.equal(diff.unrequestedCount, 2);
+    assert.equal(diff.pageHintCount, 0);
+  });
+});
@@ -0,0 +1,388 @@
+import { getDocumentAccessService, type DocumentOwner } from './document-access';
+import { getDocumentLineageService } from './document-lineage';
+import { fromEncryptedColumns, type EncryptedColumns } from './encryption';
+import { decryptPayload } from './envelope-encryption';
+import { extractPdfText } from './pdf';
+import { auditLog, AuditAction } from './audit-logger';
+import { rehydrateStoredAnalysis } from './pseudonymizer';
+import { jaccardSimilarity } from './ensemble';
+import type { AnalysisIssue, AnalysisResult } from './review';
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+/**
+ * A run of words; insertions and deletions carry the index of the change they belong to
+ */
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+  change?: number;
+}
+
+/**
+ * How a change relates to the issues the review email asked about: 'requested' when an issue quoted text at that
+ * spot, 'page_hint' when the only emailed issues on its page quote no text, 'unrequested' otherwise
+ */
+export type ChangeMatch = 'requested' | 'page_hint' | 'unrequested';
+
+/**
+ * Adjacent insertions and deletions
+ */
+export interface TextChange {
+  deleted: string;
+  inserted: string;
+  match: ChangeMatch;
+}
+
+/**
+ * Two aligned pages, 1-based; previousPage is null for inserted pages and currentPage for removed ones
+ */
+export interface PageDiff {
+  previousPage: number | null;
+  currentPage: number | null;
+  ops: DiffOp[];
+  changes: TextChange[];
+}
+
+export interface DocumentTextDiff {
+  pages: PageDiff[];
+  changeCount: number;
+  unrequestedCount: number;
+  pageHintCount: number;
+}
+
+export interface VersionTextComparison {
+  previousVersion: { id: string; fileName: string; versionNumber: number };
+  currentVersion: { id: string; fileName: string; versionNumber: number };
+  // Issues of the previous version covered by a sent review email; null when no email was sent for it
+  emailedIssueCount: number | null;
+  diff: DocumentTextDiff;
+}
+
+/**
+ * Why two versions cannot be compared; missingVersions are the version numbers whose PDF is not stored
+ */
+export interface ComparisonUnavailable {
+  unavailable: 'first_version' | 'pdf_not_stored';
+  missingVersions: number[];
+}
+
+interface StoredVersion extends EncryptedColumns {
+  id: string;
+  user_input: string;
+  ai_result: AnalysisResult;
+  emailed_issues: number[] | null;
+}
+
+// Pages sharing fewer words than this are never aligned with each other
+const MIN_PAGE_SIMILARITY = 0.3;
+// Word diffs beyond this many comparisons fall back to replacing the differing middle wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+// Words either side of a change that an issue's quoted text may fall in
+const CHANGE_CONTEXT_WORDS = 10;
+
+const STORED_VERSION_COLUMNS =
+  'id, user_input, ai_result, emailed_issues, encrypted_document, encryption_iv, encryption_auth_tag, encryption_key_id, data_key_id';
+
+const tokenize = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Pairs pages of two versions in order, leaving inserted and removed pages unpaired; maximizes total word overlap
+ */
+export const alignPages = (
+  previousPages: string[],
+  currentPages: string[]
+): Array<{ previous: number | null; current: number | null }> => {
+  const previousWords = previousPages.map(page => new Set(tokenize(page.toLowerCase())));
+  const currentWords = currentPages.map(page => new Set(tokenize(page.toLowerCase())));
+  const rows = previousPages.length;
+  const columns = currentPages.length;
+
+  const similarity = previousWords.map(words => currentWords.map(other => jaccardSimilarity(words, other)));
+  const score: number[][] = Array.from({ length: rows + 1 }, () => new Array(columns + 1).fill(0));
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= columns; j++) {
+      const paired = similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY ? score[i - 1][j - 1] + similarity[i - 1][j - 1] : -1;
+      score[i][j] = Math.max(paired, score[i - 1][j], score[i][j - 1]);
+    }
+  }
+
+  const alignment: Array<{ previous: number | null; current: number | null }> = [];
+  let i = rows;
+  let j = columns;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 && j > 0 &&
+      similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY &&
+      score[i][j] === score[i - 1][j - 1] + similarity[i - 1][j - 1]
+    ) {
+      alignment.push({ previous: i - 1, current: j - 1 });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || score[i][j] === score[i][j - 1])) {
+      alignment.push({ previous: null, current: j - 1 });
+      j--;
+    } else {
+      alignment.push({ previous: i - 1, current: null });
+      i--;
+    }
+  }
+  return alignment.reverse();
+};
+
+/**
+ * Word-level edit script from one text to another, as single-word operations
+ */
+export const diffWords = (previous: string[], current: string[]): Array<{ type: DiffOpType; word: string }> => {
+  let prefix = 0;
+  while (prefix < previous.length && prefix < current.length && previous[prefix] === current[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < current.length - prefix &&
+    previous[previous.length - 1 - suffix] === current[current.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = previous.slice(prefix, previous.length - suffix);
+  const b = current.slice(prefix, current.length - suffix);
+  const middle: Array<{ type: DiffOpType; word: string }> = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    a.forEach(word => middle.push({ type: 'delete', word }));
+    b.forEach(word => middle.push({ type: 'insert', word }));
+  } else {
+    // Longest common subsequence, filled from the end so the walk below goes forwards
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: 'equal', word: a[i] });
+        i++;
+        j++;
+      } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        middle.push({ type: 'insert', word: b[j] });
+        j++;
+      } else {
+        middle.push({ type: 'delete', word: a[i] });
+        i++;
+      }
+    }
+  }
+
+  return [
+    ...previous.slice(0, prefix).map(word => ({ type: 'equal' as const, word })),
+    ...middle,
+    ...previous.slice(previous.length - suffix).map(word => ({ type: 'equal' as const, word })),
+  ];
+};
+
+/**
+ * Whether a change sits where one of the page's issues pointed: the issue's quoted text is next to the change,
+ * or the change falls inside the quoted text. Issues without quoted text only hint that something on the page
+ * was asked about, and only when no issue on the page quotes text
+ */
+export const matchChange = (issues: AnalysisIssue[], context: string, anchors: string[]): ChangeMatch => {
+  const quoted = issues.map(issue => normalize(issue.original || '')).filter(Boolean);
+  if (quoted.some(original =>
+    normalize(context).includes(original) || anchors.some(anchor => original.includes(normalize(anchor)))
+  )) {
+    return 'requested';
+  }
+  return quoted.length === 0 && issues.length > 0 ? 'page_hint' : 'unrequested';
+};
+
+/**
+ * The change's deleted words joined with the word before or after them; a lone word is too common to place a change
+ */
+const anchorsFor = (previousWords: string[], index: number, deleted: string[]): string[] =>
+  [
+    [previousWords[index - 1], ...deleted],
+    [...deleted, previousWords[index + deleted.length]],
+  ]
+    .map(words => words.filter(Boolean))
+    .filter(words => words.length >= 2)
+    .map(words => words.join(' '));
+
+/**
+ * Compares one aligned page pair; previousIssues are the emailed issues for the previous page
+ */
+export const diffPage = (
+  previousText: string,
+  currentText: string,
+  previousIssues: AnalysisIssue[]
+): { ops: DiffOp[]; changes: TextChange[] } => {
+  const previousWords = tokenize(previousText);
+  const edits = diffWords(previousWords, tokenize(currentText));
+
+  const ops: DiffOp[] = [];
+  const changes: TextChange[] = [];
+  let previousIndex = 0;
+  let k = 0;
+
+  while (k < edits.length) {
+    if (edits[k].type === 'equal') {
+      const words: string[] = [];
+      while (k < edits.length && edits[k].type === 'equal') {
+        words.push(edits[k++].word);
+      }
+      ops.push({ type: 'equal', text: words.join(' ') });
+      previousIndex += words.length;
+      continue;
+    }
+
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (k < edits.length && edits[k].type !== 'equal') {
+      (edits[k].type === 'delete' ? deleted : inserted).push(edits[k++].word);
+    }
+
+    const change = changes.length;
+    const context = previousWords
+      .slice(Math.max(0, previousIndex - CHANGE_CONTEXT_WORDS), previousIndex + deleted.length + CHANGE_CONTEXT_WORDS)
+      .join(' ');
+    changes.push({
+      deleted: deleted.join(' '),
+      inserted: inserted.join(' '),
+      match: matchChange(previousIssues, context, anchorsFor(previousWords, previousIndex, deleted)),
+    });
+    if (deleted.length > 0) ops.push({ type: 'delete', text: deleted.join(' '), change });
+    if (inserted.length > 0) ops.push({ type: 'insert', text: inserted.join(' '), change });
+    previousIndex += deleted.length;
+  }
+
+  return { ops, changes };
+};
+
+/**
+ * Page-aligned, word-level diff of two versions' text; changes the emailed issues of the previous version did not
+ * ask for are flagged
+ */
+export const diffDocuments = (
+  previousPages: string[],
+  currentPages: string[],
+  previousIssues: AnalysisIssue[]
+): DocumentTextDiff => {
+  const pages = alignPages(previousPages, currentPages).map(({ previous, current }): PageDiff => {
+    const issues = previous === null ? [] : previousIssues.filter(issue => issue.page === previous + 1);
+    const { ops, changes } = diffPage(
+      previous === null ? '' : previousPages[previous],
+      current === null ? '' : currentPages[current],
+      issues
+    );
+    return {
+      previousPage: previous === null ? null : previous + 1,
+      currentPage: current === null ? null : current + 1,
+      ops,
+      changes,
+    };
+  });
+
+  const changes = pages.flatMap(page => page.changes);
+  return {
+    pages,
+    changeCount: changes.length,
+    unrequestedCount: changes.filter(change => change.match === 'unrequested').length,
+    pageHintCount: changes.filter(change => change.match === 'page_hint').length,
+  };
+};
+
+export class DocumentDiffService {
+  /**
+   * Text diff between a document and its previous version, or why there is none; null when the viewer cannot see
+   * both versions. Analyses saved by the review jobs API before it kept the PDF cannot be compared
+   */
+  async compareWithPreviousVersion(
+    documentId: string,
+    viewer: DocumentOwner
+  ): Promise<VersionTextComparison | ComparisonUnavailable | null> {
+    const lineage = await getDocumentLineageService().getLineage(documentId, viewer);
+    if (!lineage) {
+      return null;
+    }
+    if (!lineage.previousVersion) {
+      return { unavailable: 'first_version', missingVersions: [] };
+    }
+
+    const access = getDocumentAccessService();
+    const [previous, current] = await Promise.all([
+      access.getDocument<StoredVersion>(lineage.previousVersion.id, viewer, STORED_VERSION_COLUMNS),
+      access.getDocument<StoredVersion>(documentId, viewer, STORED_VERSION_COLUMNS),
+    ]);
+    if (!previous || !current) {
+      return null;
+    }
+
+    const missingVersions = [
+      { version: previous, versionNumber: lineage.previousVersion.version_number },
+      { version: current, versionNumber: lineage.versionNumber },
+    ]
+      .filter(({ version }) => !version.encrypted_document)
+      .map(({ versionNumber }) => versionNumber);
+    if (missingVersions.length > 0) {
+      return { unavailable: 'pdf_not_stored', missingVersions };
+    }
+
+    const [previousText, currentText] = await Promise.all([
+      this.loadPages(previous),
+      this.loadPages(current),
+    ]);
+
+    // Quoted text is matched against the PDF, so tokens are replaced by the real values first
+    const previousIssues = (await rehydrateStoredAnalysis(previous.id, viewer, previous.ai_result ?? { issues: [] })).issues;
+    const emailed = new Set(previous.emailed_issues ?? []);
+
+    for (const version of [previous, current]) {
+      await auditLog(
+        AuditAction.DOCUMENT_ACCESS,
+        { userId: viewer.userId, documentId: version.id },
+        { action: 'compared_versions', compared_with: version.id === documentId ? previous.id : documentId }
+      );
+    }
+
+    return {
+      previousVersion: {
+        id: previous.id,
+        fileName: previous.user_input,
+        versionNumber: lineage.previousVersion.version_number,
+      },
+      currentVersion: {
+        id: current.id,
+        fileName: current.user_input,
+        versionNumber: lineage.versionNumber,
+      },
+      emailedIssueCount: previous.emailed_issues ? emailed.size : null,
+      diff: diffDocuments(previousText, currentText, previousIssues.filter((_, index) => emailed.has(index))),
+    };
+  }
+
+  private async loadPages(version: StoredVersion): Promise<string[]> {
+    const { pages } = await extractPdfText(await decryptPayload(fromEncryptedColumns(version)));
+    return pages;
+  }
+}
+
+// Singleton instance
+let documentDiffInstance: DocumentDiffService | null = null;
+
+export const getDocumentDiffService = (): DocumentDiffService => {
+  if (!documentDiffInstance) {
+    documentDiffInstance = new DocumentDiffService();
+  }
+  return documentDiffInstance;
+};
@@ -0,0 +1,235 @@
+import type { TextItem, TextStyle } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Rectangle in PDF points with the origin at the top-left corner of the page
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextRun {
+  text: string;
+  bbox: BoundingBox;
+  fontName: string; // PostScript name without the subset prefix, e.g. "Times-Bold"
+  fontFamily: string; // Generic family reported by pdf.js, e.g. "serif"
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface LayoutLine {
+  text: string;
+  bbox: BoundingBox;
+  runs: TextRun[];
+}
+
+export interface LayoutPage {
+  pageNumber: number; // 1-based physical page
+  label: string | null; // Printed page number: the PDF page label, or a number found in the header/footer
+  width: number;
+  height: number;
+  lines: LayoutLine[];
+}
+
+export interface DocumentLayout {
+  pages: LayoutPage[];
+}
+
+export interface LayoutOptions {
+  pages?: number[]; // 1-based pages to extract; all pages when omitted
+}
+
+const BOLD_RE = /bold|black|heavy|semibold|demi/i;
+const ITALIC_RE = /italic|oblique/i;
+// "12", "iv", "Page 3", "Page 3 of 40", "- 7 -"
+const PRINTED_NUMBER_RE = /^[-–\s]*(?:page\s+)?(\d{1,4}|[ivxlc]{1,7})(?:\s+of\s+\d+)?[-–\s]*$/i;
+// Header and footer bands, as a share of the page height
+const MARGIN_BAND = 0.1;
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = -0.2;
+
+type FontInfo = { name: string; bold: boolean; italic: boolean };
+
+/**
+ * Loads the pdf.js build that runs in Node without a worker
+ */
+export const loadPdfjs = () => import('pdfjs-dist/legacy/build/pdf.mjs');
+
+/**
+ * Smallest box containing all the given boxes
+ */
+export const unionBoxes = (boxes: BoundingBox[]): BoundingBox => {
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Reads the real font behind a pdf.js font id; fonts are only available after the page's operator list is loaded
+ */
+const resolveFont = (page: any, fontId: string, cache: Map<string, FontInfo>): FontInfo => {
+  const cached = cache.get(fontId);
+  if (cached) return cached;
+
+  let font: any = null;
+  try {
+    font = page.commonObjs.has(fontId) ? page.commonObjs.get(fontId) : null;
+  } catch {
+    font = null;
+  }
+  const name = String(font?.name || fontId).replace(/^[A-Z]{6}\+/, '');
+  const info = {
+    name,
+    bold: !!font?.bold || !!font?.black || BOLD_RE.test(name),
+    italic: !!font?.italic || ITALIC_RE.test(name),
+  };
+  cache.set(fontId, info);
+  return info;
+};
+
+/**
+ * Groups runs that share a baseline into lines, top to bottom and left to right
+ */
+const groupLines = (runs: Array<TextRun & { baseline: number }>): LayoutLine[] => {
+  const sorted = [...runs].sort((a, b) => a.baseline - b.baseline || a.bbox.x - b.bbox.x);
+  const groups: Array<Array<TextRun & { baseline: number }>> = [];
+
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    const tolerance = Math.max(2, run.fontSize * 0.3);
+    if (current && Math.abs(current[0].baseline - run.baseline) <= tolerance) {
+      current.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  return groups.map(group => {
+    const ordered = group.sort((a, b) => a.bbox.x - b.bbox.x);
+    let text = '';
+    ordered.forEach((run, i) => {
+      const previous = ordered[i - 1];
+      // Separate runs that are visibly apart but were not joined by a space in the content stream
+      if (previous && run.bbox.x - (previous.bbox.x + previous.bbox.width) > run.fontSize * 0.2 && !/\s$/.test(text)) {
+        text += ' ';
+      }
+      text += run.text;
+    });
+    const lineRuns = ordered.map(({ baseline, ...run }) => run);
+    return { text: text.trim(), bbox: unionBoxes(lineRuns.map(run => run.bbox)), runs: lineRuns };
+  });
+};
+
+/**
+ * The page number in a line that holds nothing else, e.g. "Page 3 of 40" gives "3"
+ */
+export const matchPrintedNumber = (text: string): string | null => text.match(PRINTED_NUMBER_RE)?.[1] ?? null;
+
+/**
+ * Finds a page number printed alone in the header or footer
+ */
+const findPrintedNumber = (lines: LayoutLine[], height: number): string | null => {
+  const candidates = lines.filter(line =>
+    line.bbox.y > height * (1 - MARGIN_BAND) || line.bbox.y + line.bbox.height < height * MARGIN_BAND
+  );
+  // Footers are more common than headers, so look from the bottom up
+  for (const line of candidates.reverse()) {
+    const number = matchPrintedNumber(line.text);
+    if (number) return number;
+  }
+  return null;
+};
+
+/**
+ * Extracts pages, lines and text runs with positions and font information
+ */
+export async function extractPdfLayout(buf: Buffer, options: LayoutOptions = {}): Promise<DocumentLayout> {
+  const pdfjs = await loadPdfjs();
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(buf),
+    useSystemFonts: true,
+  }).promise;
+
+  try {
+    const pageLabels = await document.getPageLabels();
+    const fontCache = new Map<string, FontInfo>();
+    const pageNumbers = options.pages
+      ? options.pages.filter(n => n >= 1 && n <= document.numPages)
+      : Array.from({ length: document.numPages }, (_, i) => i + 1);
+
+    const pages: LayoutPage[] = [];
+    for (const pageNumber of pageNumbers) {
+      const page = await document.getPage(pageNumber);
+      // The viewport applies the page's /Rotate and crop box, so boxes match the rendered page image
+      const viewport = page.getViewport({ scale: 1 });
+      const { width, height } = viewport;
+      const [textContent] = await Promise.all([page.getTextContent(), page.getOperatorList()]);
+      const styles: Record<string, TextStyle> = textContent.styles;
+
+      const runs: Array<TextRun & { baseline: number }> = [];
+      for (const item of textContent.items as TextItem[]) {
+        if (!item.str || !item.str.trim()) continue;
+
+        const [a, b, c, d, e, f] = item.transform;
+        const fontSize = Math.hypot(a, b) || Math.abs(d) || item.height;
+        const style = styles[item.fontName];
+        const ascent = style?.ascent || DEFAULT_ASCENT;
+        const descent = style?.descent || DEFAULT_DESCENT;
+        const font = resolveFont(page, item.fontName, fontCache);
+
+        // Corners of the run in PDF space, along the text direction and its up vector, mapped into the viewport
+        const across = Math.hypot(a, b) || 1;
+        const up = Math.hypot(c, d) || 1;
+        const corners = [0, item.width].flatMap(along => [descent, ascent].map(rise => viewport.convertToViewportPoint(
+          e + (a / across) * along + (c / up) * rise * fontSize,
+          f + (b / across) * along + (d / up) * rise * fontSize
+        )));
+        const xs = corners.map(([x]) => x);
+        const ys = corners.map(([, y]) => y);
+        const baseline = viewport.convertToViewportPoint(e, f)[1];
+
+        runs.push({
+          text: item.str,
+          bbox: {
+            x: Math.min(...xs),
+            y: Math.min(...ys),
+            width: Math.max(...xs) - Math.min(...xs),
+            height: Math.max(...ys) - Math.min(...ys),
+          },
+          fontName: font.name,
+          fontFamily: style?.fontFamily || 'sans-serif',
+          fontSize: Number(fontSize.toFixed(2)),
+          bold: font.bold,
+          italic: font.italic,
+          baseline,
+        });
+      }
+
+      const lines = groupLines(runs);
+      pages.push({
+        pageNumber,
+        label: pageLabels?.[pageNumber - 1] || findPrintedNumber(lines, height),
+        width,
+        height,
+        lines,
+      });
+      page.cleanup();
+    }
+
+    return { pages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Flattens a layout into one string per page, one line per text line, for the text-based rules
+ */
+export function layoutToPageText(layout: DocumentLayout): string[] {
+  return layout.pages.map(page => page.lines.map(line => line.text).join('\n'));
+}
@@ -1,7 +1,58 @@
 import pdf from 'pdf-parse';
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * Renders a page the same way pdf-parse does by default: items on the same baseline are joined, new baselines start a new line
+ */
+const renderPageText = async (pageData: any): Promise<string> => {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+};
+
 export async function extractPdfText(buf: Buffer): Promise<{ pages: string[] }> {
-  const d = await pdf(buf);
+  // pdf-parse joins pages with blank lines, so capture each page as it is rendered. Pages are stored
+  // by index: pdf-parse swallows a failed page, which must stay an empty page rather than shift the rest
+  const rendered: string[] = [];
+  const d = await pdf(buf, {
+    pagerender: async (pageData: any) => {
+      const text = await renderPageText(pageData);
+      rendered[pageData.pageIndex] = text;
+      return text;
+    },
+  });
+  if (rendered.length > 0) {
+    return { pages: Array.from({ length: Math.max(d.numpages, rendered.length) }, (_, index) => rendered[index] ?? '') };
+  }
   const raw = d.text || '';
   const pages = raw.includes('\f') ? raw.split('\f') : [raw];
   return { pages };
 }
+
+/**
+ * Copies an inclusive, 1-based page range into a new PDF
+ */
+export async function extractPdfPages(buf: Buffer, startPage: number, endPage: number): Promise<Buffer> {
+  const source = await PDFDocument.load(buf, { ignoreEncryption: true });
+  const target = await PDFDocument.create();
+  const last = Math.min(endPage, source.getPageCount());
+  const indices = [];
+  for (let i = Math.max(1, startPage); i <= last; i++) {
+    indices.push(i - 1);
+  }
+  const copied = await target.copyPages(source, indices);
+  copied.forEach(page => target.addPage(page));
+  return Buffer.from(await target.save());
+}
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyTokenMap, pseudonymize, rehydrate, rehydrateAnalysis, type TokenMap } from './pseudonymizer';
+import type { AnalysisResult } from './review';
+
+const INVESTORS = [
+  'Alice Adams', 'Bruno Baker', 'Carla Chen', 'Dmitri Diaz', 'Elena Evans',
+  'Farid Fox', 'Grace Gupta', 'Hiro Hall', 'Ines Ito', 'Jonas Jung',
+];
+const ROSTER = INVESTORS.map(name => `Investor: ${name}`).join('\n');
+
+describe('pseudonymize', () => {
+  it('gives each distinct value its own token and repeated values the same one', () => {
+    const { sanitization, tokenMap } = pseudonymize(
+      'Investor: Alice Adams\nSubscriber: Bruno Baker\nInvestor: Alice Adams',
+      { packs: ['investor'] }
+    );
+
+    assert.equal(sanitization.sanitizedContent, 'Investor: [INVESTOR_1]\nSubscriber: [INVESTOR_2]\nInvestor: [INVESTOR_1]');
+    assert.deepEqual(tokenMap, { INVESTOR_1: 'Alice Adams', INVESTOR_2: 'Bruno Baker' });
+    assert.deepEqual(sanitization.redactions.map(redaction => redaction.type), ['[INVESTOR_1]', '[INVESTOR_2]', '[INVESTOR_1]']);
+  });
+
+  it('round-trips through rehydrate', () => {
+    const { sanitization, tokenMap } = pseudonymize(ROSTER, { packs: ['investor'] });
+
+    assert.equal(Object.keys(tokenMap).length, 10);
+    assert.equal(rehydrate(sanitization.sanitizedContent, tokenMap), ROSTER);
+  });
+});
+
+describe('rehydrate', () => {
+  const { tokenMap } = pseudonymize(ROSTER, { packs: ['investor'] });
+
+  it('restores bracketed and bare tokens', () => {
+    assert.equal(rehydrate('Signed by [INVESTOR_3] for INVESTOR_4.', tokenMap), 'Signed by Carla Chen for Dmitri Diaz.');
+  });
+
+  it('tells INVESTOR_1 from INVESTOR_10', () => {
+    assert.equal(rehydrate('[INVESTOR_10], INVESTOR_10 and INVESTOR_1', tokenMap), 'Jonas Jung, Jonas Jung and Alice Adams');
+  });
+
+  it('leaves unknown tokens and partial matches alone', () => {
+    assert.equal(rehydrate('[INVESTOR_11] and INVESTOR_1A', tokenMap), '[INVESTOR_11] and INVESTOR_1A');
+  });
+
+  it('restores every text field of an analysis', () => {
+    const result: AnalysisResult = {
+      fileName: 'sub-doc.pdf',
+      issues: [{
+        page: 1,
+        type: 'logic_point',
+        message: 'Confirm INVESTOR_10 signs alone',
+        original: 'Investor: [INVESTOR_10]',
+        suggestion: 'Ask [INVESTOR_10]',
+        locationHint: 'Signature block of INVESTOR_1',
+      }],
+      summary: { issueCount: 1, pagesAffected: [1] },
+      warnings: ['issues[0].page: [INVESTOR_2]'],
+    };
+
+    const rehydrated = rehydrateAnalysis(result, tokenMap);
+    assert.deepEqual(rehydrated.issues[0], {
+      ...result.issues[0],
+      message: 'Confirm Jonas Jung signs alone',
+      original: 'Investor: Jonas Jung',
+      suggestion: 'Ask Jonas Jung',
+      locationHint: 'Signature block of Alice Adams',
+    });
+    assert.deepEqual(rehydrated.warnings, ['issues[0].page: Bruno Baker']);
+  });
+});
+
+describe('applyTokenMap', () => {
+  it('inverts rehydrate for bracketed tokens', () => {
+    const { sanitization, tokenMap } = pseudonymize(ROSTER, { packs: ['investor'] });
+    assert.equal(applyTokenMap(rehydrate(sanitization.sanitizedContent, tokenMap), tokenMap), sanitization.sanitizedContent);
+  });
+
+  it('prefers the longest value when one contains another', () => {
+    const tokenMap: TokenMap = { INVESTOR_1: 'Ann Lee', INVESTOR_2: 'Ann Lee Smith' };
+    assert.equal(applyTokenMap('Ann Lee Smith and Ann Lee', tokenMap), '[INVESTOR_2] and [INVESTOR_1]');
+  });
+
+  it('returns text unchanged without a token map', () => {
+    assert.equal(applyTokenMap('Investor: Ann Lee', {}), 'Investor: Ann Lee');
+  });
+});
@@ -0,0 +1,160 @@
+import { DocumentSanitizer, type SanitizationOptions, type SanitizationResult } from './document-sanitizer';
+import { encryptWithDataKey, decryptPayload } from './envelope-encryption';
+import type { EncryptionResult } from './encryption';
+import type { AnalysisResult } from './review';
+import { getDocumentAccessService, type DocumentOwner } from './document-access';
+
+/**
+ * Maps each token (without brackets, e.g. INVESTOR_1) to the value it replaced; never leaves the server unencrypted
+ */
+export type TokenMap = Record<string, string>;
+
+export interface PseudonymizationResult {
+  sanitization: SanitizationResult; // sanitizedContent holds the tokens; redactions name the token each value became
+  tokenMap: TokenMap;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Applies a string transform to every string inside a JSON-like value
+ */
+const mapStrings = <T>(value: T, transform: (text: string) => string): T => {
+  if (typeof value === 'string') return transform(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Replaces each distinct sensitive value with a stable token such as [INVESTOR_1]; repeated values share a token
+ */
+export function pseudonymize(content: string, options: SanitizationOptions = {}): PseudonymizationResult {
+  const sanitizer = DocumentSanitizer.forOptions(options);
+  const matches = sanitizer.findMatches(content);
+
+  const tokenMap: TokenMap = {};
+  const tokensByValue = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  let pseudonymizedContent = '';
+  let position = 0;
+  const redactions = matches.map(match => {
+    const key = `${match.tokenLabel}|${match.text.replace(/\s+/g, ' ').trim()}`;
+    let token = tokensByValue.get(key);
+    if (!token) {
+      const count = (counters.get(match.tokenLabel) ?? 0) + 1;
+      counters.set(match.tokenLabel, count);
+      token = `${match.tokenLabel}_${count}`;
+      tokensByValue.set(key, token);
+      tokenMap[token] = match.text;
+    }
+
+    pseudonymizedContent += `${content.slice(position, match.start)}[${token}]`;
+    position = match.end;
+    return { ...match, type: `[${token}]` };
+  });
+  pseudonymizedContent += content.slice(position);
+
+  return {
+    sanitization: {
+      sanitizedContent: pseudonymizedContent,
+      detectedPatterns: sanitizer.getSanitizationPreview(content),
+      redactions
+    },
+    tokenMap
+  };
+}
+
+/**
+ * Puts the real values back in place of tokens; models sometimes drop the brackets, so bare tokens are restored too
+ */
+export function rehydrate(text: string, tokenMap: TokenMap): string {
+  const tokens = Object.keys(tokenMap);
+  if (tokens.length === 0 || !text) return text;
+
+  const pattern = new RegExp(`\\[?\\b(${tokens.map(escapeRegExp).join('|')})\\b\\]?`, 'g');
+  return text.replace(pattern, (_, token: string) => tokenMap[token]);
+}
+
+/**
+ * Swaps known real values for their tokens, so text built from rehydrated results can go back to a provider
+ */
+export function applyTokenMap(text: string, tokenMap: TokenMap): string {
+  const entries = Object.entries(tokenMap).sort((a, b) => b[1].length - a[1].length);
+  if (entries.length === 0 || !text) return text;
+
+  const tokensByValue = new Map(entries.map(([token, value]) => [value, token]));
+  const pattern = new RegExp(entries.map(([, value]) => escapeRegExp(value)).join('|'), 'g');
+  return text.replace(pattern, value => `[${tokensByValue.get(value)}]`);
+}
+
+/**
+ * Restores real values in every text field of an analysis result
+ */
+export function rehydrateAnalysis<T extends Pick<AnalysisResult, 'issues' | 'warnings'>>(result: T, tokenMap: TokenMap): T {
+  return {
+    ...result,
+    issues: result.issues.map(issue => ({
+      ...issue,
+      message: rehydrate(issue.message, tokenMap),
+      original: rehydrate(issue.original, tokenMap),
+      suggestion: rehydrate(issue.suggestion, tokenMap),
+      locationHint: rehydrate(issue.locationHint, tokenMap),
+    })),
+    warnings: result.warnings?.map(warning => rehydrate(warning, tokenMap)),
+  };
+}
+
+/**
+ * Pseudonymizes every string in a provider request
+ */
+export const pseudonymizeStrings = <T>(value: T, tokenMap: TokenMap): T =>
+  mapStrings(value, text => applyTokenMap(text, tokenMap));
+
+/**
+ * Rehydrates every string in a provider response
+ */
+export const rehydrateStrings = <T>(value: T, tokenMap: TokenMap): T =>
+  mapStrings(value, text => rehydrate(text, tokenMap));
+
+/**
+ * Encrypts a token map with the document's data key, so shredding the document also destroys its map
+ */
+export const encryptTokenMap = (tokenMap: TokenMap, dataKeyId: string): Promise<EncryptionResult> => {
+  return encryptWithDataKey(Buffer.from(JSON.stringify(tokenMap), 'utf8'), dataKeyId);
+};
+
+/**
+ * Loads the token map of a document the viewer can see; null when the document was not pseudonymized
+ */
+export async function loadTokenMap(documentId: string, viewer: DocumentOwner): Promise<TokenMap | null> {
+  const data = await getDocumentAccessService().getDocument<{ pseudonym_map: EncryptionResult | null }>(
+    documentId,
+    viewer,
+    'pseudonym_map'
+  );
+  if (!data?.pseudonym_map) {
+    return null;
+  }
+
+  const decrypted = await decryptPayload(data.pseudonym_map);
+  return JSON.parse(decrypted.toString('utf8'));
+}
+
+/**
+ * Stored results keep their tokens so real values never sit in plaintext columns or the search index;
+ * puts the real values back for a viewer of the document
+ */
+export async function rehydrateStoredAnalysis<T extends Pick<AnalysisResult, 'issues' | 'warnings'>>(
+  documentId: string,
+  viewer: DocumentOwner,
+  result: T
+): Promise<T> {
+  const tokenMap = await loadTokenMap(documentId, viewer);
+  return tokenMap ? rehydrateAnalysis(result, tokenMap) : result;
+}
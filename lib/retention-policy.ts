@@ -1,7 +1,8 @@
 import { createServerSupabase } from './supabaseServer';
 import { DocumentClassification } from './document-classification';
 import { auditLog, AuditAction, type AuditContext } from './audit-logger';
-import { getSecureScreenshotManager } from './secure-screenshot';
+import { deleteDocumentArtifacts, DOCUMENT_ARTIFACT_COLUMNS } from './document-cleanup';
+import { shredDataKey } from './envelope-encryption';
 
 export interface RetentionPolicy {
   id: string;
@@ -29,6 +30,11 @@ export interface DocumentRetention {
   metadata?: Record<string, any>;
 }
 
+export interface ScheduledRetention {
+  id: string;
+  expiresAt: string;
+}
+
 export interface RetentionStats {
   totalDocuments: number;
   pendingDeletion: number;
@@ -97,7 +103,7 @@ export class RetentionPolicyManager {
     fileName: string,
     classification: DocumentClassification,
     customRetentionDays?: number
-  ): Promise<string | null> {
+  ): Promise<ScheduledRetention | null> {
     try {
       const policy = await this.getPolicyForClassification(classification);
       if (!policy) {
@@ -151,7 +157,7 @@ export class RetentionPolicyManager {
         }
       );
 
-      return data?.id || null;
+      return data?.id ? { id: data.id, expiresAt: expiresAt.toISOString() } : null;
     } catch (error) {
       console.error('Error scheduling document retention:', error);
       return null;
@@ -499,16 +505,33 @@ export class RetentionPolicyManager {
 
   private async deleteDocument(retention: DocumentRetention): Promise<void> {
     try {
+      // Destroying the data key makes the document and its screenshots unreadable, including copies in backups
+      const { data: document, error: documentError } = await this.supabase
+        .from('demo_requests')
+        .select(`${DOCUMENT_ARTIFACT_COLUMNS}, data_key_id`)
+        .eq('id', retention.document_id)
+        .maybeSingle();
+
+      if (documentError) {
+        throw documentError;
+      }
+
+      // Screenshots and review jobs go before the document row, which would unlink the jobs
+      const artifacts = document
+        ? await deleteDocumentArtifacts(document)
+        : { screenshotsDeleted: 0, reviewJobsDeleted: 0 };
+
+      const cryptoShredded = !!document?.data_key_id;
+      if (document?.data_key_id) {
+        await shredDataKey(document.data_key_id);
+      }
+
       // Delete from main documents table
       await this.supabase
         .from('demo_requests')
         .delete()
         .eq('id', retention.document_id);
 
-      // Clean up any associated screenshots
-      const screenshotManager = getSecureScreenshotManager();
-      await screenshotManager.cleanupExpiredScreenshots();
-
       // Update retention status
       await this.supabase
         .from('document_retention')
@@ -516,7 +539,10 @@ export class RetentionPolicyManager {
           status: 'deleted',
           metadata: {
             ...retention.metadata,
-            deleted_at: new Date().toISOString()
+            deleted_at: new Date().toISOString(),
+            crypto_shredded: cryptoShredded,
+            screenshots_deleted: artifacts.screenshotsDeleted,
+            review_jobs_deleted: artifacts.reviewJobsDeleted
           }
         })
         .eq('id', retention.id);
@@ -564,7 +590,7 @@ export const scheduleDocumentRetention = (
   fileName: string,
   classification: DocumentClassification,
   customRetentionDays?: number
-): Promise<string | null> => {
+): Promise<ScheduledRetention | null> => {
   return getRetentionManager().scheduleDocumentRetention(
     documentId,
     userId,
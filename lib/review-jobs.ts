@@ -0,0 +1,461 @@
+import { createServerSupabase } from './supabaseServer';
+import { fromEncryptedColumns, toEncryptedColumns, type EncryptedColumns, type EncryptionResult } from './encryption';
+import { createDataKey, encryptWithDataKey, decryptPayload, shredDataKey } from './envelope-encryption';
+import type { AnalysisResult } from './review';
+import { resolveDocumentVersion } from './document-lineage';
+import { getDocumentAccessService, type DocumentOwner } from './document-access';
+import { rehydrateStoredAnalysis } from './pseudonymizer';
+import {
+  getSecureReviewService,
+  providerForConsent,
+  toSecureAnalysisResult,
+  type EnhancedConsentData,
+  type SecureAnalysis,
+  type SecureAnalysisResult,
+  type SecureReviewContext,
+  type SecureReviewOutcome
+} from './secure-review';
+
+export type ReviewJobStage = 'uploaded' | 'extracted' | 'analyzed' | 'saved' | 'screenshotted';
+export type ReviewJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Each stage is a step of the secure review pipeline; the document is saved before its screenshots,
+// which are encrypted with its data key and linked to it
+export const REVIEW_JOB_STAGES: Array<{ stage: ReviewJobStage; label: string }> = [
+  { stage: 'uploaded', label: 'Uploaded' },
+  { stage: 'extracted', label: 'Text extracted and classified' },
+  { stage: 'analyzed', label: 'Analyzed' },
+  { stage: 'saved', label: 'Saved to history' },
+  { stage: 'screenshotted', label: 'Screenshots generated' },
+];
+
+const FINAL_STAGE = REVIEW_JOB_STAGES[REVIEW_JOB_STAGES.length - 1].stage;
+
+const MAX_STAGE_ATTEMPTS = 3;
+// A stage can outlast any fixed lease (every page window may retry the model), so the worker renews
+// the lease while it runs; a worker that dies stops renewing and its job is free within LEASE_MS
+const LEASE_MS = 60 * 1000;
+const LEASE_RENEW_MS = 20 * 1000;
+
+export interface ReviewJob extends EncryptedColumns {
+  id: string;
+  created_by: string | null;
+  org_id: string | null;
+  file_name: string;
+  provider: string | null;
+  consent: EnhancedConsentData | null; // NULL only for jobs created before reviews required consent
+  outcome: Partial<SecureReviewOutcome>;
+  fund_name: string | null;
+  previous_version_id: string | null;
+  status: ReviewJobStatus;
+  stage: ReviewJobStage;
+  attempts: number;
+  error: string | null;
+  // Stage outputs, encrypted with the job's data key: the page text and the SecureAnalysis
+  extracted_pages: EncryptionResult | null;
+  analysis: EncryptionResult | null;
+  result_id: string | null;
+  stage_completed_at: Partial<Record<ReviewJobStage, string>>;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewJobStatusResponse {
+  id: string;
+  fileName: string;
+  status: ReviewJobStatus;
+  stage: ReviewJobStage;
+  stages: Array<{ stage: ReviewJobStage; label: string; completedAt: string | null }>;
+  error: string | null;
+  resultId: string | null;
+  result: SecureAnalysisResult | null;
+}
+
+export class ReviewJobService {
+  private supabase = createServerSupabase();
+
+  /**
+   * Creates a secure review job for an uploaded document under the consent it was given. The file is stored
+   * encrypted with a data key of its own, so any worker can resume the job; the key later belongs to the saved document
+   */
+  async createJob(options: {
+    userId: string;
+    orgId?: string | null;
+    fileName: string;
+    fileBuffer: Buffer;
+    consent: EnhancedConsentData;
+    provider?: string;
+    fundName?: string | null;
+    previousVersionId?: string | null;
+  }): Promise<string> {
+    const encrypted = await encryptWithDataKey(options.fileBuffer, await createDataKey());
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('review_jobs')
+      .insert({
+        created_by: options.userId,
+        org_id: options.orgId ?? null,
+        file_name: options.fileName,
+        provider: providerForConsent(options.consent, options.provider),
+        consent: options.consent,
+        outcome: {},
+        fund_name: options.fundName || null,
+        previous_version_id: options.previousVersionId || null,
+        status: 'queued',
+        stage: 'uploaded',
+        attempts: 0,
+        ...toEncryptedColumns(encrypted),
+        stage_completed_at: { uploaded: now },
+        created_at: now,
+        updated_at: now,
+      })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create review job: ${error?.message || 'no id returned'}`);
+    }
+    return data.id;
+  }
+
+  /**
+   * Gets a job owned by the given user
+   */
+  async getJob(jobId: string, userId: string): Promise<ReviewJob | null> {
+    const { data, error } = await this.supabase
+      .from('review_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('created_by', userId)
+      .maybeSingle();
+    if (error) {
+      console.error('Error loading review job:', error);
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * Runs the next pending stage if no other worker holds the job.
+   * Returns the job after the stage, or null if the job is locked or already finished.
+   */
+  async advanceJob(jobId: string): Promise<ReviewJob | null> {
+    const job = await this.claimJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.renewLease(job.id).catch(error => console.error(`Error renewing lease on review job ${job.id}:`, error));
+    }, LEASE_RENEW_MS);
+
+    try {
+      const update = await this.runStage(job);
+      const nextStage = update.stage!;
+      const now = new Date().toISOString();
+
+      const updated = await this.updateJob(job.id, {
+        ...update,
+        status: nextStage === FINAL_STAGE ? 'completed' : 'queued',
+        attempts: 0,
+        error: null,
+        stage_completed_at: { ...job.stage_completed_at, [nextStage]: now },
+        locked_until: null,
+      });
+      if (updated && nextStage === FINAL_STAGE) {
+        await this.releaseDocument(updated);
+      }
+      return updated;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = job.attempts + 1;
+      console.error(`Review job ${job.id} failed after stage "${job.stage}" (attempt ${attempts}):`, error);
+
+      const updated = await this.updateJob(job.id, {
+        status: attempts >= MAX_STAGE_ATTEMPTS ? 'failed' : 'queued',
+        attempts,
+        error: message,
+        locked_until: null,
+      });
+      if (updated?.status === 'failed') {
+        await this.releaseDocument(updated);
+        if (updated.created_by && updated.consent) {
+          await getSecureReviewService().recordFailure(this.contextFor(updated), error);
+        }
+      }
+      return updated;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Runs stages until the job completes, fails, or another worker takes it over
+   */
+  async runJob(jobId: string): Promise<void> {
+    let job = await this.advanceJob(jobId);
+    while (job && job.status === 'queued') {
+      job = await this.advanceJob(jobId);
+    }
+  }
+
+  /**
+   * Resumes jobs whose worker died mid-stage (expired lease) or that are waiting for a retry
+   */
+  async resumeStalledJobs(limit: number = 10): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('review_jobs')
+      .select('id')
+      .in('status', ['queued', 'running'])
+      .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+      .order('updated_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error finding stalled review jobs:', error);
+      return 0;
+    }
+
+    for (const { id } of data || []) {
+      await this.runJob(id);
+    }
+    return data?.length || 0;
+  }
+
+  /**
+   * Shapes a job for the status endpoint; a completed job's result is read back from history, as the viewer sees it
+   */
+  async toStatusResponse(job: ReviewJob, viewer: DocumentOwner): Promise<ReviewJobStatusResponse> {
+    return {
+      id: job.id,
+      fileName: job.file_name,
+      status: job.status,
+      stage: job.stage,
+      stages: REVIEW_JOB_STAGES.map(({ stage, label }) => ({
+        stage,
+        label,
+        completedAt: job.stage_completed_at?.[stage] || null,
+      })),
+      error: job.error,
+      resultId: job.result_id,
+      result: job.status === 'completed' && job.result_id ? await this.loadResult(job, job.result_id, viewer) : null,
+    };
+  }
+
+  /**
+   * Takes a lease on a job so concurrent pollers do not run the same stage twice
+   */
+  private async claimJob(jobId: string): Promise<ReviewJob | null> {
+    const now = new Date();
+    const { data, error } = await this.supabase
+      .from('review_jobs')
+      .update({
+        status: 'running',
+        locked_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', jobId)
+      .in('status', ['queued', 'running'])
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming review job:', error);
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * Extends the lease of a job that is still running so a long stage is not taken over mid-way
+   */
+  private async renewLease(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('review_jobs')
+      .update({ locked_until: new Date(Date.now() + LEASE_MS).toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'running');
+
+    if (error) {
+      throw new Error(`Failed to renew review job lease: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drops the job's copy of the PDF, its page text and its analysis once it is saved or has failed for good.
+   * A saved job's data key now belongs to the history row; a failed job's key is shredded, as nothing else uses it
+   */
+  private async releaseDocument(job: ReviewJob): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('review_jobs')
+        .update({
+          encrypted_document: null,
+          encryption_iv: null,
+          encryption_auth_tag: null,
+          encryption_key_id: null,
+          data_key_id: null,
+          extracted_pages: null,
+          analysis: null,
+        })
+        .eq('id', job.id);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (!job.result_id && job.data_key_id) {
+        await shredDataKey(job.data_key_id);
+      }
+    } catch (error) {
+      console.error(`Error releasing document of review job ${job.id}:`, error);
+    }
+  }
+
+  private async runStage(job: ReviewJob): Promise<Partial<ReviewJob>> {
+    const secureReview = getSecureReviewService();
+    const context = this.contextFor(job);
+
+    switch (job.stage) {
+      case 'uploaded': {
+        const { pages, classification } = await secureReview.prepareDocument(context, await this.loadDocument(job));
+        return {
+          stage: 'extracted',
+          extracted_pages: await this.seal(job, pages),
+          outcome: { ...job.outcome, classification },
+        };
+      }
+      case 'extracted': {
+        const secureAnalysis = await secureReview.analyzeDocument(
+          context,
+          await this.loadDocument(job),
+          await this.open<string[]>(job.extracted_pages)
+        );
+        return {
+          stage: 'analyzed',
+          analysis: await this.seal(job, secureAnalysis),
+          outcome: { ...job.outcome, sanitization: secureAnalysis.sanitization },
+        };
+      }
+      case 'analyzed': {
+        // Placed in its lineage at save time so versions saved while the job ran are counted
+        const version = await resolveDocumentVersion({ userId: context.userId, orgId: context.orgId }, job.file_name, {
+          fundName: job.fund_name,
+          previousVersionId: job.previous_version_id,
+        });
+        // The PDF moves to the history row with its data key so the next version can be compared with it
+        const { documentId, outcome } = await secureReview.saveDocument(
+          context,
+          await this.open<SecureAnalysis>(job.analysis),
+          job.outcome.classification!,
+          fromEncryptedColumns(job),
+          version
+        );
+        return { stage: 'saved', result_id: documentId, outcome: { ...job.outcome, ...outcome } };
+      }
+      case 'saved': {
+        await secureReview.attachScreenshots(
+          context,
+          await this.loadDocument(job),
+          { documentId: job.result_id!, dataKeyId: job.data_key_id! },
+          await this.open<SecureAnalysis>(job.analysis),
+          job.outcome as SecureReviewOutcome
+        );
+        return { stage: 'screenshotted' };
+      }
+      default:
+        throw new Error(`Review job ${job.id} has no stage after "${job.stage}"`);
+    }
+  }
+
+  /**
+   * The signed-in user and consent the job runs under
+   */
+  private contextFor(job: ReviewJob): SecureReviewContext {
+    if (!job.created_by || !job.consent) {
+      throw new Error(`Review job ${job.id} has no signed-in owner or consent`);
+    }
+    return {
+      userId: job.created_by,
+      orgId: job.org_id,
+      consent: job.consent,
+      fileName: job.file_name,
+      provider: job.provider || undefined,
+    };
+  }
+
+  /**
+   * Encrypts a stage's output with the job's data key, so page text and analyses never sit in plaintext columns
+   */
+  private seal(job: ReviewJob, value: unknown): Promise<EncryptionResult> {
+    if (!job.data_key_id) {
+      throw new Error(`Review job ${job.id} has no data key`);
+    }
+    return encryptWithDataKey(Buffer.from(JSON.stringify(value), 'utf8'), job.data_key_id);
+  }
+
+  private async open<T>(payload: EncryptionResult | null): Promise<T> {
+    if (!payload) {
+      throw new Error('Review job is missing the output of its previous stage');
+    }
+    return JSON.parse((await decryptPayload(payload)).toString('utf8'));
+  }
+
+  /**
+   * The saved analysis with any pseudonymized values restored for the viewer, and how the secure review handled it
+   */
+  private async loadResult(
+    job: ReviewJob,
+    documentId: string,
+    viewer: DocumentOwner
+  ): Promise<SecureAnalysisResult | null> {
+    const document = await getDocumentAccessService().getDocument<{ ai_result: AnalysisResult }>(
+      documentId,
+      viewer,
+      'ai_result'
+    );
+    if (!document || !job.consent) {
+      return null;
+    }
+    return toSecureAnalysisResult(
+      await rehydrateStoredAnalysis(documentId, viewer, document.ai_result),
+      documentId,
+      job.consent,
+      job.outcome as SecureReviewOutcome
+    );
+  }
+
+  private loadDocument(job: ReviewJob): Promise<Buffer> {
+    if (!job.encrypted_document) {
+      throw new Error(`Review job ${job.id} no longer holds its document`);
+    }
+    return decryptPayload(fromEncryptedColumns(job));
+  }
+
+  private async updateJob(jobId: string, update: Partial<ReviewJob>): Promise<ReviewJob | null> {
+    const { data, error } = await this.supabase
+      .from('review_jobs')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating review job:', error);
+      return null;
+    }
+    return data;
+  }
+}
+
+// Singleton instance
+let reviewJobServiceInstance: ReviewJobService | null = null;
+
+export const getReviewJobService = (): ReviewJobService => {
+  if (!reviewJobServiceInstance) {
+    reviewJobServiceInstance = new ReviewJobService();
+  }
+  return reviewJobServiceInstance;
+};
@@ -1,11 +1,16 @@
 import formidable from 'formidable';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { supabase } from './supabaseClient';
 import { createServerSupabase } from './supabaseServer';
+import { toOwnerColumns, type DocumentOwner } from './document-access';
+import { parseModelJson, validateAnalysisResult } from './model-output';
 import type { NextApiRequest } from 'next';
+import type { BoundingBox } from './pdf-layout';
+import type { ProcessingMethod } from './secure-review';
+import { insertDocumentVersion, type VersionColumns } from './document-lineage';
+import type { EncryptedColumns } from './encryption';
 
 const MODEL_TIMEOUT = 120000; // 2 minutes
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_FILE_SIZE = (Number(process.env.MAX_UPLOAD_SIZE_MB) || 10) * 1024 * 1024; // 10MB by default
 
 export type AnalysisIssue = {
   page: number;
@@ -15,6 +20,10 @@ export type AnalysisIssue = {
   suggestion: string;
   locationHint: string;
   screenshotUrl?: string;
+  detectedBy?: string[]; // Providers that reported this issue (ensemble mode)
+  agreement?: number; // Share of ensemble providers that reported this issue, 0-1
+  deterministic?: boolean; // Found by a rule in lib/rules.ts rather than a model
+  bbox?: BoundingBox; // Exact region on the page, in PDF points from the top-left corner
 };
 
 export type AnalysisResult = {
@@ -24,6 +33,7 @@ export type AnalysisResult = {
     issueCount: number;
     pagesAffected: number[];
   };
+  warnings?: string[]; // Schema problems in model output that could not be repaired
 };
 
 /**
@@ -43,19 +53,12 @@ export const parseForm = (req: NextApiRequest): Promise<{ fields: formidable.Fie
 };
 
 /**
- * Calls the Gemini API with the provided PDF file content.
- * @param base64File The base64-encoded PDF file content.
- * @returns The parsed JSON response from the model.
+ * Builds the document analysis prompt shared by the Gemini callers.
+ * @param wasSanitized Whether the document content was sanitized before analysis.
  */
-export const callGemini = async (base64File: string): Promise<AnalysisResult> => {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) throw new Error('Server missing GEMINI_API_KEY');
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-  const prompt = `
+export const buildAnalysisPrompt = (wasSanitized: boolean = false): string => `
 Act as a PDF QA checker for a data science team specializing in subscription documents.
+${wasSanitized ? 'NOTE: This document has been sanitized to remove sensitive information. Bracketed tokens such as [INVESTOR_1] stand in for removed values; copy them exactly when quoting the text.' : ''}
 First, extract all section headers (e.g., "Section 1", "Section I", "Appendix A").
 Then, for each cross-reference found in the text (e.g., "see Section 1"), check if the referenced section header actually exists.
 If a cross-reference points to a non-existent section, emit an issue object with the type 'cross_reference'.
@@ -84,42 +87,66 @@ For logic_point issues, the message should describe what needs customer confirma
 
 Return STRICT JSON ONLY (no prose, no code fences) matching this schema:\n{\n  "fileName": "string",\n  "issues": [\n    {\n      "page": 1,\n      "type": "typo|spacing|punctuation|capitalization|alignment|font|formatting|cross_reference|logic_point|other",\n      "message": "string",\n      "original": "string",\n      "suggestion": "string",\n      "locationHint": "paragraph/line context or short snippet"\n    }\n  ],\n  "summary": { "issueCount": 0, "pagesAffected": [1, 2 ] }\n}\n`;
 
-  try {
-    const modelPromise = model.generateContent([
-      prompt,
-      { inlineData: { data: base64File, mimeType: 'application/pdf' } },
-    ]);
+/**
+ * What Gemini reads: the PDF itself, or page text separated by form feeds when the document was sanitized
+ */
+export type GeminiDocument = { base64Pdf: string } | { text: string };
 
+/**
+ * Calls the Gemini API with the provided document content.
+ * @param document The base64-encoded PDF, or the (sanitized) page text.
+ * @param wasSanitized Whether the document content was sanitized before analysis.
+ * @returns The parsed JSON response from the model.
+ */
+export const callGemini = async (document: GeminiDocument, wasSanitized: boolean = false): Promise<AnalysisResult> => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error('Server missing GEMINI_API_KEY');
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+
+  const prompt = buildAnalysisPrompt(wasSanitized);
+
+  const withTimeout = <T>(promise: Promise<T>): Promise<T> => {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Model timeout')), MODEL_TIMEOUT);
     });
+    return Promise.race([promise, timeoutPromise]);
+  };
 
-    const result = await Promise.race([modelPromise, timeoutPromise]);
+  try {
+    const content = 'base64Pdf' in document
+      ? { inlineData: { data: document.base64Pdf, mimeType: 'application/pdf' } }
+      : { text: document.text.split('\f').map((page, i) => `--- Page ${i + 1} ---\n${page}`).join('\n\n') };
+    const result = await withTimeout(model.generateContent([prompt, content]));
     const raw = result.response.text().trim();
     console.log('Raw response from model (before cleaning):', raw); // Log the entire raw response
-    const jsonMatch = raw.match(/```json\n([\s\S]*?)\n```/);
-    let cleaned = raw;
-    if (jsonMatch && jsonMatch[1]) {
-      cleaned = jsonMatch[1].trim();
-    } else {
-      // Fallback if no ```json``` block is found, try to clean common markdown fences
-      cleaned = raw.replace(/```json|```/g, '').trim();
-    }
 
-    try {
-      const parsed = JSON.parse(cleaned) as AnalysisResult;
-      return parsed;
-    } catch (jsonError) {
-      console.error('JSON Parse Error:', jsonError);
-      console.error('Raw response from model:', cleaned); // Log the entire raw response
-      throw new Error(`Failed to parse JSON response from the model. Raw response: ${cleaned}`);
+    // Invalid output is sent back to the model with the validation errors before giving up
+    const { value, warnings, repairAttempts } = await parseModelJson(raw, {
+      label: 'document analysis',
+      validate: validateAnalysisResult,
+      repair: async (repairPrompt) => {
+        const repaired = await withTimeout(model.generateContent([prompt, repairPrompt]));
+        return repaired.response.text();
+      },
+    });
+
+    if (repairAttempts > 0) {
+      console.log(`Gemini analysis output repaired after ${repairAttempts} attempt(s)`);
     }
+    return warnings.length > 0 ? { ...value, warnings } : value;
   } catch (e) {
     console.error('Error calling or parsing Gemini response:', e);
     throw new Error('Failed to get a valid JSON response from the model.');
   }
 };
 
+const isBoundingBox = (value: unknown): value is BoundingBox => {
+  const box = value as BoundingBox | undefined;
+  return !!box && [box.x, box.y, box.width, box.height].every(n => typeof n === 'number' && Number.isFinite(n));
+};
+
 /**
  * Normalizes the data from the model to ensure it matches the expected schema.
  * @param data The raw data object from the model.
@@ -140,6 +167,10 @@ export const normalizeData = (data: Partial<AnalysisResult>, fileName: string):
     original: String(issue.original || ''),
     suggestion: String(issue.suggestion || ''),
     locationHint: String(issue.locationHint || ''),
+    ...(Array.isArray(issue.detectedBy) && { detectedBy: issue.detectedBy.map(String) }),
+    ...(typeof issue.agreement === 'number' && { agreement: issue.agreement }),
+    ...(issue.deterministic === true && { deterministic: true }),
+    ...(isBoundingBox(issue.bbox) && { bbox: issue.bbox }),
   }));
 
   if (!data.summary) {
@@ -151,30 +182,34 @@ export const normalizeData = (data: Partial<AnalysisResult>, fileName: string):
 };
 
 /**
- * Saves the analysis result to the Supabase database.
+ * Saves the analysis result to the Supabase database under the user and organization that ran it.
  * @param normalizedData The normalized analysis data.
+ * @param owner The Clerk user and active organization; null for anonymous reviews, which no history page shows.
+ * @param processingMethod How the document was analyzed, for filtering history.
+ * @param version Where the document sits in its lineage of revised uploads.
+ * @param document The encrypted PDF, kept so later versions can be compared with it.
  * @returns An object containing the new record's ID or an error.
  */
-export const saveToSupabase = async (normalizedData: AnalysisResult) => {
-  const { data, error } = await supabase
-    .from('demo_requests')
-    .insert({ user_input: normalizedData.fileName, ai_result: normalizedData })
-    .select('id')
-    .single();
-
-  if (error) {
-    return { error: error };
-  }
-  return { id: data?.id };
-};
-
-export const saveToSupabaseServer = async (normalizedData: AnalysisResult) => {
+export const saveToSupabaseServer = async (
+  normalizedData: AnalysisResult,
+  owner: DocumentOwner | null,
+  processingMethod: ProcessingMethod,
+  version: VersionColumns,
+  document?: EncryptedColumns
+) => {
   const supabaseServer = createServerSupabase();
-  const { data, error } = await supabaseServer
+  const { data, error } = await insertDocumentVersion(version, versionColumns => supabaseServer
     .from('demo_requests')
-    .insert({ user_input: normalizedData.fileName, ai_result: normalizedData })
+    .insert({
+      user_input: normalizedData.fileName,
+      ai_result: normalizedData,
+      processing_method: processingMethod,
+      ...toOwnerColumns(owner),
+      ...versionColumns,
+      ...document
+    })
     .select('id')
-    .single();
+    .single());
 
   if (error) {
     return { error:error };
@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  collectDeclaredSections,
+  collectReferencedSections,
+  diffMissingReferences,
+  findSectionLabels,
+  verifyTableOfContents,
+} from './rules';
+
+const missingReferences = (pages: string[]) =>
+  diffMissingReferences(collectDeclaredSections(pages), collectReferencedSections(pages)).map(issue => [
+    issue.page,
+    issue.message,
+  ]);
+
+describe('findSectionLabels', () => {
+  it('reads roman, dotted-decimal and letter identifiers with clauses', () => {
+    assert.deepEqual(findSectionLabels('See Section 3.2(a)(ii), ARTICLE IV and Exhibit B.'), [
+      'Section 3.2(a)(ii)',
+      'Article IV',
+      'Exhibit B',
+    ]);
+  });
+
+  it('does not cut an identifier short at a hyphen', () => {
+    assert.deepEqual(findSectionLabels('Each partner receives a Schedule K-1 and a Schedule C-1 form.'), []);
+    assert.deepEqual(findSectionLabels('Attach Schedule K to the return.'), ['Schedule K']);
+  });
+});
+
+describe('collectReferencedSections', () => {
+  it('skips references into other documents, including every label of a list', () => {
+    const refs = collectReferencedSections([
+      'Please complete Section 3 and Section 4 of the Subscription Agreement.\nSee Part II of the Investor Questionnaire.',
+    ]);
+    assert.deepEqual(refs, []);
+  });
+
+  it('keeps references into this document', () => {
+    const refs = collectReferencedSections(['As described in Section 4 of this Agreement.']);
+    assert.deepEqual(refs.map(ref => ref.label), ['Section 4']);
+  });
+
+  it('reports a label once per page', () => {
+    const refs = collectReferencedSections([
+      'Return Section 4 signed. Section 4 must be notarized.',
+      'Once more, Section 4 is required.',
+    ]);
+    assert.deepEqual(refs.map(ref => [ref.page, ref.label]), [
+      [1, 'Section 4'],
+      [2, 'Section 4'],
+    ]);
+  });
+});
+
+describe('diffMissingReferences', () => {
+  it('flags references to sections the document does not declare', () => {
+    assert.deepEqual(missingReferences(['Section 1 Definitions\nAs set out in Section 2, the Fund may invest.']), [
+      [1, 'Reference to missing section: Section 2'],
+    ]);
+  });
+
+  it('treats statute-style sections as external', () => {
+    const pages = ['Section 1 Eligibility\nThe investor is a Section 501(c)(3) organization exempt under Section 1446(f).'];
+    assert.deepEqual(missingReferences(pages), []);
+  });
+
+  it('still checks statute-style labels a document declares itself', () => {
+    const pages = ['Section 101 Definitions\n(a) Terms\nSee Section 101(b) for the rest.'];
+    assert.deepEqual(missingReferences(pages), [[1, 'Reference to Section 101(b), but Section 101 only contains (a)']]);
+  });
+
+  it('ignores tax forms and other-document references in an instructions email', () => {
+    const pages = [
+      'Instructions\nPlease review the attached documents carefully.',
+      'Complete Section 3 and Section 4 of the Subscription Booklet. Section 4 of the Subscription Booklet needs ' +
+        'a signature. Provide a Schedule K-1 if you invest through a partnership.',
+    ];
+    assert.deepEqual(missingReferences(pages), []);
+  });
+});
+
+describe('verifyTableOfContents', () => {
+  // A cover and a roman-numbered contents page come before page 1, so printed numbers are offset by two
+  const booklet = (contents: string[], articles = ['DEFINITIONS', 'SUBSCRIPTION', 'REPRESENTATIONS']) => [
+    'ACME GROWTH FUND II, L.P.\nSubscription Booklet',
+    ['TABLE OF CONTENTS', ...contents, 'i'].join('\n'),
+    ...articles.map((title, i) => `ARTICLE ${['I', 'II', 'III', 'IV'][i]} ${title}\nThe terms of this article apply.\n${i + 1}`),
+  ];
+  const messages = (pages: string[], pageLabels?: Array<string | null>) =>
+    verifyTableOfContents(pages, undefined, pageLabels).map(issue => [issue.page, issue.message]);
+
+  it('accepts entries whose printed page matches the heading', () => {
+    const pages = booklet([
+      'Article I Definitions ........ 1',
+      'Article II Subscription ........ 2',
+      'Article III Representations ........ 3',
+    ]);
+    assert.deepEqual(messages(pages), []);
+  });
+
+  it('reports entries listed on the wrong printed page', () => {
+    const pages = booklet([
+      'Article I Definitions ........ 1',
+      'Article II Subscription ........ 2',
+      'Article III Representations ........ 4',
+    ]);
+    assert.deepEqual(messages(pages), [
+      [2, 'Table of contents lists "Article III Representations" on page 4, but it starts on page 3'],
+    ]);
+  });
+
+  it('uses the layout page labels when they are given', () => {
+    const pages = booklet([
+      'Article I Definitions ........ 1',
+      'Article II Subscription ........ 2',
+      'Article III Representations ........ 3',
+    ]);
+    // Numbered from the cover, as printed in the footers
+    assert.deepEqual(messages(pages, [null, 'i', '3', '4', '5']), [
+      [2, 'Table of contents lists "Article I Definitions" on page 1, but it starts on page 3'],
+      [2, 'Table of contents lists "Article II Subscription" on page 2, but it starts on page 4'],
+      [2, 'Table of contents lists "Article III Representations" on page 3, but it starts on page 5'],
+    ]);
+  });
+
+  it('reports entries without a heading and headings missing from the contents', () => {
+    const pages = booklet([
+      'Article I Definitions ........ 1',
+      'Article II Subscription ........ 2',
+      'Article V Transfers ........ 5',
+    ]);
+    assert.deepEqual(messages(pages), [
+      [2, 'Table of contents entry "Article V Transfers" has no matching heading'],
+      [5, 'Heading Article III is missing from the table of contents'],
+    ]);
+  });
+
+  it('does nothing without a table of contents', () => {
+    assert.deepEqual(messages(['ARTICLE I DEFINITIONS\n1']), []);
+  });
+});
@@ -1,42 +1,158 @@
+import type { AnalysisIssue, AnalysisResult } from './review';
+import { isNearDuplicate } from './ensemble';
+import { parseTableOfContents, type TableOfContents } from './toc';
+import { matchPrintedNumber } from './pdf-layout';
+import type { LayoutAnalysis } from './layout-rules';
+
 type Issue = {
   page: number;
-  type: 'reference' | 'numbering';
+  type: 'reference' | 'numbering' | 'contents';
   message: string;
   original: string;
   suggestion: string;
   locationHint: string;
 };
-const SECTION_DECL_RE = /\bSection\s+(?:[IVXLCDM]+|\d+|[A-Z])\b/g;
+// Kinds of labelled parts a document can declare and refer to
+const REFERENCE_KINDS = ['Section', 'Article', 'Appendix', 'Exhibit', 'Schedule', 'Annex', 'Part'];
+// Attachments, which should be referenced from the body at least once
+const APPENDIX_KINDS = ['Appendix', 'Exhibit', 'Schedule', 'Annex'];
+
+// Headings are often set in capitals ("ARTICLE IV"); identifiers stay case-sensitive so "schedule a call" is not a reference
+const KIND_PATTERN = REFERENCE_KINDS.flatMap(kind => [kind, kind.toUpperCase()]).join('|');
+// Kind + roman, dotted-decimal or letter identifier + optional clauses, e.g. "Section 3.2(a)(ii)";
+// an identifier running on through a hyphen names something else, e.g. the "Schedule K-1" tax form
+const REFERENCE_RE = new RegExp(
+  `\\b(${KIND_PATTERN})\\s+((?:[IVXLCDM]+|\\d+(?:\\.\\d+)*|[A-Z])(?!-?\\w)(?:\\([a-z0-9]+\\))*)`,
+  'g'
+);
+// "Part II of the Investor Questionnaire" points into another document, as does every label of
+// "Section 3 and Section 4 of the Subscription Agreement"
+const EXTERNAL_SUFFIX_RE = new RegExp(
+  `^(?:\\s*,?\\s*(?:and|or|,)\\s+(?:(?:${KIND_PATTERN})\\s+)?[\\w.()]+)*\\s+(?:of|to|under)\\s+(?:the\\s+)?(?!this\\b)[A-Z]`
+);
+// Statute sections such as "Section 501(c)(3)" cite the tax code, not the document
+const STATUTE_ID_RE = /^\d{3,}$/;
+// Numbered headings without a kind word, e.g. "3.1 Capital Contributions"
+const NUMBERED_HEADING_RE = /^\s*(\d+(?:\.\d+)+)\.?\s+[A-Z]/;
+// Clause markers at the start of a line, e.g. "(a)" or "(ii)"
+const CLAUSE_RE = /^\s*\(([a-z]{1,4})\)/;
+const LOWER_ROMAN_RE = /^[ivxl]+$/;
+
+type DeclaredSections = Map<string, Set<number>>;
+type SectionReference = { label: string; page: number; context: string };
+
+type ParsedLabel = {
+  kind: string;
+  id: string; // "3.2" in "Section 3.2(a)(ii)"
+  clauses: string[]; // ["a", "ii"] in "Section 3.2(a)(ii)"
+};
+
+const canonicalKind = (kind: string) => kind.charAt(0) + kind.slice(1).toLowerCase();
+
+const canonicalLabel = (kind: string, reference: string) => `${canonicalKind(kind)} ${reference}`;
+
+const parseLabel = (label: string): ParsedLabel => {
+  const space = label.indexOf(' ');
+  const kind = label.slice(0, space);
+  const rest = label.slice(space + 1);
+  const clauseStart = rest.indexOf('(');
+  return {
+    kind,
+    id: clauseStart === -1 ? rest : rest.slice(0, clauseStart),
+    clauses: [...rest.matchAll(/\(([a-z0-9]+)\)/g)].map(m => m[1]),
+  };
+};
+
+const formatLabel = ({ kind, id, clauses }: ParsedLabel) =>
+  `${kind} ${id}${clauses.map(c => `(${c})`).join('')}`;
+
+/**
+ * Finds every reference label in a piece of text, in canonical form
+ */
+export function findSectionLabels(text: string): string[] {
+  return [...text.matchAll(REFERENCE_RE)].map(m => canonicalLabel(m[1], m[2]));
+}
+
+/**
+ * Returns the label a line declares when it is a heading, e.g. "Article IV" for "ARTICLE IV - Transfers"
+ */
+export function findHeadingLabel(line: string): string | null {
+  const first = [...line.matchAll(REFERENCE_RE)][0];
+  const external = first && EXTERNAL_SUFFIX_RE.test(line.slice((first.index ?? 0) + first[0].length));
+  if (first && !external && line.trimStart().startsWith(first[0])) {
+    return canonicalLabel(first[1], first[2]);
+  }
+  const numbered = line.match(NUMBERED_HEADING_RE);
+  return numbered ? `Section ${numbered[1]}` : null;
+}
 
 export function collectDeclaredSections(pages: string[]) {
-  const m = new Map<string, Set<number>>();
+  const m: DeclaredSections = new Map();
+  const declare = (label: string, page: number) => {
+    const s = m.get(label) ?? new Set<number>();
+    s.add(page);
+    m.set(label, s);
+    // "Section 3.1" implies that "Section 3" exists
+    const { kind, id } = parseLabel(label);
+    if (id.includes('.') && !label.includes('(')) {
+      declare(`${kind} ${id.slice(0, id.lastIndexOf('.'))}`, page);
+    }
+  };
+
+  // Clauses belong to the most recent heading, which may be on an earlier page
+  let scope: string | null = null;
+  let letterClause: string | null = null;
+
   pages.forEach((text, i) => {
     text.split('\n').forEach(line => {
-      const hits = line.match(SECTION_DECL_RE);
-      if (!hits) return;
-      hits.forEach(tok => {
-        const looksHeader =
-          /^\s*Section\s+(?:[IVXLCDM]+|\d+|[A-Z])(\s*[-–—:])/.test(line) ||
-          line.trimStart().startsWith(tok);
-        if (looksHeader) {
-          const s = m.get(tok) ?? new Set<number>();
-          s.add(i + 1);
-          m.set(tok, s);
-        }
-      });
+      const heading = findHeadingLabel(line);
+      if (heading) {
+        declare(heading, i + 1);
+        const { kind, id } = parseLabel(heading);
+        scope = `${kind} ${id}`;
+        letterClause = null;
+        return;
+      }
+
+      const clause = line.match(CLAUSE_RE);
+      if (!clause || !scope) return;
+      const tok = clause[1];
+      // "(i)" after "(h)" is the next letter; after any other letter it opens a sub-clause
+      const nextLetter = letterClause && letterClause.length === 1
+        ? String.fromCharCode(letterClause.charCodeAt(0) + 1)
+        : null;
+      if (letterClause && LOWER_ROMAN_RE.test(tok) && tok !== nextLetter) {
+        declare(`${scope}(${letterClause})(${tok})`, i + 1);
+      } else {
+        letterClause = tok;
+        declare(`${scope}(${tok})`, i + 1);
+      }
     });
   });
   return m;
 }
 
+/**
+ * Collects references in the body text; headings and references into other documents are skipped
+ */
 export function collectReferencedSections(pages: string[]) {
-  const refs: Array<{ label: string; page: number; context: string }> = [];
+  const refs: SectionReference[] = [];
   pages.forEach((text, i) => {
-    const it = text.matchAll(SECTION_DECL_RE);
+    // A label repeated on a page is reported once
+    const seen = new Set<string>();
+    const it = text.matchAll(REFERENCE_RE);
     for (const m of it) {
-      const label = m[0];
-      const start = Math.max(0, (m.index ?? 0) - 40);
-      const end = Math.min(text.length, (m.index ?? 0) + label.length + 40);
+      const index = m.index ?? 0;
+      const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+      if (text.slice(lineStart, index).trim() === '') continue;
+      if (EXTERNAL_SUFFIX_RE.test(text.slice(index + m[0].length, index + m[0].length + 60))) continue;
+
+      const label = canonicalLabel(m[1], m[2]);
+      if (seen.has(label)) continue;
+      seen.add(label);
+
+      const start = Math.max(0, index - 40);
+      const end = Math.min(text.length, index + m[0].length + 40);
       refs.push({
         label,
         page: i + 1,
@@ -47,24 +163,122 @@ export function collectReferencedSections(pages: string[]) {
   return refs;
 }
 
+/**
+ * Lists declared labels one level below `parent`, e.g. "3.1" and "3.2" under "Section 3", or "(a)" under "Section 3.2"
+ */
+const declaredChildren = (declared: DeclaredSections, parent: ParsedLabel, clauseLevel: boolean): string[] => {
+  const prefix = formatLabel(parent);
+  const children: string[] = [];
+  for (const label of declared.keys()) {
+    const rest = label.slice(prefix.length);
+    if (!label.startsWith(prefix)) continue;
+    if (clauseLevel ? /^\([a-z0-9]+\)$/.test(rest) : /^\.\d+$/.test(rest)) {
+      children.push(clauseLevel ? rest : label.slice(label.indexOf(' ') + 1));
+    }
+  }
+  return children;
+};
+
+/**
+ * Finds the closest declared ancestor of a label that is not declared itself
+ */
+const closestDeclaredAncestor = (
+  declared: DeclaredSections,
+  label: ParsedLabel
+): { ancestor: ParsedLabel; clauseLevel: boolean } | null => {
+  let current = label;
+  while (current.clauses.length > 0 || current.id.includes('.')) {
+    const clauseLevel = current.clauses.length > 0;
+    current = clauseLevel
+      ? { ...current, clauses: current.clauses.slice(0, -1) }
+      : { ...current, id: current.id.slice(0, current.id.lastIndexOf('.')) };
+    if (declared.has(formatLabel(current))) {
+      return { ancestor: current, clauseLevel };
+    }
+  }
+  return null;
+};
+
+/**
+ * "Section 501(c)(3)" style references, unless the document numbers its own sections that way
+ */
+const isStatuteReference = (declared: DeclaredSections, { kind, id, clauses }: ParsedLabel): boolean =>
+  kind === 'Section' && clauses.length > 0 && STATUTE_ID_RE.test(id) && !declared.has(`${kind} ${id}`);
+
 export function diffMissingReferences(
-  declared: Map<string, Set<number>>,
-  referenced: Array<{ label: string; page: number; context: string }>
+  declared: DeclaredSections,
+  referenced: SectionReference[]
 ): Issue[] {
   const issues: Issue[] = [];
   for (const r of referenced) {
-    if (!declared.has(r.label)) {
+    if (declared.has(r.label)) continue;
+
+    const parsed = parseLabel(r.label);
+    if (isStatuteReference(declared, parsed)) continue;
+    const match = closestDeclaredAncestor(declared, parsed);
+
+    if (match) {
+      const ancestor = formatLabel(match.ancestor);
+      const children = declaredChildren(declared, match.ancestor, match.clauseLevel);
+      // Clause structure is often lost in extraction, so only flag clauses when some were found
+      if (match.clauseLevel && children.length === 0) continue;
+
       issues.push({
         page: r.page,
         type: 'reference',
-        message: `Reference to missing section: ${r.label}`,
+        message: `Reference to ${r.label}, but ${ancestor} ${
+          children.length > 0
+            ? `only contains ${children.join(', ')}`
+            : 'has no subsections'
+        }`,
         original: r.context,
-        suggestion: `Remove/update the reference; declared sections: ${
-          [...declared.keys()].join(', ') || 'none'
-        }.`,
+        suggestion: children.length > 0
+          ? `Point the reference at one of ${children.join(', ')} or add the missing ${match.clauseLevel ? 'clause' : 'subsection'}.`
+          : `Refer to ${ancestor} instead.`,
         locationHint: r.context,
       });
+      continue;
     }
+
+    const sameKind = [...declared.keys()].filter(
+      label => label.startsWith(`${parsed.kind} `) && !label.includes('(')
+    );
+    issues.push({
+      page: r.page,
+      type: 'reference',
+      message: `Reference to missing ${parsed.kind.toLowerCase()}: ${r.label}`,
+      original: r.context,
+      suggestion: `Remove/update the reference; declared ${parsed.kind.toLowerCase()}s: ${
+        sameKind.join(', ') || 'none'
+      }.`,
+      locationHint: r.context,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Finds appendices, exhibits, schedules and annexes that are attached but never referenced
+ */
+export function findUnreferencedAppendices(
+  declared: DeclaredSections,
+  referenced: SectionReference[]
+): Issue[] {
+  const issues: Issue[] = [];
+  for (const [label, pages] of declared) {
+    const { kind, clauses } = parseLabel(label);
+    if (!APPENDIX_KINDS.includes(kind) || clauses.length > 0) continue;
+    if (referenced.some(r => r.label === label || r.label.startsWith(`${label}(`) || r.label.startsWith(`${label}.`))) continue;
+
+    const page = Math.min(...pages);
+    issues.push({
+      page,
+      type: 'reference',
+      message: `${label} is attached but never referenced`,
+      original: label,
+      suggestion: `Reference ${label} from the body of the document or remove it.`,
+      locationHint: label,
+    });
   }
   return issues;
 }
@@ -125,3 +339,167 @@ export function findNumberingGaps(pages: string[]): Issue[] {
   });
   return issues;
 }
+
+const normalizeTitle = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Blanks out the table of contents so its entries do not count as headings
+ */
+const withoutTocPages = (pages: string[], toc: TableOfContents | null) =>
+  toc ? pages.map((text, i) => (toc.pages.includes(i + 1) ? '' : text)) : pages;
+
+/**
+ * Arabic page number printed on each page: the layout's page label when given, otherwise a number
+ * standing alone on one of the first or last lines of the page text
+ */
+const printedPageNumbers = (pages: string[], pageLabels?: Array<string | null>): Array<number | null> =>
+  pages.map((text, i) => {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const label = pageLabels
+      ? pageLabels[i]
+      : [...lines.slice(-2).reverse(), ...lines.slice(0, 2)].map(matchPrintedNumber).find(Boolean);
+    return label && /^\d+$/.test(label) ? Number(label) : null;
+  });
+
+/**
+ * Compares table of contents entries with the headings actually found in the document;
+ * pageLabels are the printed page numbers from the PDF layout, one per page
+ */
+export function verifyTableOfContents(
+  pages: string[],
+  toc = parseTableOfContents(pages),
+  pageLabels?: Array<string | null>
+): Issue[] {
+  if (!toc) return [];
+  const issues: Issue[] = [];
+  const body = withoutTocPages(pages, toc);
+  const declared = collectDeclaredSections(body);
+
+  // Resolve each entry to the page its heading is on, by label when it has one, otherwise by title
+  const resolved = toc.entries.map(entry => {
+    const label = findSectionLabels(entry.title)[0]?.replace(/\(.*$/, '');
+    if (label) {
+      const found = declared.get(label);
+      return { entry, label, page: found ? Math.min(...found) : null };
+    }
+    const title = normalizeTitle(entry.title);
+    const index = title
+      ? body.findIndex(text => text.split('\n').some(line => normalizeTitle(line).startsWith(title)))
+      : -1;
+    return { entry, label: null, page: index === -1 ? null : index + 1 };
+  });
+
+  // Printed numbers usually start after a cover page or two; pages that carry no number of their own
+  // take the most common offset between physical and printed numbers in the rest of the document
+  const printed = printedPageNumbers(pages, pageLabels);
+  const offsets = new Map<number, number>();
+  printed.forEach((number, i) => {
+    if (number !== null && !toc.pages.includes(i + 1)) {
+      const offset = i + 1 - number;
+      offsets.set(offset, (offsets.get(offset) ?? 0) + 1);
+    }
+  });
+  const offset = [...offsets.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const printedPageOf = (page: number) => printed[page - 1] ?? page - offset;
+
+  for (const { entry, page } of resolved) {
+    if (page === null) {
+      issues.push({
+        page: entry.tocPage,
+        type: 'contents',
+        message: `Table of contents entry "${entry.title}" has no matching heading`,
+        original: entry.line,
+        suggestion: 'Remove the entry or add the missing heading.',
+        locationHint: `Table of contents, page ${entry.tocPage}`,
+      });
+    } else if (printedPageOf(page) !== entry.printedPage) {
+      issues.push({
+        page: entry.tocPage,
+        type: 'contents',
+        message: `Table of contents lists "${entry.title}" on page ${entry.printedPage}, but it starts on page ${printedPageOf(page)}`,
+        original: entry.line,
+        suggestion: `Change the page number to ${printedPageOf(page)}.`,
+        locationHint: `Table of contents, page ${entry.tocPage}`,
+      });
+    }
+  }
+
+  // Headings of the kinds and depths the table of contents lists should all be in it
+  const listed = new Set(resolved.map(r => r.label).filter((label): label is string => !!label));
+  const maxDepth = new Map<string, number>();
+  listed.forEach(label => {
+    const { kind, id } = parseLabel(label);
+    maxDepth.set(kind, Math.max(maxDepth.get(kind) ?? 0, id.split('.').length));
+  });
+
+  for (const [label, found] of declared) {
+    const { kind, id, clauses } = parseLabel(label);
+    const depth = maxDepth.get(kind);
+    if (depth === undefined || clauses.length > 0 || id.split('.').length > depth || listed.has(label)) continue;
+
+    const page = Math.min(...found);
+    issues.push({
+      page,
+      type: 'contents',
+      message: `Heading ${label} is missing from the table of contents`,
+      original: label,
+      suggestion: `Add ${label} to the table of contents.`,
+      locationHint: label,
+    });
+  }
+  return issues;
+}
+
+// How rule findings are reported alongside model issues
+const RULE_ISSUE_TYPES: Record<Issue['type'], AnalysisIssue['type']> = {
+  reference: 'cross_reference',
+  numbering: 'formatting',
+  contents: 'cross_reference',
+};
+
+/**
+ * Runs every deterministic rule over the document pages
+ */
+export function runDeterministicRules(pages: string[], pageLabels?: Array<string | null>): AnalysisIssue[] {
+  const toc = parseTableOfContents(pages);
+  const declared = collectDeclaredSections(withoutTocPages(pages, toc));
+  const referenced = collectReferencedSections(pages);
+
+  return [
+    ...diffMissingReferences(declared, referenced),
+    ...findUnreferencedAppendices(declared, referenced),
+    ...verifyTableOfContents(pages, toc, pageLabels),
+    ...findNumberingGaps(pages),
+  ].map(issue => ({
+    ...issue,
+    type: RULE_ISSUE_TYPES[issue.type],
+    deterministic: true,
+  }));
+}
+
+/**
+ * Adds deterministic rule issues to a model result; model issues that repeat a rule finding are dropped
+ */
+export function applyDeterministicRules(
+  result: AnalysisResult,
+  pages: string[],
+  layout?: LayoutAnalysis // From lib/layout-rules.ts, which needs the PDF rather than the text
+): AnalysisResult {
+  // Labels only line up with the text when both cover every page
+  const pageLabels = layout?.pageLabels.length === pages.length ? layout.pageLabels : undefined;
+  const ruleIssues = [...runDeterministicRules(pages, pageLabels), ...(layout?.issues ?? [])];
+  const modelIssues = result.issues.filter(
+    issue => issue.deterministic || !ruleIssues.some(rule => isNearDuplicate(rule, issue))
+  );
+  const issues = [...modelIssues, ...ruleIssues].sort((a, b) => a.page - b.page);
+
+  return {
+    ...result,
+    issues,
+    summary: {
+      issueCount: issues.length,
+      pagesAffected: [...new Set(issues.map(issue => issue.page))],
+    },
+  };
+}
@@ -0,0 +1,266 @@
+import type { SanitizationRule } from './document-sanitizer';
+
+export type SanitizationPackId = 'us_pii' | 'eu_pii' | 'banking' | 'investor' | 'tax_ids' | 'amounts';
+
+export interface SanitizationPack {
+  id: SanitizationPackId;
+  name: string;
+  description: string;
+  rules: SanitizationRule[];
+}
+
+// Subscription amounts and most dates are left alone unless the amounts pack is chosen: reviewers need the AI to check them
+
+/**
+ * Luhn checksum used by card numbers
+ */
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+};
+
+/**
+ * ISO 13616 mod-97 check used by IBANs
+ */
+const passesIbanChecksum = (value: string): boolean => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+/**
+ * ABA routing number checksum (weights 3, 7, 1)
+ */
+const passesAbaChecksum = (value: string): boolean => {
+  const d = value.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+};
+
+const EMAIL_RULE: SanitizationRule = {
+  id: 'email',
+  pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  replacement: '[EMAIL-REDACTED]',
+  description: 'Email Address',
+  // Role mailboxes published in the document are not personal data
+  allowList: [/^(?:info|notices?|legal|compliance|investor\.?relations|ir|subscriptions?)@/i]
+};
+
+const DATE_OF_BIRTH_CONTEXT = /\b(?:date of birth|birth ?date|d\.?o\.?b\.?|born)\b/i;
+
+export const SANITIZATION_PACKS: Record<SanitizationPackId, SanitizationPack> = {
+  us_pii: {
+    id: 'us_pii',
+    name: 'US personal data',
+    description: 'Social Security numbers, US phone numbers, email addresses and dates of birth',
+    rules: [
+      {
+        id: 'ssn',
+        pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+        replacement: '[SSN-REDACTED]',
+        description: 'Social Security Number',
+        // Area numbers 000, 666 and 900-999 are never issued; 9xx numbers are ITINs (tax ID pack)
+        validate: match => !/^(?:000|666|9\d\d)/.test(match) && !/-00-|-0000$/.test(match)
+      },
+      {
+        id: 'us_phone',
+        pattern: /(?:\+1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+        replacement: '[PHONE-REDACTED]',
+        description: 'Phone Number',
+        context: { exclude: /\b(?:fax|toll[- ]free)\b/i }
+      },
+      EMAIL_RULE,
+      {
+        id: 'us_date_of_birth',
+        pattern: /\b\d{1,2}[\/-]\d{1,2}[\/-]\d{4}\b/g,
+        replacement: '[DOB-REDACTED]',
+        description: 'Date of Birth',
+        // Effective, closing and notice dates are reviewed; only birth dates are personal
+        context: { include: DATE_OF_BIRTH_CONTEXT }
+      }
+    ]
+  },
+  eu_pii: {
+    id: 'eu_pii',
+    name: 'EU and UK personal data',
+    description: 'International phone numbers, email addresses, UK National Insurance numbers, dates of birth and IP addresses',
+    rules: [
+      {
+        id: 'intl_phone',
+        pattern: /\+(?:[2-9]\d{1,2})[\s.-]?(?:\(0\)\s?)?\d{1,4}(?:[\s.-]?\d{2,4}){2,4}\b/g,
+        replacement: '[PHONE-REDACTED]',
+        description: 'Phone Number',
+        context: { exclude: /\bfax\b/i }
+      },
+      EMAIL_RULE,
+      {
+        id: 'uk_nino',
+        pattern: /\b(?!BG|GB|NK|KN|TN|NT|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+        replacement: '[NINO-REDACTED]',
+        description: 'UK National Insurance Number'
+      },
+      {
+        id: 'eu_date_of_birth',
+        pattern: /\b\d{1,2}\.\d{1,2}\.\d{4}\b/g,
+        replacement: '[DOB-REDACTED]',
+        description: 'Date of Birth',
+        context: { include: /\b(?:date of birth|d\.?o\.?b\.?|born|geburtsdatum|date de naissance)\b/i }
+      },
+      {
+        id: 'ip_address',
+        pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+        replacement: '[IP-REDACTED]',
+        description: 'IP Address',
+        // Section numbers such as 1.2.3.4 are not addresses
+        context: { exclude: /\b(?:section|article|clause|paragraph|version|v)\s*$/i, window: 12 }
+      }
+    ]
+  },
+  banking: {
+    id: 'banking',
+    name: 'Banking details',
+    description: 'Account and routing numbers, IBANs, SWIFT/BIC codes and card numbers in wiring instructions',
+    rules: [
+      {
+        id: 'iban',
+        pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?\b/g,
+        replacement: '[IBAN-REDACTED]',
+        description: 'IBAN',
+        validate: passesIbanChecksum
+      },
+      {
+        id: 'swift_bic',
+        pattern: /\b[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?\b/g,
+        replacement: '[BIC-REDACTED]',
+        description: 'SWIFT/BIC Code',
+        // Eight capital letters are usually a shouted word unless the label is nearby
+        context: { include: /\b(?:swift|bic)\b/i }
+      },
+      {
+        id: 'aba_routing',
+        pattern: /\b\d{9}\b/g,
+        replacement: '[ROUTING-REDACTED]',
+        description: 'ABA Routing Number',
+        validate: passesAbaChecksum,
+        context: { include: /\b(?:aba|routing|transit)\b/i }
+      },
+      {
+        id: 'account_number',
+        pattern: /\b\d{6,17}\b/g,
+        replacement: '[ACCOUNT-REDACTED]',
+        description: 'Bank Account Number',
+        // Only numbers labelled as accounts; subscription amounts and share counts stay readable
+        context: { include: /\b(?:account|acct|a\/c)(?:\s+(?:no|number|#))?\.?\s*:?\s*$/i, window: 30 }
+      },
+      {
+        id: 'card_number',
+        pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{1,7}\b/g,
+        replacement: '[CARD-REDACTED]',
+        description: 'Card Number',
+        validate: passesLuhn
+      }
+    ]
+  },
+  investor: {
+    id: 'investor',
+    name: 'Investor names and addresses',
+    description: 'Names next to investor, subscriber and signatory labels, and street addresses',
+    rules: [
+      {
+        id: 'investor_name',
+        pattern: /(?<=\b(?:Investor|Subscriber|Limited Partner|Beneficial Owner|Authorized Signatory|Print Name|Name of (?:Investor|Subscriber|Signatory))\s*:\s*)[A-Z][A-Za-z.'-]+(?:[ \t]+[A-Z][A-Za-z.'-]+){0,4}/g,
+        replacement: '[NAME-REDACTED]',
+        description: 'Investor Name',
+        tokenLabel: 'INVESTOR',
+        // Blank form labels and placeholders are not names
+        allowList: [/^(?:N\/A|None|Not Applicable|TBD|Name|Signature|Date)$/i]
+      },
+      {
+        id: 'street_address',
+        pattern: /\b\d{1,6}[ \t]+(?:[A-Z][A-Za-z]*\.?[ \t]+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Way|Square|Sq|Parkway|Pkwy)\b\.?(?:,?[ \t]+(?:Suite|Ste|Apt|Unit|Floor)\.?[ \t]+\w+)?/g,
+        replacement: '[ADDRESS-REDACTED]',
+        description: 'Street Address'
+      }
+    ]
+  },
+  tax_ids: {
+    id: 'tax_ids',
+    name: 'Tax identifiers',
+    description: 'EINs, ITINs, labelled TINs and FATCA GIINs',
+    rules: [
+      {
+        id: 'ein',
+        pattern: /\b\d{2}-\d{7}\b/g,
+        replacement: '[EIN-REDACTED]',
+        description: 'Employer Identification Number',
+        // Prefixes the IRS has never assigned
+        validate: match => !/^(?:00|07|08|09|17|18|19|28|29|49|69|70|78|79|89|96|97)-/.test(match)
+      },
+      {
+        id: 'itin',
+        pattern: /\b9\d{2}-(?:5\d|6[0-5]|7\d|8[0-8]|9[0-2]|9[4-9])-\d{4}\b/g,
+        replacement: '[ITIN-REDACTED]',
+        description: 'Individual Taxpayer Identification Number'
+      },
+      {
+        id: 'tin',
+        pattern: /\b\d{9}\b|\b\d{3}-\d{3}-\d{3}\b/g,
+        replacement: '[TIN-REDACTED]',
+        description: 'Taxpayer Identification Number',
+        context: { include: /\b(?:TIN|taxpayer identification|tax (?:id|identification|reference)|steuer-?id|UTR)\b/i }
+      },
+      {
+        id: 'giin',
+        pattern: /\b[A-NP-Z0-9]{6}\.[A-NP-Z0-9]{5}\.[A-Z]{2}\.\d{3}\b/g,
+        replacement: '[GIIN-REDACTED]',
+        description: 'Global Intermediary Identification Number'
+      }
+    ]
+  },
+  amounts: {
+    id: 'amounts',
+    name: 'Currency amounts',
+    description: 'Dollar, euro and pound amounts; use with pseudonymization so results show the real amounts',
+    rules: [
+      {
+        id: 'currency_amount',
+        pattern: /(?:[$€£]\s?|\b(?:USD|EUR|GBP)\s?)\d[\d,]*(?:\.\d+)?(?:\s?(?:million|billion|thousand|mm|bn|m|k)\b)?/gi,
+        replacement: '[AMOUNT-REDACTED]',
+        description: 'Currency Amount'
+      }
+    ]
+  }
+};
+
+export const SANITIZATION_PACK_IDS = Object.keys(SANITIZATION_PACKS) as SanitizationPackId[];
+
+// Everything except investor names, which also catch the fund's own signatories and need a reviewer's allow-list
+export const DEFAULT_SANITIZATION_PACKS: SanitizationPackId[] = ['us_pii', 'eu_pii', 'banking', 'tax_ids'];
+
+export const isSanitizationPackId = (value: unknown): value is SanitizationPackId =>
+  typeof value === 'string' && value in SANITIZATION_PACKS;
+
+/**
+ * Rules of the given packs, each rule once even when packs share it
+ */
+export const getPackRules = (packIds: SanitizationPackId[] = DEFAULT_SANITIZATION_PACKS): SanitizationRule[] => {
+  const rules = new Set<SanitizationRule>();
+  packIds.forEach(id => SANITIZATION_PACKS[id].rules.forEach(rule => rules.add(rule)));
+  return [...rules];
+};
@@ -1,80 +1,57 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { createServerSupabase } from './supabaseServer';
-import { createCanvas } from 'canvas';
+import crypto from 'crypto';
+import { renderPageImage, getPageRenderCache } from './page-image';
+import type { BoundingBox } from './pdf-layout';
+import { getStorageBackend, SIGNED_URL_TTL_SECONDS } from './storage';
+import { auditLog, AuditAction } from './audit-logger';
+import { canAccessDocument, getDocumentAccessService, type DocumentOwner } from './document-access';
 
+export const SCREENSHOT_PREFIX = 'screenshots';
 
 export interface ScreenshotOptions {
   pdfBuffer: Buffer;
   pageNumber: number;
   fileName: string;
   issueIndex: number;
+  bbox?: BoundingBox;
+  userId?: string | null;
 }
 
+export type ScreenshotAccess =
+  | { signedUrl: string }
+  | { buffer: Buffer };
+
+/**
+ * Owner segment of a screenshot key; reviews uploaded without signing in share the anonymous prefix
+ */
+export const screenshotOwner = (userId?: string | null): string => userId || 'anonymous';
+
+const screenshotFileName = (fileName: string, pageNumber: number, issueIndex: number): string => {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const random = crypto.randomBytes(8).toString('hex');
+  return `${safeName}_p${pageNumber}_i${issueIndex}_${random}.jpg`;
+};
+
 /**
- * Generates a screenshot from a PDF page and uploads it to Supabase storage
+ * Generates a screenshot of an issue and uploads it to screenshot storage
  */
 export async function generateScreenshot({
   pdfBuffer,
   pageNumber,
   fileName,
-  issueIndex
+  issueIndex,
+  bbox,
+  userId
 }: ScreenshotOptions): Promise<string | null> {
   try {
-    const pdfjs = await import('pdfjs-dist');
-    pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.js';
-
-    // Load PDF document
-    const pdfDocument = await pdfjs.getDocument({
-      data: pdfBuffer,
-      useSystemFonts: true
-    }).promise;
-
-    if (pageNumber > pdfDocument.numPages) {
-      console.error(`Page ${pageNumber} does not exist in PDF`);
-      return null;
-    }
-
-    // Get the specific page
-    const page = await pdfDocument.getPage(pageNumber);
-
-    // Set up rendering context
-    const scale = 2.0; // Higher scale for better quality
-    const viewport = page.getViewport({ scale });
-
-    // Create canvas
-    const canvas = createCanvas(viewport.width, viewport.height);
-    const context = canvas.getContext('2d');
-
-    // Render page to canvas
-    const renderContext = {
-      canvasContext: context as any,
-      viewport: viewport,
-    };
+    // Crop to the issue when we know where it is, otherwise show the whole page
+    const imageBuffer = await renderPageImage(pdfBuffer, pageNumber, { highlight: bbox });
 
-    await page.render(renderContext).promise;
-
-    // Convert canvas to buffer
-    const imageBuffer = canvas.toBuffer('image/jpeg', { quality: 0.9 });
-
-    // For now, save locally and return a data URL for testing
-    // TODO: Upload to Supabase storage once bucket is configured
-    const tempDir = path.join(process.cwd(), 'temp');
-
-    // Ensure temp directory exists
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
-    const tempImagePath = path.join(tempDir, `${fileName}_page_${pageNumber}_issue_${issueIndex}.jpg`);
-    fs.writeFileSync(tempImagePath, imageBuffer);
-
-    // Convert to base64 data URL for immediate display
-    const base64Image = imageBuffer.toString('base64');
-    const dataUrl = `data:image/jpeg;base64,${base64Image}`;
+    // Screenshots live under their owner's prefix so access can be checked from the key alone
+    const key = `${SCREENSHOT_PREFIX}/${screenshotOwner(userId)}/${screenshotFileName(fileName, pageNumber, issueIndex)}`;
+    await getStorageBackend().put(key, imageBuffer, { contentType: 'image/jpeg' });
 
     console.log(`✅ Generated screenshot for page ${pageNumber}, issue ${issueIndex}`);
-    return dataUrl;
+    return `/api/${key}`;
 
   } catch (error) {
     console.error('Error generating screenshot:', error);
@@ -88,21 +65,77 @@ export async function generateScreenshot({
 export async function generateScreenshots(
   pdfBuffer: Buffer,
   fileName: string,
-  issues: Array<{ page: number }>
+  issues: Array<{ page: number; bbox?: BoundingBox }>,
+  userId?: string | null
 ): Promise<Array<string | null>> {
-  const screenshots: Array<string | null> = [];
-
-  for (let i = 0; i < issues.length; i++) {
-    const issue = issues[i];
-    const screenshotUrl = await generateScreenshot({
-      pdfBuffer,
-      pageNumber: issue.page,
-      fileName,
-      issueIndex: i
-    });
-
-    screenshots.push(screenshotUrl);
+  const screenshots: Array<string | null> = new Array(issues.length).fill(null);
+
+  // Page order keeps each page in the render cache while all of its issues are cropped
+  const order = issues.map((_, i) => i).sort((a, b) => issues[a].page - issues[b].page);
+
+  try {
+    for (const i of order) {
+      const issue = issues[i];
+      screenshots[i] = await generateScreenshot({
+        pdfBuffer,
+        pageNumber: issue.page,
+        fileName,
+        issueIndex: i,
+        bbox: issue.bbox,
+        userId
+      });
+    }
+  } finally {
+    await getPageRenderCache().releaseDocument(pdfBuffer);
   }
 
   return screenshots;
-}
\ No newline at end of file
+}
+/**
+ * Whether the viewer may see a screenshot: its owner always, teammates while its document is shared with their organization
+ */
+const canViewScreenshot = async (key: string, owner: string, viewer: DocumentOwner | null): Promise<boolean> => {
+  if (owner === screenshotOwner(viewer?.userId)) {
+    return true;
+  }
+  if (!viewer) {
+    return false;
+  }
+  const documentId = await getDocumentAccessService().findDocumentByScreenshot(`/api/${key}`);
+  return !!documentId && await canAccessDocument(documentId, viewer);
+};
+
+/**
+ * Checks that the viewer may see a screenshot, then returns a signed URL or, for local storage, the image itself
+ */
+export async function getScreenshotAccess(key: string, viewer: DocumentOwner | null): Promise<ScreenshotAccess | null> {
+  const userId = viewer?.userId ?? null;
+  const [prefix, owner] = key.split('/');
+  if (prefix !== SCREENSHOT_PREFIX) {
+    return null;
+  }
+
+  if (!(await canViewScreenshot(key, owner, viewer))) {
+    await auditLog(
+      AuditAction.ACCESS_DENIED,
+      { userId: screenshotOwner(userId) },
+      {
+        screenshot_key: key,
+        owner_user_id: owner,
+        attempted_by: userId
+      },
+      false,
+      'Unauthorized screenshot access attempt'
+    );
+    return null;
+  }
+
+  const storage = getStorageBackend();
+  const signedUrl = await storage.getSignedUrl(key, SIGNED_URL_TTL_SECONDS);
+  if (signedUrl) {
+    return { signedUrl };
+  }
+
+  const buffer = await storage.get(key);
+  return buffer ? { buffer } : null;
+}
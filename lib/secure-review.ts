@@ -1,48 +1,222 @@
 import formidable from 'formidable';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createServerSupabase } from './supabaseServer';
-import { encryptDocument, type EncryptionResult } from './encryption';
-import { sanitizeDocument, detectSensitiveContent, type SanitizationResult } from './document-sanitizer';
+import { toEncryptedColumns, type EncryptionResult } from './encryption';
+import {
+  sanitizeDocument,
+  detectSensitiveContent,
+  type SanitizationOptions,
+  type SanitizationResult
+} from './document-sanitizer';
+import { isSanitizationPackId, type SanitizationPackId } from './sanitization-packs';
+import { pseudonymize, pseudonymizeStrings, rehydrateAnalysis, encryptTokenMap, type TokenMap } from './pseudonymizer';
 import { classifyDocument, type ClassificationResult, DocumentClassification } from './document-classification';
 import { auditLog, AuditAction, type AuditContext } from './audit-logger';
 import { getSecureScreenshotManager } from './secure-screenshot';
-import { scheduleDocumentRetention } from './retention-policy';
-import { analyzeDocumentWithCompanyLLM } from './company-llm';
-import { processDocumentWithPatterns } from './local-patterns';
+import { toOwnerColumns, type DocumentOwner } from './document-access';
+import { insertDocumentVersion, type VersionColumns } from './document-lineage';
+import { scheduleDocumentRetention, type ScheduledRetention } from './retention-policy';
+import { getAnalysisProvider, type AnalysisInput } from './analysis-providers';
+import { withPageWindows } from './chunked-analysis';
+import { extractPdfText } from './pdf';
+import { applyDeterministicRules } from './rules';
+import { analyzeLayout } from './layout-rules';
+import { locateIssues } from './issue-location';
 import type { NextApiRequest } from 'next';
-import type { AnalysisIssue, AnalysisResult } from './review';
-
-const MODEL_TIMEOUT = 120000; // 2 minutes
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+import { MAX_FILE_SIZE, type AnalysisIssue, type AnalysisResult } from './review';
 
 export type ProcessingMethod = 'company_llm' | 'external_ai' | 'local_patterns' | 'manual_only';
 
+// Analysis provider used for each consent option; external_ai can be pointed at n8n via EXTERNAL_AI_PROVIDER
+const PROCESSING_METHOD_PROVIDERS: Record<ProcessingMethod, string> = {
+  company_llm: 'company_llm',
+  external_ai: process.env.EXTERNAL_AI_PROVIDER || 'gemini',
+  local_patterns: 'local_patterns',
+  manual_only: 'manual_only'
+};
+
+const PROCESSING_METHODS = Object.keys(PROCESSING_METHOD_PROVIDERS) as ProcessingMethod[];
+const MAX_RETENTION_DAYS = 365;
+
+// Providers that keep the document in-house; every other provider sends it to an external service
+const IN_HOUSE_PROVIDERS: ProcessingMethod[] = ['company_llm', 'local_patterns', 'manual_only'];
+
+export const processingMethodFor = (provider: string): ProcessingMethod =>
+  IN_HOUSE_PROVIDERS.includes(provider as ProcessingMethod) ? (provider as ProcessingMethod) : 'external_ai';
+
+// redact uses fixed placeholders; pseudonymize uses unique tokens that are mapped back after the provider responds
+export type SanitizationMode = 'redact' | 'pseudonymize';
+
 export interface EnhancedConsentData {
   processingMethod: ProcessingMethod;
   dataRetention: number; // days
   sensitiveDataDetected: boolean;
   sanitizationRequired: boolean;
+  sanitizationPacks?: SanitizationPackId[]; // Defaults to DEFAULT_SANITIZATION_PACKS
+  sanitizationAllowList?: string[];
+  sanitizationMode?: SanitizationMode; // Defaults to redact
   explicitConsent: boolean;
 }
 
-export interface SecureProcessingOptions {
+/**
+ * Who a secure review runs for and what they consented to; every step of the pipeline takes it
+ */
+export interface SecureReviewContext {
   userId: string;
-  req: NextApiRequest;
+  orgId?: string | null; // Active Clerk organization; the document can later be shared with it
+  req?: NextApiRequest;
   consent: EnhancedConsentData;
   fileName: string;
-  fileBuffer: Buffer;
+  provider?: string; // Overrides the provider mapped from consent.processingMethod; see providerForConsent
 }
 
-export interface SecureAnalysisResult extends AnalysisResult {
-  documentId?: string;
+/**
+ * What sanitization found and replaced, without the values themselves
+ */
+export interface SanitizationSummary {
+  detectedPatterns: SanitizationResult['detectedPatterns'];
+  redactionCount: number;
+}
+
+/**
+ * The extracted text of an upload and its classification
+ */
+export interface PreparedDocument {
+  pages: string[];
   classification: ClassificationResult;
-  sanitization?: SanitizationResult;
+}
+
+/**
+ * Analysis of a prepared document: issues with real values for the reviewer, and the result history keeps,
+ * where pseudonymized values stay tokens that the encrypted token map restores for viewers
+ */
+export interface SecureAnalysis {
+  analysis: AnalysisResult;
+  stored: AnalysisResult;
+  sanitization?: SanitizationSummary;
+  tokenMap?: TokenMap;
+}
+
+/**
+ * How a review handled the document, as shown to the reviewer once it is saved
+ */
+export interface SecureReviewOutcome {
+  classification: ClassificationResult;
+  sanitization?: SanitizationSummary;
+  retentionScheduled: boolean;
+  retentionExpiresAt?: string;
+  versionNumber?: number;
+  previousVersionId?: string | null;
+}
+
+export interface SecureAnalysisResult extends AnalysisResult, SecureReviewOutcome {
+  documentId?: string;
   encryptionApplied: boolean;
   consentRecorded: EnhancedConsentData;
-  retentionScheduled: boolean;
   processingMethod: ProcessingMethod;
 }
 
+/**
+ * Validates consent posted by the browser; the error messages are meant for a 400 response
+ */
+export const parseEnhancedConsent = (value: unknown): EnhancedConsentData => {
+  if (!value || typeof value !== 'object') {
+    throw new Error('consent must be a JSON object');
+  }
+  const consent = value as Record<string, unknown>;
+
+  if (!PROCESSING_METHODS.includes(consent.processingMethod as ProcessingMethod)) {
+    throw new Error(`Unknown processing method: ${consent.processingMethod}`);
+  }
+  const dataRetention = consent.dataRetention;
+  if (typeof dataRetention !== 'number' || !Number.isInteger(dataRetention) || dataRetention < 1 || dataRetention > MAX_RETENTION_DAYS) {
+    throw new Error(`dataRetention must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}`);
+  }
+  if (consent.explicitConsent !== true) {
+    throw new Error('Explicit consent is required to process the document');
+  }
+
+  const packs = consent.sanitizationPacks;
+  if (packs !== undefined && (!Array.isArray(packs) || !packs.every(isSanitizationPackId))) {
+    throw new Error('sanitizationPacks must be a list of known rule packs');
+  }
+  const allowList = consent.sanitizationAllowList;
+  if (allowList !== undefined && (!Array.isArray(allowList) || allowList.some(entry => typeof entry !== 'string'))) {
+    throw new Error('sanitizationAllowList must be a list of strings');
+  }
+  const mode = consent.sanitizationMode;
+  if (mode !== undefined && mode !== 'redact' && mode !== 'pseudonymize') {
+    throw new Error(`Unknown sanitization mode: ${mode}`);
+  }
+
+  return {
+    processingMethod: consent.processingMethod as ProcessingMethod,
+    dataRetention,
+    sensitiveDataDetected: consent.sensitiveDataDetected === true,
+    sanitizationRequired: consent.sanitizationRequired === true,
+    sanitizationPacks: packs as SanitizationPackId[] | undefined,
+    sanitizationAllowList: allowList as string[] | undefined,
+    sanitizationMode: mode as SanitizationMode | undefined,
+    explicitConsent: true
+  };
+};
+
+/**
+ * The provider a consented review runs with; a requested provider must send the document where the consent allows
+ */
+export const providerForConsent = (consent: EnhancedConsentData, requested?: string): string => {
+  if (!requested) {
+    return PROCESSING_METHOD_PROVIDERS[consent.processingMethod];
+  }
+  if (processingMethodFor(requested) !== consent.processingMethod) {
+    throw new Error(`The ${requested} provider is not covered by consent to ${consent.processingMethod} processing`);
+  }
+  return requested;
+};
+
+/**
+ * The result shown to the reviewer: the analysis plus how the review handled the document
+ */
+export const toSecureAnalysisResult = (
+  analysis: AnalysisResult,
+  documentId: string | undefined,
+  consent: EnhancedConsentData,
+  outcome: SecureReviewOutcome
+): SecureAnalysisResult => ({
+  ...analysis,
+  ...outcome,
+  documentId,
+  encryptionApplied: true,
+  consentRecorded: consent,
+  processingMethod: consent.processingMethod
+});
+
+const sanitizationOptionsFor = (consent: EnhancedConsentData): SanitizationOptions => ({
+  packs: consent.sanitizationPacks,
+  allowList: consent.sanitizationAllowList
+});
+
+/**
+ * Redacts the text of every issue, for analyses whose rule issues quote the original page text
+ */
+const redactIssueText = (result: AnalysisResult, options: SanitizationOptions): AnalysisResult => {
+  const redact = (text: string) => (text ? sanitizeDocument(text, options).sanitizedContent : text);
+  return {
+    ...result,
+    issues: result.issues.map(issue => ({
+      ...issue,
+      message: redact(issue.message),
+      original: redact(issue.original),
+      suggestion: redact(issue.suggestion),
+      locationHint: redact(issue.locationHint)
+    }))
+  };
+};
+
+const auditContextFor = (context: SecureReviewContext): AuditContext => ({
+  req: context.req,
+  userId: context.userId
+});
+
 export class SecureReviewService {
   private supabase = createServerSupabase();
 
@@ -70,292 +244,244 @@ export class SecureReviewService {
   }
 
   /**
-   * Processes document with full security pipeline
+   * Step 1: extracts and classifies the document, and records the upload and the consent it is reviewed under
    */
-  async processDocumentSecurely(options: SecureProcessingOptions): Promise<SecureAnalysisResult> {
-    const { userId, req, consent, fileName, fileBuffer } = options;
+  async prepareDocument(context: SecureReviewContext, fileBuffer: Buffer): Promise<PreparedDocument> {
+    const { consent, fileName } = context;
+    const pages = await this.extractPages(fileBuffer);
+    // Falls back to the file name when no text could be extracted
+    const classification = classifyDocument(pages.join('\f'), fileName);
+    const hasSensitiveContent = detectSensitiveContent(pages.join('\f'), sanitizationOptionsFor(consent));
+
+    await auditLog(
+      AuditAction.DOCUMENT_UPLOAD,
+      { ...auditContextFor(context), documentClassification: classification.classification },
+      {
+        file_name: fileName,
+        file_size: fileBuffer.length,
+        classification: classification.classification,
+        confidence: classification.confidence,
+        sensitive_data_detected: hasSensitiveContent,
+        sanitization_applied: consent.sanitizationRequired && hasSensitiveContent
+      }
+    );
+
+    await auditLog(
+      AuditAction.EXTERNAL_AI_CONSENT,
+      auditContextFor(context),
+      {
+        processing_method: consent.processingMethod,
+        consent_retention_days: consent.dataRetention,
+        sanitization_required: consent.sanitizationRequired,
+        sanitization_packs: consent.sanitizationPacks,
+        sanitization_mode: consent.sanitizationMode || 'redact',
+        sanitization_allow_list_size: consent.sanitizationAllowList?.length ?? 0,
+        explicit_consent: consent.explicitConsent
+      }
+    );
 
-    const auditContext: AuditContext = {
-      req,
-      userId
-    };
+    return { pages, classification };
+  }
 
-    try {
-      // Step 1: Classify document
-      const classification = await this.classifyDocumentContent(fileBuffer, fileName);
-
-      // Step 2: Detect sensitive content
-      const pdfText = await this.extractTextFromPdf(fileBuffer);
-      const hasSensitiveContent = detectSensitiveContent(pdfText);
-      let sanitization: SanitizationResult | undefined;
-
-      // Step 3: Apply sanitization if required
-      let processedContent = pdfText;
-      if (consent.sanitizationRequired && hasSensitiveContent) {
-        sanitization = sanitizeDocument(pdfText);
-        processedContent = sanitization.sanitizedContent;
+  /**
+   * Step 2: sanitizes the text as consented, runs the provider for the chosen method and the deterministic rules,
+   * and locates the issues on the original PDF
+   */
+  async analyzeDocument(context: SecureReviewContext, fileBuffer: Buffer, pages: string[]): Promise<SecureAnalysis> {
+    const { consent, fileName, userId } = context;
+    const content = pages.join('\f');
+    const sanitizationOptions = sanitizationOptionsFor(consent);
+    let sanitization: SanitizationResult | undefined;
+    let tokenMap: TokenMap | undefined;
+
+    let processedContent = content;
+    if (consent.sanitizationRequired && detectSensitiveContent(content, sanitizationOptions)) {
+      if (consent.sanitizationMode === 'pseudonymize') {
+        ({ sanitization, tokenMap } = pseudonymize(content, sanitizationOptions));
+      } else {
+        sanitization = sanitizeDocument(content, sanitizationOptions);
       }
+      processedContent = sanitization.sanitizedContent;
+    }
 
-      // Audit log document upload and classification
-      await auditLog(
-        AuditAction.DOCUMENT_UPLOAD,
-        { ...auditContext, documentClassification: classification.classification },
-        {
-          file_name: fileName,
-          file_size: fileBuffer.length,
-          classification: classification.classification,
-          confidence: classification.confidence,
-          sensitive_data_detected: hasSensitiveContent,
-          sanitization_applied: !!sanitization
-        }
-      );
-
-      // Step 4: Record consent
-      await auditLog(
-        AuditAction.EXTERNAL_AI_CONSENT,
-        auditContext,
+    const [providerResult, layout] = await Promise.all([
+      this.runAnalysisProvider(
+        providerForConsent(consent, context.provider),
         {
-          processing_method: consent.processingMethod,
-          consent_retention_days: consent.dataRetention,
-          sanitization_required: consent.sanitizationRequired,
-          explicit_consent: consent.explicitConsent
+          fileName,
+          fileBuffer,
+          text: processedContent,
+          wasSanitized: !!sanitization,
+          userId
         }
-      );
-
-      // Step 5: Process document based on chosen method
-      let analysisResult: AnalysisResult;
-      const processingMethod = consent.processingMethod;
-
-      switch (processingMethod) {
-        case 'company_llm':
-          analysisResult = await this.processWithCompanyLLM(processedContent, fileName, !!sanitization);
-          break;
-        case 'external_ai':
-          analysisResult = await this.callGeminiSecure(fileBuffer, processedContent, !!sanitization);
-          break;
-        case 'local_patterns':
-          analysisResult = await this.processWithLocalPatterns(processedContent, fileName);
-          break;
-        case 'manual_only':
-          analysisResult = await this.processManualOnly(fileName);
-          break;
-        default:
-          throw new Error(`Unknown processing method: ${processingMethod}`);
-      }
-
-      // Step 6: Encrypt and store document
-      const encryptedDocument = encryptDocument(fileBuffer);
-      const documentId = await this.storeSecureDocument(
-        fileName,
-        analysisResult,
-        encryptedDocument,
-        classification.classification,
-        userId
-      );
+      ),
+      analyzeLayout(fileBuffer)
+    ]);
+    // Real values go back in, and the rules read the original pages, so issues quote the text on the PDF they are located on
+    const modelResult = tokenMap ? rehydrateAnalysis(providerResult, tokenMap) : providerResult;
+    const analysis = applyDeterministicRules(modelResult, pages, layout);
+    analysis.issues = await locateIssues(fileBuffer, analysis.issues);
+
+    // History keeps tokens or redactions; viewers of pseudonymized documents get the real values back from the token map
+    let stored = analysis;
+    if (tokenMap) {
+      stored = pseudonymizeStrings(analysis, tokenMap);
+    } else if (sanitization) {
+      stored = redactIssueText(analysis, sanitizationOptions);
+    }
 
-      // Step 7: Generate secure screenshots
-      const screenshotManager = getSecureScreenshotManager();
-      const secureScreenshots = await screenshotManager.generateSecureScreenshots(
-        fileBuffer,
-        fileName,
-        analysisResult.issues,
-        userId,
-        classification.classification
-      );
+    return {
+      analysis,
+      stored,
+      sanitization: sanitization && {
+        detectedPatterns: sanitization.detectedPatterns,
+        redactionCount: sanitization.redactions.length
+      },
+      tokenMap
+    };
+  }
 
-      // Update analysis result with secure screenshots
-      analysisResult.issues.forEach((issue, index) => {
-        issue.screenshotUrl = secureScreenshots[index] || undefined;
-      });
+  /**
+   * Step 3: stores the analysis with the encrypted PDF and schedules its deletion. The PDF must be encrypted with a
+   * data key of its own, which from then on belongs to the stored document
+   */
+  async saveDocument(
+    context: SecureReviewContext,
+    secureAnalysis: SecureAnalysis,
+    classification: ClassificationResult,
+    encryptedDocument: EncryptionResult,
+    version?: VersionColumns
+  ): Promise<{ documentId: string; outcome: SecureReviewOutcome }> {
+    const { userId, orgId, consent, fileName } = context;
+    if (!encryptedDocument.dataKeyId) {
+      throw new Error('The document must be encrypted with a data key of its own');
+    }
 
-      // Step 8: Schedule retention
-      const retentionScheduled = documentId ? await this.scheduleRetention(
-        documentId,
-        userId,
-        fileName,
-        classification.classification,
-        consent.dataRetention
-      ) : false;
-
-      // Step 9: Final audit log
-      await auditLog(
-        AuditAction.DOCUMENT_PROCESSING_COMPLETE,
-        { ...auditContext, documentId: documentId || undefined, documentClassification: classification.classification },
-        {
-          issues_found: analysisResult.issues.length,
-          processing_method: processingMethod,
-          screenshots_generated: secureScreenshots.filter(url => url !== null).length,
-          retention_scheduled: retentionScheduled
-        }
-      );
+    const stored = await this.storeSecureDocument(
+      fileName,
+      secureAnalysis.stored,
+      encryptedDocument,
+      classification.classification,
+      consent.processingMethod,
+      { userId, orgId },
+      version,
+      secureAnalysis.tokenMap ? await encryptTokenMap(secureAnalysis.tokenMap, encryptedDocument.dataKeyId) : undefined
+    );
+
+    const retention = await this.scheduleRetention(
+      stored.id,
+      userId,
+      fileName,
+      classification.classification,
+      consent.dataRetention
+    );
 
-      return {
-        ...analysisResult,
-        documentId: documentId || undefined,
+    return {
+      documentId: stored.id,
+      outcome: {
         classification,
-        sanitization,
-        encryptionApplied: true,
-        consentRecorded: consent,
-        retentionScheduled,
-        processingMethod
-      };
-
-    } catch (error) {
-      // Audit log the error
-      await auditLog(
-        AuditAction.DOCUMENT_PROCESSING_COMPLETE,
-        auditContext,
-        {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          file_name: fileName
-        },
-        false,
-        error instanceof Error ? error.message : 'Document processing failed'
-      );
-
-      throw error;
-    }
+        sanitization: secureAnalysis.sanitization,
+        retentionScheduled: !!retention,
+        retentionExpiresAt: retention?.expiresAt,
+        versionNumber: stored.version_number,
+        previousVersionId: version?.previous_version_id ?? null
+      }
+    };
   }
 
-  private async classifyDocumentContent(
+  /**
+   * Step 4: generates screenshots encrypted with the document's data key, links them from the stored issues
+   * and records that the review is complete. Returns the reviewer's issues with their screenshots
+   */
+  async attachScreenshots(
+    context: SecureReviewContext,
     fileBuffer: Buffer,
-    fileName: string
-  ): Promise<ClassificationResult> {
-    try {
-      const text = await this.extractTextFromPdf(fileBuffer);
-      return classifyDocument(text, fileName);
-    } catch (error) {
-      // Fallback to filename-based classification
-      console.warn('Could not extract text for classification, using filename only');
-      return classifyDocument('', fileName);
+    document: { documentId: string; dataKeyId: string },
+    secureAnalysis: SecureAnalysis,
+    outcome: SecureReviewOutcome
+  ): Promise<AnalysisIssue[]> {
+    const { documentId, dataKeyId } = document;
+    const classification = outcome.classification.classification;
+    const screenshots = await getSecureScreenshotManager().generateSecureScreenshots(
+      fileBuffer,
+      context.fileName,
+      secureAnalysis.analysis.issues,
+      context.userId,
+      classification,
+      { documentId, dataKeyId }
+    );
+    const withScreenshots = (issues: AnalysisIssue[]) =>
+      issues.map((issue, index) => ({ ...issue, screenshotUrl: screenshots[index] || undefined }));
+
+    const { error } = await this.supabase
+      .from('demo_requests')
+      .update({ ai_result: { ...secureAnalysis.stored, issues: withScreenshots(secureAnalysis.stored.issues) } })
+      .eq('id', documentId);
+    if (error) {
+      throw new Error(`Failed to link screenshots: ${error.message}`);
     }
-  }
 
-  private async extractTextFromPdf(buffer: Buffer): Promise<string> {
-    try {
-      const pdf = await import('pdf-parse');
-      const data = await pdf.default(buffer);
-      return data.text || '';
-    } catch (error) {
-      console.error('Error extracting PDF text:', error);
-      return '';
-    }
+    await auditLog(
+      AuditAction.DOCUMENT_PROCESSING_COMPLETE,
+      { ...auditContextFor(context), documentId, documentClassification: classification },
+      {
+        issues_found: secureAnalysis.analysis.issues.length,
+        processing_method: context.consent.processingMethod,
+        screenshots_generated: screenshots.filter(url => url !== null).length,
+        retention_scheduled: outcome.retentionScheduled
+      }
+    );
+
+    return withScreenshots(secureAnalysis.analysis.issues);
   }
 
   /**
-   * Processes document using company's internal LLM
+   * Records a review that failed for good
    */
-  private async processWithCompanyLLM(
-    content: string,
-    fileName: string,
-    wasSanitized: boolean
-  ): Promise<AnalysisResult> {
-    try {
-      return await analyzeDocumentWithCompanyLLM(content, fileName, wasSanitized);
-    } catch (error) {
-      console.error('Company LLM processing failed, falling back to local patterns:', error);
-      // Fallback to local patterns if company LLM fails
-      return await this.processWithLocalPatterns(content, fileName);
-    }
+  async recordFailure(context: SecureReviewContext, error: unknown): Promise<void> {
+    await auditLog(
+      AuditAction.DOCUMENT_PROCESSING_COMPLETE,
+      auditContextFor(context),
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        file_name: context.fileName
+      },
+      false,
+      error instanceof Error ? error.message : 'Document processing failed'
+    );
   }
 
   /**
-   * Processes document using local pattern matching
+   * Page text of the PDF; empty when no text can be extracted, so the review goes on with the PDF alone
    */
-  private async processWithLocalPatterns(content: string, fileName: string): Promise<AnalysisResult> {
-    return await processDocumentWithPatterns(content, fileName);
+  private async extractPages(buffer: Buffer): Promise<string[]> {
+    try {
+      const { pages } = await extractPdfText(buffer);
+      return pages;
+    } catch (error) {
+      console.error('Error extracting PDF text:', error);
+      return [];
+    }
   }
 
   /**
-   * Creates a minimal result for manual-only processing
+   * Runs the named analysis provider, falling back to local patterns if the company LLM fails
    */
-  private async processManualOnly(fileName: string): Promise<AnalysisResult> {
-    return {
-      fileName,
-      issues: [{
-        page: 1,
-        type: 'other',
-        message: 'Document uploaded for manual review only',
-        original: '',
-        suggestion: 'Please review this document manually',
-        locationHint: 'Manual review required'
-      }],
-      summary: {
-        issueCount: 1,
-        pagesAffected: [1]
-      }
-    };
-  }
-
-  private async callGeminiSecure(
-    originalBuffer: Buffer,
-    processedContent: string,
-    wasSanitized: boolean
-  ): Promise<AnalysisResult> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) throw new Error('Server missing GEMINI_API_KEY');
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-    const prompt = `
-Act as a PDF QA checker for a data science team specializing in subscription documents.
-${wasSanitized ? 'NOTE: This document has been sanitized to remove sensitive information.' : ''}
-First, extract all section headers (e.g., "Section 1", "Section I", "Appendix A").
-Then, for each cross-reference found in the text (e.g., "see Section 1"), check if the referenced section header actually exists.
-If a cross-reference points to a non-existent section, emit an issue object with the type 'cross_reference'.
-Also, detect standard typos and formatting issues (spacing, punctuation, capitalization, alignment, font inconsistencies, numbering/bullets).
-
-ADDITIONALLY, detect the following logic points that require customer confirmation and emit as type 'logic_point':
-1. Funds exclusiveness issues - multiple funds mentioned without clear exclusiveness
-2. Missing pages or mismatched table of contents
-3. LPA/PA/PPM references that may be incorrect or outdated
-4. Subscription amount or percentage discrepancies
-5. Date inconsistencies (closing dates, commitment periods)
-6. Signature page issues or missing signatures
-7. Capital call timing or process unclear
-8. Management fee calculation errors
-9. Carried interest terms unclear
-10. Investment period definitions inconsistent
-11. Key person provisions unclear
-12. Transfer restrictions not properly defined
-13. Advisory committee composition unclear
-14. Indemnification terms inconsistent
-15. Tax election procedures unclear
-16. Reporting frequency or format unclear
-17. Termination or withdrawal provisions inconsistent
-
-For logic_point issues, the message should describe what needs customer confirmation, original should contain the problematic text, and suggestion should indicate what clarification is needed.
-
-Return STRICT JSON ONLY (no prose, no code fences) matching this schema:\n{\n  "fileName": "string",\n  "issues": [\n    {\n      "page": 1,\n      "type": "typo|spacing|punctuation|capitalization|alignment|font|formatting|cross_reference|logic_point|other",\n      "message": "string",\n      "original": "string",\n      "suggestion": "string",\n      "locationHint": "paragraph/line context or short snippet"\n    }\n  ],\n  "summary": { "issueCount": 0, "pagesAffected": [1, 2 ] }\n}\n`;
+  private async runAnalysisProvider(providerName: string, input: AnalysisInput): Promise<AnalysisResult> {
+    const provider = withPageWindows(getAnalysisProvider(providerName));
+    // Providers that only read the PDF would receive every value sanitization removed
+    if (input.wasSanitized && !provider.capabilities.supportsSanitizedInput) {
+      throw new Error(`The ${provider.name} provider reads the original PDF and cannot be used when sanitization is required`);
+    }
 
     try {
-      const base64File = originalBuffer.toString('base64');
-      const modelPromise = model.generateContent([
-        prompt,
-        { inlineData: { data: base64File, mimeType: 'application/pdf' } },
-      ]);
-
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Model timeout')), MODEL_TIMEOUT);
-      });
-
-      const result = await Promise.race([modelPromise, timeoutPromise]);
-      const raw = result.response.text().trim();
-
-      const jsonMatch = raw.match(/```json\n([\s\S]*?)\n```/);
-      let cleaned = raw;
-      if (jsonMatch && jsonMatch[1]) {
-        cleaned = jsonMatch[1].trim();
-      } else {
-        cleaned = raw.replace(/```json|```/g, '').trim();
+      return await provider.analyze(input);
+    } catch (error) {
+      if (provider.name !== 'company_llm') {
+        throw error;
       }
-
-      const parsed = JSON.parse(cleaned) as AnalysisResult;
-      return parsed;
-    } catch (e) {
-      console.error('Error calling Gemini securely:', e);
-      throw new Error('Failed to get a valid JSON response from the model.');
+      console.error('Company LLM processing failed, falling back to local patterns:', error);
+      return await withPageWindows(getAnalysisProvider('local_patterns')).analyze(input);
     }
   }
 
@@ -364,34 +490,34 @@ Return STRICT JSON ONLY (no prose, no code fences) matching this schema:\n{\n  "
     analysisResult: AnalysisResult,
     encryptedDocument: EncryptionResult,
     classification: DocumentClassification,
-    userId: string
-  ): Promise<string | null> {
-    try {
-      const { data, error } = await this.supabase
-        .from('demo_requests')
-        .insert({
-          user_input: fileName,
-          ai_result: analysisResult,
-          encrypted_document: encryptedDocument.encrypted,
-          encryption_iv: encryptedDocument.iv,
-          encryption_auth_tag: encryptedDocument.authTag,
-          document_classification: classification,
-          created_by: userId,
-          created_at: new Date().toISOString()
-        })
-        .select('id')
-        .single();
-
-      if (error) {
-        console.error('Error storing secure document:', error);
-        return null;
-      }
-
-      return data?.id || null;
-    } catch (error) {
+    processingMethod: ProcessingMethod,
+    owner: DocumentOwner,
+    version: VersionColumns | undefined,
+    pseudonymMap?: EncryptionResult
+  ): Promise<{ id: string; version_number: number }> {
+    const insert = (versionColumns?: VersionColumns) => this.supabase
+      .from('demo_requests')
+      .insert({
+        user_input: fileName,
+        ai_result: analysisResult,
+        ...toEncryptedColumns(encryptedDocument),
+        pseudonym_map: pseudonymMap ?? null,
+        document_classification: classification,
+        processing_method: processingMethod,
+        ...toOwnerColumns(owner),
+        ...versionColumns,
+        created_at: new Date().toISOString()
+      })
+      .select('id, version_number')
+      .single();
+    const { data, error } = version ? await insertDocumentVersion(version, insert) : await insert();
+
+    // Review jobs retry the stage and shred the data key once they give up, so nothing is left behind
+    if (error || !data) {
       console.error('Error storing secure document:', error);
-      return null;
+      throw new Error(`Failed to store the document: ${error?.message || 'no id returned'}`);
     }
+    return data;
   }
 
   private async scheduleRetention(
@@ -400,19 +526,18 @@ Return STRICT JSON ONLY (no prose, no code fences) matching this schema:\n{\n  "
     fileName: string,
     classification: DocumentClassification,
     retentionDays: number
-  ): Promise<boolean> {
+  ): Promise<ScheduledRetention | null> {
     try {
-      const retentionId = await scheduleDocumentRetention(
+      return await scheduleDocumentRetention(
         documentId,
         userId,
         fileName,
         classification,
         retentionDays
       );
-      return retentionId !== null;
     } catch (error) {
       console.error('Error scheduling retention:', error);
-      return false;
+      return null;
     }
   }
 }
@@ -425,4 +550,4 @@ export const getSecureReviewService = (): SecureReviewService => {
     secureReviewInstance = new SecureReviewService();
   }
   return secureReviewInstance;
-};
\ No newline at end of file
+};
@@ -1,9 +1,14 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { createCanvas } from 'canvas';
-import { encryptDocument, decryptDocument, type EncryptionResult } from './encryption';
+import { renderPageImage, getPageRenderCache } from './page-image';
+import type { BoundingBox } from './pdf-layout';
+import { encryptDocument, getEncryption, type EncryptionResult } from './encryption';
+import { encryptWithDataKey, decryptPayload } from './envelope-encryption';
 import { auditLog, AuditAction, type AuditContext } from './audit-logger';
 import { DocumentClassification } from './document-classification';
+import { getStorageBackend, type StorageBackend } from './storage';
+import { createServerSupabase } from './supabaseServer';
+import { canAccessDocument } from './document-access';
+
+export const SCREENSHOT_PREFIX = 'secure-screenshots';
 
 export interface SecureScreenshotOptions {
   pdfBuffer: Buffer;
@@ -11,6 +16,9 @@ export interface SecureScreenshotOptions {
   fileName: string;
   issueIndex: number;
   userId: string;
+  documentId?: string;
+  dataKeyId?: string; // Data key of the document; screenshots are shredded along with it
+  bbox?: BoundingBox;
   documentClassification?: DocumentClassification;
   retentionHours?: number;
 }
@@ -24,22 +32,47 @@ export interface SecureScreenshotMetadata {
   expiresAt: string;
   classification: DocumentClassification;
   userId: string;
+  documentId?: string;
   checksum: string;
 }
 
+export interface SecureScreenshotRow {
+  id: string;
+  user_id: string;
+  document_id: string | null;
+  file_name: string;
+  page_number: number;
+  issue_index: number;
+  classification: DocumentClassification;
+  checksum: string;
+  created_at: string;
+  expires_at: string;
+}
+
 export interface EncryptedScreenshot {
   metadata: SecureScreenshotMetadata;
   encryption: EncryptionResult;
 }
 
+export const toScreenshotRow = (metadata: SecureScreenshotMetadata): SecureScreenshotRow => ({
+  id: metadata.id,
+  user_id: metadata.userId,
+  document_id: metadata.documentId ?? null,
+  file_name: metadata.fileName,
+  page_number: metadata.pageNumber,
+  issue_index: metadata.issueIndex,
+  classification: metadata.classification,
+  checksum: metadata.checksum,
+  created_at: metadata.createdAt,
+  expires_at: metadata.expiresAt
+});
+
 export class SecureScreenshotManager {
-  private secureDir: string;
-  private metadataFile: string;
+  private storage: StorageBackend;
+  private supabase = createServerSupabase();
 
-  constructor() {
-    this.secureDir = path.join(process.cwd(), 'secure-temp');
-    this.metadataFile = path.join(this.secureDir, 'screenshot-metadata.json');
-    this.ensureSecureDirectoryExists();
+  constructor(storage: StorageBackend = getStorageBackend()) {
+    this.storage = storage;
   }
 
   /**
@@ -52,13 +85,16 @@ export class SecureScreenshotManager {
       fileName,
       issueIndex,
       userId,
+      documentId,
+      dataKeyId,
+      bbox,
       documentClassification = DocumentClassification.INTERNAL,
       retentionHours = 24
     } = options;
 
     try {
       // Generate screenshot
-      const imageBuffer = await this.generateScreenshotBuffer(pdfBuffer, pageNumber);
+      const imageBuffer = await this.generateScreenshotBuffer(pdfBuffer, pageNumber, bbox);
       if (!imageBuffer) {
         return null;
       }
@@ -77,11 +113,14 @@ export class SecureScreenshotManager {
         expiresAt: expiresAt.toISOString(),
         classification: documentClassification,
         userId,
+        documentId,
         checksum
       };
 
       // Encrypt screenshot
-      const encryption = encryptDocument(imageBuffer);
+      const encryption = dataKeyId
+        ? await encryptWithDataKey(imageBuffer, dataKeyId)
+        : encryptDocument(imageBuffer);
 
       // Store encrypted screenshot
       const encryptedScreenshot: EncryptedScreenshot = {
@@ -90,11 +129,12 @@ export class SecureScreenshotManager {
       };
 
       await this.storeEncryptedScreenshot(screenshotId, encryptedScreenshot);
-      await this.updateMetadataIndex(metadata);
+      await this.insertMetadata(metadata);
 
       // Audit log
       const auditContext: AuditContext = {
         userId,
+        documentId,
         documentClassification
       };
 
@@ -143,7 +183,8 @@ export class SecureScreenshotManager {
    */
   async getSecureScreenshot(
     screenshotId: string,
-    userId: string
+    userId: string,
+    orgId?: string | null
   ): Promise<{ buffer: Buffer; metadata: SecureScreenshotMetadata } | null> {
     try {
       const encryptedScreenshot = await this.loadEncryptedScreenshot(screenshotId);
@@ -153,12 +194,15 @@ export class SecureScreenshotManager {
 
       // Check expiration
       if (new Date() > new Date(encryptedScreenshot.metadata.expiresAt)) {
-        await this.deleteExpiredScreenshot(screenshotId);
+        await this.removeScreenshot(screenshotId);
         return null;
       }
 
-      // Check user access (basic check - owner only)
-      if (encryptedScreenshot.metadata.userId !== userId) {
+      // Owners always have access; teammates only while the document is shared with their organization
+      const { metadata } = encryptedScreenshot;
+      const hasAccess = metadata.userId === userId ||
+        (!!metadata.documentId && await canAccessDocument(metadata.documentId, { userId, orgId }));
+      if (!hasAccess) {
         // Audit log unauthorized access attempt
         const auditContext: AuditContext = {
           userId,
@@ -181,7 +225,7 @@ export class SecureScreenshotManager {
       }
 
       // Decrypt screenshot
-      const buffer = decryptDocument(encryptedScreenshot.encryption);
+      const buffer = await decryptPayload(encryptedScreenshot.encryption);
 
       // Verify integrity
       const checksum = this.generateChecksum(buffer);
@@ -221,24 +265,41 @@ export class SecureScreenshotManager {
   async generateSecureScreenshots(
     pdfBuffer: Buffer,
     fileName: string,
-    issues: Array<{ page: number }>,
+    issues: Array<{ page: number; bbox?: BoundingBox }>,
     userId: string,
-    documentClassification?: DocumentClassification
+    documentClassification?: DocumentClassification,
+    options: { documentId?: string; dataKeyId?: string } = {}
   ): Promise<Array<string | null>> {
-    const screenshots: Array<string | null> = [];
+    const screenshots: Array<string | null> = new Array(issues.length).fill(null);
+    const renderCache = getPageRenderCache();
+    const startedAt = Date.now();
+    const before = renderCache.getStats();
 
-    for (let i = 0; i < issues.length; i++) {
-      const issue = issues[i];
-      const screenshotUrl = await this.generateSecureScreenshot({
-        pdfBuffer,
-        pageNumber: issue.page,
-        fileName,
-        issueIndex: i,
-        userId,
-        documentClassification
-      });
+    // Page order keeps each page in the render cache while all of its issues are cropped
+    const order = issues.map((_, i) => i).sort((a, b) => issues[a].page - issues[b].page);
 
-      screenshots.push(screenshotUrl);
+    try {
+      for (const i of order) {
+        const issue = issues[i];
+        screenshots[i] = await this.generateSecureScreenshot({
+          pdfBuffer,
+          pageNumber: issue.page,
+          fileName,
+          issueIndex: i,
+          userId,
+          documentId: options.documentId,
+          dataKeyId: options.dataKeyId,
+          bbox: issue.bbox,
+          documentClassification
+        });
+      }
+    } finally {
+      const after = renderCache.getStats();
+      console.log(
+        `Generated ${issues.length} screenshots in ${Date.now() - startedAt}ms ` +
+        `(${after.misses - before.misses} page renders, ${after.hits - before.hits} cache hits)`
+      );
+      await renderCache.releaseDocument(pdfBuffer);
     }
 
     return screenshots;
@@ -249,13 +310,18 @@ export class SecureScreenshotManager {
    */
   async cleanupExpiredScreenshots(): Promise<number> {
     try {
-      const metadata = await this.loadMetadataIndex();
-      const now = new Date();
-      let cleanedCount = 0;
+      const { data, error } = await this.supabase
+        .from('secure_screenshots')
+        .select('id')
+        .lte('expires_at', new Date().toISOString());
+
+      if (error) {
+        throw error;
+      }
 
-      for (const screenshotMetadata of metadata) {
-        if (now > new Date(screenshotMetadata.expiresAt)) {
-          await this.deleteExpiredScreenshot(screenshotMetadata.id);
+      let cleanedCount = 0;
+      for (const { id } of data || []) {
+        if (await this.removeScreenshot(id)) {
           cleanedCount++;
         }
       }
@@ -267,27 +333,64 @@ export class SecureScreenshotManager {
     }
   }
 
+  /**
+   * Ids of every screenshot taken of a document
+   */
+  async getDocumentScreenshotIds(documentId: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('secure_screenshots')
+      .select('id')
+      .eq('document_id', documentId);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(({ id }) => id);
+  }
+
+  /**
+   * Deletes every screenshot taken of a document
+   */
+  async deleteDocumentScreenshots(documentId: string): Promise<number> {
+    try {
+      let deletedCount = 0;
+      for (const id of await this.getDocumentScreenshotIds(documentId)) {
+        if (await this.removeScreenshot(id)) {
+          deletedCount++;
+        }
+      }
+
+      return deletedCount;
+    } catch (error) {
+      console.error('Error deleting document screenshots:', error);
+      return 0;
+    }
+  }
+
   /**
    * Deletes a specific screenshot
    */
   async deleteScreenshot(screenshotId: string, userId: string): Promise<boolean> {
     try {
-      const encryptedScreenshot = await this.loadEncryptedScreenshot(screenshotId);
-      if (!encryptedScreenshot) {
+      const metadata = await this.getMetadata(screenshotId);
+      if (!metadata) {
         return false;
       }
 
       // Check ownership
-      if (encryptedScreenshot.metadata.userId !== userId) {
+      if (metadata.user_id !== userId) {
         return false;
       }
 
-      await this.deleteExpiredScreenshot(screenshotId);
+      if (!await this.removeScreenshot(screenshotId)) {
+        return false;
+      }
 
       // Audit log
       const auditContext: AuditContext = {
         userId,
-        documentClassification: encryptedScreenshot.metadata.classification
+        documentId: metadata.document_id || undefined,
+        documentClassification: metadata.classification
       };
 
       await auditLog(
@@ -306,43 +409,50 @@ export class SecureScreenshotManager {
     }
   }
 
-  private async generateScreenshotBuffer(pdfBuffer: Buffer, pageNumber: number): Promise<Buffer | null> {
-    try {
-      const pdfjs = await import('pdfjs-dist');
-      pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.js';
+  /**
+   * Re-encrypts stored screenshots that are not under the active key; returns how many were rewritten
+   */
+  async rotateScreenshotKeys(): Promise<{ rotated: number; failed: number }> {
+    const encryption = getEncryption();
+    const { data, error } = await this.supabase
+      .from('secure_screenshots')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to list screenshots: ${error.message}`);
+    }
 
-      // Load PDF document
-      const pdfDocument = await pdfjs.getDocument({
-        data: pdfBuffer,
-        useSystemFonts: true
-      }).promise;
+    let rotated = 0;
+    let failed = 0;
+    for (const { id } of data || []) {
+      try {
+        const encryptedScreenshot = await this.loadEncryptedScreenshot(id);
+        if (!encryptedScreenshot || !encryption.needsRotation(encryptedScreenshot.encryption)) {
+          continue;
+        }
 
-      if (pageNumber > pdfDocument.numPages) {
-        throw new Error(`Page ${pageNumber} does not exist in PDF`);
+        await this.storeEncryptedScreenshot(id, {
+          ...encryptedScreenshot,
+          encryption: encryption.reencrypt(encryptedScreenshot.encryption)
+        });
+        rotated++;
+      } catch (error) {
+        console.error(`Error rotating key for screenshot ${id}:`, error);
+        failed++;
       }
+    }
 
-      // Get the specific page
-      const page = await pdfDocument.getPage(pageNumber);
-
-      // Set up rendering context
-      const scale = 2.0; // Higher scale for better quality
-      const viewport = page.getViewport({ scale });
-
-      // Create canvas
-      const canvas = createCanvas(viewport.width, viewport.height);
-      const context = canvas.getContext('2d');
-
-      // Render page to canvas
-      const renderContext = {
-        canvasContext: context as any,
-        viewport: viewport,
-      };
-
-      await page.render(renderContext).promise;
-
-      // Convert canvas to buffer
-      return canvas.toBuffer('image/jpeg', { quality: 0.9 });
+    return { rotated, failed };
+  }
 
+  private async generateScreenshotBuffer(
+    pdfBuffer: Buffer,
+    pageNumber: number,
+    bbox?: BoundingBox
+  ): Promise<Buffer | null> {
+    try {
+      // Crop to the issue when we know where it is, otherwise show the whole page
+      return await renderPageImage(pdfBuffer, pageNumber, { highlight: bbox });
     } catch (error) {
       console.error('Error generating screenshot buffer:', error);
       return null;
@@ -360,76 +470,72 @@ export class SecureScreenshotManager {
     return crypto.createHash('sha256').update(buffer).digest('hex');
   }
 
-  private ensureSecureDirectoryExists(): void {
-    if (!fs.existsSync(this.secureDir)) {
-      fs.mkdirSync(this.secureDir, { recursive: true, mode: 0o700 });
-    }
+  private screenshotKey(id: string): string {
+    return `${SCREENSHOT_PREFIX}/${id}.enc`;
   }
 
   private async storeEncryptedScreenshot(id: string, encryptedScreenshot: EncryptedScreenshot): Promise<void> {
-    const filePath = path.join(this.secureDir, `${id}.enc`);
-    const data = JSON.stringify(encryptedScreenshot);
-    fs.writeFileSync(filePath, data, { mode: 0o600 });
+    const data = Buffer.from(JSON.stringify(encryptedScreenshot));
+    await this.storage.put(this.screenshotKey(id), data, { contentType: 'application/json' });
   }
 
   private async loadEncryptedScreenshot(id: string): Promise<EncryptedScreenshot | null> {
     try {
-      const filePath = path.join(this.secureDir, `${id}.enc`);
-      if (!fs.existsSync(filePath)) {
+      const data = await this.storage.get(this.screenshotKey(id));
+      if (!data) {
         return null;
       }
 
-      const data = fs.readFileSync(filePath, 'utf8');
-      return JSON.parse(data);
+      return JSON.parse(data.toString('utf8'));
     } catch (error) {
       console.error('Error loading encrypted screenshot:', error);
       return null;
     }
   }
 
-  private async updateMetadataIndex(metadata: SecureScreenshotMetadata): Promise<void> {
-    try {
-      const existingMetadata = await this.loadMetadataIndex();
-      existingMetadata.push(metadata);
+  private async insertMetadata(metadata: SecureScreenshotMetadata): Promise<void> {
+    const { error } = await this.supabase
+      .from('secure_screenshots')
+      .insert(toScreenshotRow(metadata));
 
-      // Keep only non-expired entries
-      const now = new Date();
-      const validMetadata = existingMetadata.filter(m => now < new Date(m.expiresAt));
-
-      fs.writeFileSync(this.metadataFile, JSON.stringify(validMetadata, null, 2), { mode: 0o600 });
-    } catch (error) {
-      console.error('Error updating metadata index:', error);
+    if (error) {
+      throw new Error(`Failed to save screenshot metadata: ${error.message}`);
     }
   }
 
-  private async loadMetadataIndex(): Promise<SecureScreenshotMetadata[]> {
-    try {
-      if (!fs.existsSync(this.metadataFile)) {
-        return [];
-      }
+  private async getMetadata(id: string): Promise<SecureScreenshotRow | null> {
+    const { data, error } = await this.supabase
+      .from('secure_screenshots')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
 
-      const data = fs.readFileSync(this.metadataFile, 'utf8');
-      return JSON.parse(data);
-    } catch (error) {
-      console.error('Error loading metadata index:', error);
-      return [];
+    if (error) {
+      console.error('Error loading screenshot metadata:', error);
+      return null;
     }
+    return data;
   }
 
-  private async deleteExpiredScreenshot(id: string): Promise<void> {
+  /**
+   * Deletes the encrypted image, then its metadata row so a failed delete is retried by the next cleanup
+   */
+  private async removeScreenshot(id: string): Promise<boolean> {
     try {
-      // Delete encrypted file
-      const filePath = path.join(this.secureDir, `${id}.enc`);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+      await this.storage.delete(this.screenshotKey(id));
+
+      const { error } = await this.supabase
+        .from('secure_screenshots')
+        .delete()
+        .eq('id', id);
 
-      // Update metadata index
-      const metadata = await this.loadMetadataIndex();
-      const filteredMetadata = metadata.filter(m => m.id !== id);
-      fs.writeFileSync(this.metadataFile, JSON.stringify(filteredMetadata, null, 2), { mode: 0o600 });
+      if (error) {
+        throw error;
+      }
+      return true;
     } catch (error) {
-      console.error('Error deleting expired screenshot:', error);
+      console.error('Error deleting screenshot:', error);
+      return false;
     }
   }
 }
@@ -449,6 +555,6 @@ export const generateSecureScreenshot = (options: SecureScreenshotOptions): Prom
   return getSecureScreenshotManager().generateSecureScreenshot(options);
 };
 
-export const getSecureScreenshot = (screenshotId: string, userId: string) => {
-  return getSecureScreenshotManager().getSecureScreenshot(screenshotId, userId);
+export const getSecureScreenshot = (screenshotId: string, userId: string, orgId?: string | null) => {
+  return getSecureScreenshotManager().getSecureScreenshot(screenshotId, userId, orgId);
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createServerSupabase } from './supabaseServer';
+
+export interface PutOptions {
+  contentType: string;
+}
+
+export interface StorageBackend {
+  name: string;
+  put(key: string, data: Buffer, options: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  /**
+   * Short-lived URL the browser can load directly, or null when the backend can only be read through the server
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
+
+export type StorageBackendName = 'local' | 'supabase';
+
+export const DEFAULT_SCREENSHOT_BUCKET = 'review-screenshots';
+export const SIGNED_URL_TTL_SECONDS = Number(process.env.SIGNED_URL_TTL_SECONDS) || 300;
+
+/**
+ * Rejects keys that could escape the storage root or bucket prefix
+ */
+const assertSafeKey = (key: string): void => {
+  if (!key || key.startsWith('/') || key.split('/').some(part => part === '..' || part === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+export class LocalStorageBackend implements StorageBackend {
+  name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(filePath, data, { mode: 0o600 });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const filePath = this.resolve(key);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  async getSignedUrl(): Promise<string | null> {
+    // Local files are only reachable through the API
+    return null;
+  }
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.rootDir, key);
+  }
+}
+
+export class SupabaseStorageBackend implements StorageBackend {
+  name = 'supabase';
+  private supabase = createServerSupabase();
+
+  constructor(private bucket: string) {}
+
+  async put(key: string, data: Buffer, options: PutOptions): Promise<void> {
+    assertSafeKey(key);
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType: options.contentType, upsert: true });
+
+    if (error) {
+      throw new Error(`Failed to upload ${key} to storage: ${error.message}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertSafeKey(key);
+    const { data, error } = await this.supabase.storage.from(this.bucket).download(key);
+
+    if (error || !data) {
+      return null;
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    assertSafeKey(key);
+    const { error } = await this.supabase.storage.from(this.bucket).remove([key]);
+
+    if (error) {
+      throw new Error(`Failed to delete ${key} from storage: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null> {
+    assertSafeKey(key);
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(key, expiresInSeconds);
+
+    if (error || !data) {
+      console.error('Error creating signed URL:', error);
+      return null;
+    }
+    return data.signedUrl;
+  }
+}
+
+// Singleton instance
+let storageBackendInstance: StorageBackend | null = null;
+
+/**
+ * Gets the backend configured through STORAGE_BACKEND; local disk unless set to supabase
+ */
+export const getStorageBackend = (): StorageBackend => {
+  if (!storageBackendInstance) {
+    const backend = (process.env.STORAGE_BACKEND || 'local') as StorageBackendName;
+    if (backend === 'supabase') {
+      storageBackendInstance = new SupabaseStorageBackend(process.env.SCREENSHOT_BUCKET || DEFAULT_SCREENSHOT_BUCKET);
+    } else if (backend === 'local') {
+      storageBackendInstance = new LocalStorageBackend(
+        path.join(process.cwd(), process.env.LOCAL_STORAGE_DIR || 'secure-temp')
+      );
+    } else {
+      throw new Error(`Unknown storage backend: ${backend}`);
+    }
+  }
+  return storageBackendInstance;
+};
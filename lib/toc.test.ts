@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTableOfContents, TOC_ENTRY_RE } from './toc';
+
+const entry = (line: string) => {
+  const m = line.match(TOC_ENTRY_RE);
+  return m ? [m[1], Number(m[2])] : null;
+};
+
+describe('TOC_ENTRY_RE', () => {
+  it('reads titles followed by dot leaders', () => {
+    assert.deepEqual(entry('Article I Definitions ............ 3'), ['Article I Definitions', 3]);
+    assert.deepEqual(entry('  Section 2.1 Capital Contributions·········12  '), ['Section 2.1 Capital Contributions', 12]);
+    assert.deepEqual(entry('Exhibit A Form of Joinder …… 41'), ['Exhibit A Form of Joinder', 41]);
+  });
+
+  it('reads titles separated from the page by a wide gap or a tab', () => {
+    assert.deepEqual(entry('Investor Questionnaire      7'), ['Investor Questionnaire', 7]);
+    assert.deepEqual(entry('Signature Pages\t15'), ['Signature Pages', 15]);
+  });
+
+  it('ignores roman page numbers and sentences ending in a number', () => {
+    assert.equal(entry('Letter to Investors ........ ii'), null);
+    assert.equal(entry('The minimum commitment is USD 250000'), null);
+  });
+});
+
+describe('parseTableOfContents', () => {
+  it('finds the table after roman-numbered front matter and skips roman entries', () => {
+    const pages = [
+      'ACME GROWTH FUND II, L.P.\nSubscription Booklet',
+      'Letter to Investors\nThank you for your interest.\ni',
+      'TABLE OF CONTENTS\nLetter to Investors ........ i\nInstructions ........ 1\nArticle I Definitions ........ 2\nii',
+      'Instructions\nComplete every page.\n1',
+    ];
+
+    assert.deepEqual(parseTableOfContents(pages), {
+      pages: [3],
+      entries: [
+        { title: 'Instructions', printedPage: 1, tocPage: 3, line: 'Instructions ........ 1' },
+        { title: 'Article I Definitions', printedPage: 2, tocPage: 3, line: 'Article I Definitions ........ 2' },
+      ],
+    });
+  });
+
+  it('continues onto pages made mostly of entries', () => {
+    const pages = [
+      'Contents\nArticle I Definitions .... 1\nArticle II Subscription .... 2',
+      'Article III Representations .... 3\nArticle IV Transfers .... 4\nArticle V Miscellaneous .... 5\nii',
+      'ARTICLE I DEFINITIONS\nAs used in this Agreement the following terms apply.\n1',
+    ];
+
+    const toc = parseTableOfContents(pages);
+    assert.deepEqual(toc?.pages, [1, 2]);
+    assert.deepEqual(toc?.entries.map(e => e.printedPage), [1, 2, 3, 4, 5]);
+  });
+
+  it('returns null without a contents title or entries', () => {
+    assert.equal(parseTableOfContents(['Article I Definitions .... 1']), null);
+    assert.equal(parseTableOfContents(['Contents\nNothing listed yet.']), null);
+  });
+});
@@ -0,0 +1,61 @@
+import { extractPdfText } from './pdf';
+
+export interface TocEntry {
+  title: string;
+  printedPage: number; // Page number printed in the table of contents
+  tocPage: number; // 1-based page of the table of contents the entry is on
+  line: string;
+}
+
+export interface TableOfContents {
+  pages: number[]; // 1-based pages the table of contents spans
+  entries: TocEntry[];
+}
+
+const TOC_TITLE_RE = /^\s*(?:table\s+of\s+contents|contents)\s*$/im;
+// Title, then dot leaders or a wide gap, then the page number: "Article I Definitions ........ 3"
+export const TOC_ENTRY_RE = /^\s*(.*?[^\s.·…])\s*(?:[.·…]{2,}|\s{2,}|\t)\s*(\d{1,4})\s*$/;
+// Continuation pages have no title, so most of their lines must look like entries
+const MIN_CONTINUATION_ENTRIES = 3;
+const MIN_CONTINUATION_RATIO = 0.5;
+
+const parseEntries = (text: string, tocPage: number): TocEntry[] => {
+  const entries: TocEntry[] = [];
+  for (const line of text.split('\n')) {
+    const m = line.match(TOC_ENTRY_RE);
+    if (m && !TOC_TITLE_RE.test(m[1])) {
+      entries.push({ title: m[1].trim(), printedPage: Number(m[2]), tocPage, line: line.trim() });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Finds the table of contents in extracted page text and parses its entries
+ */
+export function parseTableOfContents(pages: string[]): TableOfContents | null {
+  const start = pages.findIndex(text => TOC_TITLE_RE.test(text));
+  if (start === -1) return null;
+
+  const toc: TableOfContents = { pages: [start + 1], entries: parseEntries(pages[start], start + 1) };
+
+  for (let i = start + 1; i < pages.length; i++) {
+    const lines = pages[i].split('\n').filter(line => line.trim());
+    const entries = parseEntries(pages[i], i + 1);
+    if (entries.length < MIN_CONTINUATION_ENTRIES || entries.length / lines.length < MIN_CONTINUATION_RATIO) {
+      break;
+    }
+    toc.pages.push(i + 1);
+    toc.entries.push(...entries);
+  }
+
+  return toc.entries.length > 0 ? toc : null;
+}
+
+/**
+ * Extracts the table of contents from a PDF
+ */
+export async function extractTableOfContents(buf: Buffer): Promise<TableOfContents | null> {
+  const { pages } = await extractPdfText(buf);
+  return parseTableOfContents(pages);
+}
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { auth } from '@clerk/nextjs/server';
 import { getRetentionManager } from '../../../lib/retention-policy';
 import { getSecureScreenshotManager } from '../../../lib/secure-screenshot';
+import { getHistoryDeletionService } from '../../../lib/history-deletion';
 import { auditLog, AuditAction, type AuditContext } from '../../../lib/audit-logger';
 
 interface CleanupResult {
@@ -10,6 +11,7 @@ interface CleanupResult {
     documentsProcessed: number;
     documentsDeleted: number;
     documentsArchived: number;
+    documentsPurged: number;
     screenshotsDeleted: number;
     notificationsSent: number;
     errors: string[];
@@ -55,8 +57,11 @@ export default async function handler(
     // Send retention notifications
     const notificationResults = await retentionManager.sendRetentionNotifications();
 
+    // Remove documents users deleted once their undo window has closed
+    const purgeResults = await getHistoryDeletionService().purgeDeletedDocuments();
+
     // Cleanup expired screenshots
-    const screenshotsDeleted = await screenshotManager.cleanupExpiredScreenshots();
+    const screenshotsDeleted = await screenshotManager.cleanupExpiredScreenshots() + purgeResults.screenshotsDeleted;
 
     const result: CleanupResult = {
       success: true,
@@ -64,9 +69,10 @@ export default async function handler(
         documentsProcessed: documentResults.processed,
         documentsDeleted: documentResults.deleted,
         documentsArchived: documentResults.archived,
+        documentsPurged: purgeResults.purged,
         screenshotsDeleted,
         notificationsSent: notificationResults.sent,
-        errors: [...documentResults.errors, ...notificationResults.errors]
+        errors: [...documentResults.errors, ...purgeResults.errors, ...notificationResults.errors]
       },
       executedAt: new Date().toISOString(),
       executionTimeMs: Date.now() - startTime
@@ -85,6 +91,7 @@ export default async function handler(
         cleanup_type: isValidCronRequest ? 'automated' : 'manual',
         documents_processed: documentResults.processed,
         documents_deleted: documentResults.deleted,
+        documents_purged: purgeResults.purged,
         screenshots_deleted: screenshotsDeleted,
         execution_time_ms: result.executionTimeMs,
         error_count: result.summary.errors.length
@@ -95,6 +102,7 @@ export default async function handler(
     console.log('Cleanup completed:', {
       documentsProcessed: documentResults.processed,
       documentsDeleted: documentResults.deleted,
+      documentsPurged: purgeResults.purged,
       screenshotsDeleted,
       errors: result.summary.errors.length
     });
@@ -132,6 +140,7 @@ export default async function handler(
         documentsProcessed: 0,
         documentsDeleted: 0,
         documentsArchived: 0,
+        documentsPurged: 0,
         screenshotsDeleted: 0,
         notificationsSent: 0,
         errors: [errorMessage]
@@ -4,6 +4,7 @@ import {
   EmailGenerationResult,
 } from '../../lib/email';
 import { generateEmailWithN8n } from '../../lib/n8n';
+import { loadTokenMap, pseudonymizeStrings, rehydrateStrings } from '../../lib/pseudonymizer';
 import { getAuth } from '@clerk/nextjs/server';
 
 export default async function handler(
@@ -18,10 +19,15 @@ export default async function handler(
 
   try {
     // Get user ID for audit trail
-    const { userId } = getAuth(req);
+    const { userId, orgId } = getAuth(req);
+
+    // Values pseudonymized during review go to the provider as tokens and come back as real text
+    const tokenMap = inputs.documentId && userId ? await loadTokenMap(inputs.documentId, { userId, orgId }) : null;
 
     // Call n8n webhook for email generation instead of Gemini
-    const result = await generateEmailWithN8n(inputs, userId || undefined);
+    const result = tokenMap
+      ? rehydrateStrings(await generateEmailWithN8n(pseudonymizeStrings(inputs, tokenMap), userId || undefined), tokenMap)
+      : await generateEmailWithN8n(inputs, userId || undefined);
     res.status(200).json(result);
   } catch (error) {
     console.error('Error generating email:', error);
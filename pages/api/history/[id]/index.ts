@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getHistoryDeletionService } from '../../../../lib/history-deletion';
+
+/**
+ * Deletes one of the caller's analyses; it can be restored until undoUntil
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid document ID' });
+  }
+
+  try {
+    const result = await getHistoryDeletionService().deleteDocuments({ userId, orgId }, [id], req);
+    // Teammates viewing a shared document cannot delete it, and get the same answer as for a missing one
+    if (result.deletedIds.length === 0) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    return res.status(200).json({ ok: true, ...result });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return res.status(500).json({ error: 'Failed to delete document' });
+  }
+}
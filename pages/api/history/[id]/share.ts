@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getDocumentAccessService } from '../../../../lib/document-access';
+import { auditLog, AuditAction } from '../../../../lib/audit-logger';
+
+/**
+ * Turns team sharing on or off for a document; body { shared: boolean }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+  const { shared } = req.body ?? {};
+  if (typeof id !== 'string' || typeof shared !== 'boolean') {
+    return res.status(400).json({ error: 'Expected a document id and { shared: boolean }' });
+  }
+
+  try {
+    // Only the owner can change sharing, and only for documents created inside an organization
+    const updated = await getDocumentAccessService().setSharing(id, { userId, orgId }, shared);
+    if (!updated) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    await auditLog(
+      AuditAction.DOCUMENT_ACCESS,
+      { req, userId, documentId: id },
+      { action: shared ? 'shared_with_org' : 'unshared_from_org', org_id: orgId ?? null }
+    );
+
+    return res.status(200).json({ ok: true, shared });
+  } catch (error) {
+    console.error('Error updating document sharing:', error);
+    return res.status(500).json({ error: 'Failed to update sharing' });
+  }
+}
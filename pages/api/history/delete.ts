@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getHistoryDeletionService } from '../../../lib/history-deletion';
+
+/**
+ * Deletes a selection of the caller's analyses ({ ids: string[] }) or all of them ({ all: true })
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { ids, all } = req.body ?? {};
+  const selection = Array.isArray(ids) && ids.length > 0 && ids.every(id => typeof id === 'string') ? ids as string[] : null;
+  if (all !== true && !selection) {
+    return res.status(400).json({ error: 'Expected { ids: string[] } or { all: true }' });
+  }
+
+  try {
+    const result = await getHistoryDeletionService().deleteDocuments(
+      { userId, orgId },
+      all === true ? 'all' : selection!,
+      req
+    );
+
+    return res.status(200).json({ ok: true, ...result });
+  } catch (error) {
+    console.error('Error deleting history:', error);
+    return res.status(500).json({ error: 'Failed to delete history' });
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getDocumentAccessService, parseHistoryCursor } from '../../../lib/document-access';
+import { parseHistoryQuery } from '../../../lib/history-query';
+
+/**
+ * One page of the caller's history, filtered by the same query parameters as the history page;
+ * pass the previous response's nextCursor as ?cursor= for the next page
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const cursorParam = Array.isArray(req.query.cursor) ? req.query.cursor[0] : req.query.cursor;
+  const cursor = cursorParam ? parseHistoryCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return res.status(400).json({ error: 'Invalid cursor' });
+  }
+
+  try {
+    const page = await getDocumentAccessService().searchDocuments(
+      { userId, orgId },
+      parseHistoryQuery(req.query),
+      cursor
+    );
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ ok: true, ...page });
+  } catch (error) {
+    console.error('Error searching history:', error);
+    return res.status(500).json({ error: 'Failed to load history' });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getHistoryDeletionService } from '../../../lib/history-deletion';
+
+/**
+ * Undoes a deletion of the caller's analyses ({ ids: string[] }) while the undo window is open
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { ids } = req.body ?? {};
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    return res.status(400).json({ error: 'Expected { ids: string[] }' });
+  }
+
+  try {
+    const restoredIds = await getHistoryDeletionService().restoreDocuments({ userId, orgId }, ids, req);
+    if (restoredIds.length === 0) {
+      return res.status(410).json({ error: 'Nothing to restore; the undo window may have closed' });
+    }
+
+    return res.status(200).json({ ok: true, restoredIds });
+  } catch (error) {
+    console.error('Error restoring history:', error);
+    return res.status(500).json({ error: 'Failed to restore history' });
+  }
+}
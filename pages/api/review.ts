@@ -1,12 +1,15 @@
 import { promises as fs } from 'fs';
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAnalysisProvider } from '../../lib/analysis-providers';
+import { getReviewJobService } from '../../lib/review-jobs';
 import {
-  parseForm,
-  normalizeData,
-  saveToSupabaseServer,
-} from '../../lib/review';
-import { analyzeDocumentWithN8n } from '../../lib/n8n';
+  getSecureReviewService,
+  parseEnhancedConsent,
+  providerForConsent,
+  type EnhancedConsentData
+} from '../../lib/secure-review';
 import { getAuth } from '@clerk/nextjs/server';
+import { canAccessDocument } from '../../lib/document-access';
 
 export const config = {
   api: {
@@ -14,6 +17,11 @@ export const config = {
   },
 };
 
+/**
+ * Queues a review of an upload through the secure pipeline under the consent sent with it: classification,
+ * sanitization, consent audit, encryption, secure screenshots and retention. Responds with the job id to poll
+ * at /api/review/[jobId]. Optional fundName and previousVersionId fields link the upload to earlier versions.
+ */
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -24,10 +32,13 @@ export default async function handler(
   }
 
   try {
-    // Get user ID for audit trail
-    const { userId } = getAuth(req);
+    // Get user and organization for audit trail and history ownership
+    const { userId, orgId } = getAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
 
-    const { files } = await parseForm(req);
+    const { fields, files } = await getSecureReviewService().parseSecureForm(req);
     const file = files.file;
 
     if (!file || file.length === 0) {
@@ -37,30 +48,50 @@ export default async function handler(
     const singleFile = Array.isArray(file) ? file[0] : file;
 
     const fileBuffer = await fs.readFile(singleFile.filepath);
-    const fileContent = fileBuffer.toString('base64');
 
-    // Call n8n webhook for analysis instead of Gemini
-    const rawResult = await analyzeDocumentWithN8n(
-      fileContent,
-      singleFile.originalFilename || 'uploaded_file',
-      userId || undefined
-    );
+    const consentField = Array.isArray(fields.consent) ? fields.consent[0] : fields.consent;
+    let consent: EnhancedConsentData;
+    try {
+      consent = parseEnhancedConsent(JSON.parse(consentField || 'null'));
+    } catch (consentError) {
+      const message = consentError instanceof SyntaxError ? 'consent must be a JSON object' : (consentError as Error).message;
+      return res.status(400).json({ error: message });
+    }
 
-    const normalizedData = normalizeData(
-      rawResult,
-      singleFile.originalFilename || 'uploaded_file'
-    );
-    normalizedData.summary.issueCount = normalizedData.issues.length;
+    // The consent's processing method picks the provider; one chosen per request must be covered by it
+    const providerField = Array.isArray(fields.provider) ? fields.provider[0] : fields.provider;
+    let provider: string;
+    try {
+      provider = providerForConsent(consent, providerField ? getAnalysisProvider(providerField).name : undefined);
+    } catch (providerError) {
+      return res.status(400).json({ error: (providerError as Error).message });
+    }
 
-    const { error } = await saveToSupabaseServer(normalizedData);
-    // Save to database
-    if (error) {
-      console.error('Supabase error:', error);
-      // Decide if you want to fail the request or just log the error
-      // For now, we'll just log it and proceed to return the data to the user.
+    // Optional lineage: fundName groups revised uploads automatically, previousVersionId links them explicitly
+    const fundName = Array.isArray(fields.fundName) ? fields.fundName[0] : fields.fundName;
+    const previousVersionId = Array.isArray(fields.previousVersionId) ? fields.previousVersionId[0] : fields.previousVersionId;
+    if (previousVersionId && !(await canAccessDocument(previousVersionId, { userId, orgId }))) {
+      return res.status(400).json({ error: 'Previous version not found' });
     }
 
-    return res.status(200).json({ ok: true, data: normalizedData });
+    const jobService = getReviewJobService();
+    const jobId = await jobService.createJob({
+      userId,
+      orgId: orgId || null,
+      fileName: singleFile.originalFilename || 'uploaded_file',
+      fileBuffer,
+      consent,
+      provider,
+      fundName,
+      previousVersionId,
+    });
+
+    // Stages run after the response; GET /api/review/[jobId] resumes the job if this worker dies
+    jobService.runJob(jobId).catch(error => {
+      console.error(`Review job ${jobId} stopped:`, error);
+    });
+
+    return res.status(202).json({ ok: true, jobId });
   } catch (e) {
     console.error('API Route Error:', e);
     const statusCode =
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getReviewJobService } from '../../../lib/review-jobs';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { userId, orgId } = getAuth(req);
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const jobId = Array.isArray(req.query.jobId) ? req.query.jobId[0] : req.query.jobId;
+
+    if (!jobId) {
+      return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const jobService = getReviewJobService();
+    const job = await jobService.getJob(jobId, userId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Review job not found' });
+    }
+
+    // Polling restarts the job in the background when the worker that started it is gone;
+    // runJob only claims it once the previous worker's lease has expired
+    if (job.status === 'queued' || job.status === 'running') {
+      jobService.runJob(job.id).catch(error => {
+        console.error(`Review job ${job.id} stopped:`, error);
+      });
+    }
+
+    return res.status(200).json({ ok: true, job: await jobService.toStatusResponse(job, { userId, orgId }) });
+  } catch (e) {
+    console.error('Review job status error:', e);
+    const message =
+      e instanceof Error ? e.message : 'An unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
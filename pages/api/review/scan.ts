@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { parseForm } from '../../../lib/review';
+import { extractPdfText } from '../../../lib/pdf';
+import { classifyDocument } from '../../../lib/document-classification';
+import { DocumentSanitizer } from '../../../lib/document-sanitizer';
+import { SANITIZATION_PACK_IDS } from '../../../lib/sanitization-packs';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+/**
+ * Sensitivity scan run before consent: classifies the PDF and counts what each rule pack would detect
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { files } = await parseForm(req);
+    const file = Array.isArray(files.file) ? files.file[0] : files.file;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const fileName = file.originalFilename || 'uploaded_file';
+    const { pages } = await extractPdfText(await fs.readFile(file.filepath));
+    const content = pages.join('\f');
+
+    const classification = classifyDocument(content, fileName);
+    // Every pack is scanned so the modal can warn about data the default packs would leave in
+    const detectedPatterns = DocumentSanitizer.forOptions({ packs: SANITIZATION_PACK_IDS })
+      .getSanitizationPreview(content);
+
+    // Nothing is stored; the response only goes back to the uploader
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({
+      ok: true,
+      fileName,
+      pageCount: pages.length,
+      classification: classification.classification,
+      confidence: classification.confidence,
+      reasons: classification.reasons,
+      sensitiveDataDetected: detectedPatterns.length > 0,
+      detectedPatterns,
+      companyLLMAvailable: !!(process.env.COMPANY_LLM_API_URL && process.env.COMPANY_LLM_API_KEY)
+    });
+  } catch (e) {
+    console.error('Sensitivity scan error:', e);
+    const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { parseForm } from '../../../lib/review';
+import { extractPdfText } from '../../../lib/pdf';
+import { previewSanitization } from '../../../lib/document-sanitizer';
+import {
+  DEFAULT_SANITIZATION_PACKS,
+  isSanitizationPackId,
+  type SanitizationPackId
+} from '../../../lib/sanitization-packs';
+
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const fieldValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+/**
+ * Dry run of sanitization: shows what the chosen rule packs would redact before consent is given
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { userId } = getAuth(req);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { fields, files } = await parseForm(req);
+    const file = Array.isArray(files.file) ? files.file[0] : files.file;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    // packs: comma-separated pack ids; allowList: JSON array of values to keep
+    const packsField = fieldValue(fields.packs);
+    const packs = packsField !== undefined
+      ? packsField.split(',').map(pack => pack.trim()).filter(Boolean)
+      : DEFAULT_SANITIZATION_PACKS;
+    const unknownPack = packs.find(pack => !isSanitizationPackId(pack));
+    if (unknownPack) {
+      return res.status(400).json({ error: `Unknown sanitization pack: ${unknownPack}` });
+    }
+
+    let allowList: string[] = [];
+    const allowListField = fieldValue(fields.allowList);
+    if (allowListField) {
+      try {
+        allowList = JSON.parse(allowListField);
+      } catch {
+        return res.status(400).json({ error: 'allowList must be a JSON array of strings' });
+      }
+      if (!Array.isArray(allowList) || allowList.some(entry => typeof entry !== 'string')) {
+        return res.status(400).json({ error: 'allowList must be a JSON array of strings' });
+      }
+    }
+
+    const { pages } = await extractPdfText(await fs.readFile(file.filepath));
+    const preview = previewSanitization(pages, { packs: packs as SanitizationPackId[], allowList });
+
+    // Nothing is stored; the response only goes back to the uploader
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ ok: true, packs, preview });
+  } catch (e) {
+    console.error('Sanitization preview error:', e);
+    const message = e instanceof Error ? e.message : 'An unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getScreenshotAccess, SCREENSHOT_PREFIX } from '../../../lib/screenshot';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { userId, orgId } = getAuth(req);
+    const segments = Array.isArray(req.query.key) ? req.query.key : [req.query.key].filter(Boolean) as string[];
+
+    if (segments.length < 2) {
+      return res.status(400).json({ error: 'Invalid screenshot key' });
+    }
+
+    const access = await getScreenshotAccess(`${SCREENSHOT_PREFIX}/${segments.join('/')}`, userId ? { userId, orgId } : null);
+    if (!access) {
+      return res.status(404).json({ error: 'Screenshot not found or access denied' });
+    }
+
+    // The URL in the saved review stays stable; each view gets a fresh short-lived link
+    if ('signedUrl' in access) {
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.redirect(302, access.signedUrl);
+    }
+
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Content-Length', access.buffer.length);
+    res.setHeader('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(access.buffer);
+
+  } catch (error) {
+    console.error('Error serving screenshot:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -14,7 +14,7 @@ export default async function handler(
 
   try {
     // Authenticate user
-    const { userId } = await auth();
+    const { userId, orgId } = await auth();
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
@@ -26,7 +26,7 @@ export default async function handler(
 
     // Get secure screenshot
     const screenshotManager = getSecureScreenshotManager();
-    const result = await screenshotManager.getSecureScreenshot(screenshotId, userId);
+    const result = await screenshotManager.getSecureScreenshot(screenshotId, userId, orgId);
 
     if (!result) {
       // Audit log failed access attempt
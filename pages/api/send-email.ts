@@ -1,11 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import type { EmailGenerationResult } from '../../lib/email';
 import { Resend } from 'resend';
+import { getAuth } from '@clerk/nextjs/server';
+import { getDocumentAccessService } from '../../lib/document-access';
 
 interface SendEmailRequest {
   recipientEmail: string;
   emailResult: EmailGenerationResult;
   scheduleTime?: number; // minutes from now
+  documentId?: string; // Reviewed document the email is about
+  issueIndexes?: number[]; // Its issues the email covers, as indexes into the analysis issues
 }
 
 interface SendEmailResponse {
@@ -16,6 +20,22 @@ interface SendEmailResponse {
   message?: string;
 }
 
+/**
+ * Remembers which issues the customer was asked to fix, so the next version's changes can be checked against them.
+ * The email has already gone out, so a failure is only logged
+ */
+async function recordEmailedIssues(req: NextApiRequest, documentId?: string, issueIndexes?: number[]) {
+  const { userId, orgId } = getAuth(req);
+  if (!userId || !documentId || !Array.isArray(issueIndexes)) {
+    return;
+  }
+
+  const recorded = await getDocumentAccessService().recordEmailedIssues(documentId, { userId, orgId }, issueIndexes);
+  if (!recorded) {
+    console.error('Could not record the issues emailed for document:', documentId);
+  }
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<SendEmailResponse | { error: string }>
@@ -24,7 +44,7 @@ export default async function handler(
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  const { recipientEmail, emailResult, scheduleTime }: SendEmailRequest = req.body;
+  const { recipientEmail, emailResult, scheduleTime, documentId, issueIndexes }: SendEmailRequest = req.body;
 
   // Validate required fields
   if (!recipientEmail || !emailResult) {
@@ -50,6 +70,8 @@ export default async function handler(
       console.log('Text Body:', emailResult.email.bodyText);
       console.log('=== END EMAIL DEMO ===');
 
+      await recordEmailedIssues(req, documentId, issueIndexes);
+
       return res.status(200).json({
         success: true,
         messageId: `demo-${Date.now()}`,
@@ -103,6 +125,8 @@ export default async function handler(
 
     console.log('Email sent successfully:', data);
 
+    await recordEmailedIssues(req, documentId, issueIndexes);
+
     return res.status(200).json({
       success: true,
       messageId: data?.id || `sent-${Date.now()}`,
@@ -1,10 +1,22 @@
-import { supabase } from '@/lib/supabaseClient';
 import type { GetServerSideProps } from 'next';
+import { clerkClient, getAuth } from '@clerk/nextjs/server';
+import { getDocumentAccessService } from '@/lib/document-access';
 import Link from 'next/link';
-import { useState } from 'react';
+import { useEffect, useState, type FormEvent } from 'react';
 import { useRouter } from 'next/router';
 import type { AnalysisIssue } from '@/lib/review';
+import {
+  HISTORY_CLASSIFICATIONS,
+  HISTORY_ISSUE_TYPES,
+  HISTORY_PROCESSING_METHODS,
+  HISTORY_SORTS,
+  hasActiveFilters,
+  parseHistoryQuery,
+  toHistoryQuery,
+  type HistoryFilters,
+} from '@/lib/history-query';
 import { RedirectToSignIn, SignedIn, SignedOut } from '@clerk/nextjs';
+import { Toast } from '@/components/ui/Toast';
 
 type HistoryItem = {
   id: string;
@@ -16,43 +28,184 @@ type HistoryItem = {
       issueCount: number;
     };
   };
+  created_by: string;
+  shared_with_org: boolean;
+  issue_count: number;
+  document_classification: string | null;
+  processing_method: string | null;
+  version_number: number;
+};
+
+type Reviewer = {
+  id: string;
+  name: string;
 };
 
 type HistoryProps = {
   requests: HistoryItem[];
+  nextCursor: string | null;
+  reviewers: Reviewer[];
+  currentUserId: string | null;
 };
 
-export default function History({ requests }: HistoryProps) {
+// Form fields mirror the URL query; numbers and dates are validated when the query is parsed
+type FilterForm = Record<Exclude<keyof HistoryFilters, 'sort'>, string>;
+
+const toFilterForm = (filters: HistoryFilters): FilterForm => ({
+  q: filters.q ?? '',
+  from: filters.from ?? '',
+  to: filters.to ?? '',
+  issueType: filters.issueType ?? '',
+  minIssues: filters.minIssues?.toString() ?? '',
+  maxIssues: filters.maxIssues?.toString() ?? '',
+  classification: filters.classification ?? '',
+  processingMethod: filters.processingMethod ?? '',
+  reviewer: filters.reviewer ?? '',
+});
+
+const PROCESSING_METHOD_LABELS: Record<string, string> = Object.fromEntries(
+  HISTORY_PROCESSING_METHODS.map(option => [option.value, option.label])
+);
+
+type PendingUndo = {
+  ids: string[];
+  message: string;
+};
+
+export default function History({ requests, nextCursor, reviewers, currentUserId }: HistoryProps) {
+  const router = useRouter();
+  const filters = parseHistoryQuery(router.query);
+  const [items, setItems] = useState<HistoryItem[]>(requests);
+  const [cursor, setCursor] = useState<string | null>(nextCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filterForm, setFilterForm] = useState<FilterForm>(() => toFilterForm(filters));
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null);
+  // Clearing only removes the caller's own documents, not ones teammates shared
+  const ownCount = items.filter(req => req.created_by === currentUserId).length;
   const [isClearing, setIsClearing] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
-  const router = useRouter();
 
-  const handleClearHistory = async () => {
+  // Server data replaces the local list after filtering or an undo reloads the page props
+  useEffect(() => {
+    setItems(requests);
+    setCursor(nextCursor);
+    setSelectedIds([]);
+  }, [requests, nextCursor]);
+
+  // Keeps the form in step with the URL when navigating back and forward between searches
+  useEffect(() => {
+    setFilterForm(toFilterForm(parseHistoryQuery(router.query)));
+  }, [router.query]);
+
+  const applyFilters = (next: HistoryFilters) => {
+    router.push({ pathname: '/history', query: toHistoryQuery(next) });
+  };
+
+  const handleFilterSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    applyFilters(parseHistoryQuery({ ...filterForm, sort: filters.sort }));
+  };
+
+  const updateFilterForm = (field: keyof FilterForm, value: string) => {
+    setFilterForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+
+    try {
+      const params = new URLSearchParams({ ...toHistoryQuery(filters), cursor });
+      const response = await fetch(`/api/history?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load history');
+      }
+
+      setItems(current => [...current, ...result.items]);
+      setCursor(result.nextCursor);
+    } catch (error: any) {
+      console.error('Error loading history:', error);
+      alert(`Failed to load more history: ${error.message}`);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current =>
+      current.includes(id) ? current.filter(selectedId => selectedId !== id) : [...current, id]
+    );
+  };
+
+  // Deleted rows disappear right away; the server keeps them restorable until the undo window closes
+  const deleteHistory = async (body: { ids: string[] } | { all: true }) => {
     setIsClearing(true);
 
     try {
-      const response = await fetch('/api/clear-history', {
-        method: 'DELETE',
+      const response = await fetch('/api/history/delete', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
       });
 
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to clear history');
+        throw new Error(result.error || 'Failed to delete history');
       }
 
-      // Refresh the page to show updated data
-      router.reload();
-
+      const deletedIds: string[] = result.deletedIds;
+      setItems(current => current.filter(item => !deletedIds.includes(item.id)));
+      setSelectedIds([]);
+      setPendingUndo({
+        ids: deletedIds,
+        message: `Deleted ${deletedIds.length} analys${deletedIds.length !== 1 ? 'es' : 'is'}. You can undo until ${new Date(result.undoUntil).toLocaleTimeString()}.`,
+      });
     } catch (error: any) {
-      console.error('Error clearing history:', error);
-      alert(`Failed to clear history: ${error.message}`);
+      console.error('Error deleting history:', error);
+      alert(`Failed to delete history: ${error.message}`);
     } finally {
       setIsClearing(false);
       setShowConfirm(false);
     }
   };
 
+  const handleClearHistory = () => deleteHistory({ all: true });
+
+  const handleDeleteSelected = () => deleteHistory({ ids: selectedIds });
+
+  const handleUndo = async () => {
+    if (!pendingUndo) return;
+
+    try {
+      const response = await fetch('/api/history/restore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: pendingUndo.ids }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore history');
+      }
+
+      setPendingUndo(null);
+      // Reload the list from the server so restored rows come back in order
+      router.replace(router.asPath);
+    } catch (error: any) {
+      console.error('Error restoring history:', error);
+      alert(`Failed to restore history: ${error.message}`);
+    }
+  };
+
   const confirmClearHistory = () => {
     setShowConfirm(true);
   };
@@ -70,42 +223,217 @@ export default function History({ requests }: HistoryProps) {
         <div className="card p-6 md:p-8">
           <div className="flex items-center justify-between mb-6">
             <h1 className="text-2xl font-bold">Analysis History</h1>
-            {requests.length > 0 && (
-              <button
-                onClick={confirmClearHistory}
-                disabled={isClearing}
-                className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            <div className="flex items-center gap-3">
+              {selectedIds.length > 0 && (
+                <button
+                  onClick={handleDeleteSelected}
+                  disabled={isClearing}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Delete Selected ({selectedIds.length})
+                </button>
+              )}
+              {ownCount > 0 && (
+                <button
+                  onClick={confirmClearHistory}
+                  disabled={isClearing}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isClearing ? 'Clearing...' : 'Clear History'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleFilterSubmit} className="mb-6 space-y-3" role="search">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="search"
+                value={filterForm.q}
+                onChange={e => updateFilterForm('q', e.target.value)}
+                placeholder="Search file names and issue messages"
+                aria-label="Search history"
+                className="flex-1 min-w-[16rem] px-3 py-2 text-sm border border-gray-300 rounded-md"
+              />
+              <select
+                value={filters.sort}
+                onChange={e => applyFilters({ ...filters, sort: e.target.value as HistoryFilters['sort'] })}
+                aria-label="Sort by"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md"
               >
-                {isClearing ? 'Clearing...' : 'Clear History'}
+                {HISTORY_SORTS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-end gap-3 text-sm">
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">From</span>
+                <input
+                  type="date"
+                  value={filterForm.from}
+                  onChange={e => updateFilterForm('from', e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">To</span>
+                <input
+                  type="date"
+                  value={filterForm.to}
+                  onChange={e => updateFilterForm('to', e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">Issue type</span>
+                <select
+                  value={filterForm.issueType}
+                  onChange={e => updateFilterForm('issueType', e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md"
+                >
+                  <option value="">Any</option>
+                  {HISTORY_ISSUE_TYPES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">Issues</span>
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={filterForm.minIssues}
+                    onChange={e => updateFilterForm('minIssues', e.target.value)}
+                    placeholder="Min"
+                    aria-label="Minimum issues"
+                    className="w-20 px-2 py-1.5 border border-gray-300 rounded-md"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={filterForm.maxIssues}
+                    onChange={e => updateFilterForm('maxIssues', e.target.value)}
+                    placeholder="Max"
+                    aria-label="Maximum issues"
+                    className="w-20 px-2 py-1.5 border border-gray-300 rounded-md"
+                  />
+                </span>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">Classification</span>
+                <select
+                  value={filterForm.classification}
+                  onChange={e => updateFilterForm('classification', e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md capitalize"
+                >
+                  <option value="">Any</option>
+                  {HISTORY_CLASSIFICATIONS.map(classification => (
+                    <option key={classification} value={classification}>{classification}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-600">Processing</span>
+                <select
+                  value={filterForm.processingMethod}
+                  onChange={e => updateFilterForm('processingMethod', e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-md"
+                >
+                  <option value="">Any</option>
+                  {HISTORY_PROCESSING_METHODS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              {reviewers.length > 1 && (
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">Reviewer</span>
+                  <select
+                    value={filterForm.reviewer}
+                    onChange={e => updateFilterForm('reviewer', e.target.value)}
+                    className="px-2 py-1.5 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Anyone</option>
+                    {reviewers.map(reviewer => (
+                      <option key={reviewer.id} value={reviewer.id}>{reviewer.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button type="submit" className="btn btn-primary">
+                Apply
               </button>
-            )}
-          </div>
-          {requests.length === 0 ? (
-            <div className="text-center text-muted py-12">
-              <p>No history found.</p>
-              <p className="mt-2">
-                <Link href="/review" className="btn btn-primary">
-                  Start a new review
+              {hasActiveFilters(filters) && (
+                <Link href="/history" className="text-primary hover:underline">
+                  Reset filters
                 </Link>
-              </p>
+              )}
             </div>
+          </form>
+
+          {items.length === 0 ? (
+            hasActiveFilters(filters) ? (
+              <div className="text-center text-muted py-12">
+                <p>No analyses match these filters.</p>
+              </div>
+            ) : (
+              <div className="text-center text-muted py-12">
+                <p>No history found.</p>
+                <p className="mt-2">
+                  <Link href="/review" className="btn btn-primary">
+                    Start a new review
+                  </Link>
+                </p>
+              </div>
+            )
           ) : (
             <div className="overflow-x-auto">
               <table className="table">
                 <thead>
                   <tr>
+                    <th className="p-3 w-10"><span className="sr-only">Select</span></th>
                     <th className="p-3 text-left font-medium">Date</th>
                     <th className="p-3 text-left font-medium">File Name</th>
                     <th className="p-3 text-left font-medium">Issues Found</th>
+                    <th className="p-3 text-left font-medium">Classification</th>
+                    <th className="p-3 text-left font-medium">Processing</th>
                     <th className="p-3 text-left font-medium"></th>
                   </tr>
                 </thead>
                 <tbody>
-                  {requests.map((req) => (
+                  {items.map((req) => (
                     <tr key={req.id}>
+                      <td className="p-3">
+                        {/* Only the owner can delete; shared documents have no checkbox */}
+                        {req.created_by === currentUserId && (
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${req.user_input}`}
+                            checked={selectedIds.includes(req.id)}
+                            onChange={() => toggleSelected(req.id)}
+                          />
+                        )}
+                      </td>
                       <td className="p-3">{new Date(req.created_at).toLocaleString()}</td>
-                      <td className="p-3 font-medium">{req.user_input}</td>
-                      <td className="p-3">{req.ai_result?.summary?.issueCount ?? 0}</td>
+                      <td className="p-3 font-medium">
+                        {req.user_input}
+                        {req.version_number > 1 && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">v{req.version_number}</span>
+                        )}
+                        {req.created_by !== currentUserId ? (
+                          <span className="ml-2 text-xs font-normal text-gray-500">Shared by a teammate</span>
+                        ) : req.shared_with_org && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">Shared with team</span>
+                        )}
+                      </td>
+                      <td className="p-3">{req.issue_count}</td>
+                      <td className="p-3 capitalize">{req.document_classification ?? '—'}</td>
+                      <td className="p-3">
+                        {req.processing_method ? PROCESSING_METHOD_LABELS[req.processing_method] ?? req.processing_method : '—'}
+                      </td>
                       <td className="p-3 text-right">
                         <Link
                           href={`/history/${req.id}`}
@@ -118,10 +446,30 @@ export default function History({ requests }: HistoryProps) {
                   ))}
                 </tbody>
               </table>
+              {cursor && (
+                <div className="mt-4 text-center">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoadingMore ? 'Loading...' : 'Load more'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
 
+        {pendingUndo && (
+          <Toast
+            message={pendingUndo.message}
+            variant="success"
+            onClose={() => setPendingUndo(null)}
+            action={{ label: 'Undo', onClick: handleUndo }}
+          />
+        )}
+
         {/* Confirmation Modal */}
         {showConfirm && (
           <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex items-center justify-center p-4 z-50">
@@ -140,7 +488,7 @@ export default function History({ requests }: HistoryProps) {
               </div>
               <div className="mb-6">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to clear all analysis history? This action cannot be undone and will permanently delete all {requests.length} historical record{requests.length !== 1 ? 's' : ''}.
+                  Are you sure you want to clear all analysis history? This will delete all of your historical records and their screenshots, including any hidden by the current filters. You can undo for a few minutes before they are removed for good. Documents teammates shared with you are not affected.
                 </p>
               </div>
               <div className="flex justify-end space-x-3">
@@ -166,20 +514,53 @@ export default function History({ requests }: HistoryProps) {
   );
 }
 
-export const getServerSideProps: GetServerSideProps = async () => {
-  const { data, error } = await supabase
-    .from('demo_requests')
-    .select('id, created_at, user_input, ai_result')
-    .order('created_at', { ascending: false })
-    .limit(50);
+export const getServerSideProps: GetServerSideProps<HistoryProps> = async ({ req, query }) => {
+  const { userId, orgId } = getAuth(req);
+  if (!userId) {
+    return { props: { requests: [], nextCursor: null, reviewers: [], currentUserId: null } };
+  }
 
-  if (error) {
+  let requests: HistoryItem[] = [];
+  let nextCursor: string | null = null;
+  try {
+    const page = await getDocumentAccessService().searchDocuments({ userId, orgId }, parseHistoryQuery(query));
+    requests = page.items;
+    nextCursor = page.nextCursor;
+  } catch (error) {
     console.error('Error fetching history:', error);
   }
 
   return {
     props: {
-      requests: data ?? [],
+      requests,
+      nextCursor,
+      reviewers: await listReviewers(userId, orgId),
+      currentUserId: userId,
     },
   };
 };
+
+/**
+ * People whose documents can appear in the caller's history: the caller and, with an active organization, its members
+ */
+async function listReviewers(userId: string, orgId: string | null | undefined): Promise<Reviewer[]> {
+  const reviewers: Reviewer[] = [{ id: userId, name: 'Me' }];
+  if (!orgId) {
+    return reviewers;
+  }
+
+  try {
+    const client = await clerkClient();
+    const { data } = await client.organizations.getOrganizationMembershipList({ organizationId: orgId, limit: 100 });
+    for (const membership of data) {
+      const member = membership.publicUserData;
+      if (member && member.userId !== userId) {
+        const name = [member.firstName, member.lastName].filter(Boolean).join(' ');
+        reviewers.push({ id: member.userId, name: name || member.identifier });
+      }
+    }
+  } catch (error) {
+    console.error('Error listing organization members:', error);
+  }
+  return reviewers;
+}
@@ -1,10 +1,16 @@
-import { supabase } from '@/lib/supabaseClient';
 import type { AnalysisIssue } from '@/lib/review';
 import type { GetServerSideProps } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import { getDocumentAccessService } from '@/lib/document-access';
+import { getDocumentLineageService, type DocumentLineage } from '@/lib/document-lineage';
+import { rehydrateStoredAnalysis } from '@/lib/pseudonymizer';
+import { DocumentVersions } from '@/components/DocumentVersions';
 import React, { useState } from 'react';
 import IssuesTable from '@/components/IssuesTable';
 import EmailPreview from '@/components/EmailPreview';
 import { RedirectToSignIn, SignedIn, SignedOut } from '@clerk/nextjs';
+import Link from 'next/link';
+import { Toast } from '@/components/ui/Toast';
 import type { EmailGenerationResult, Customer, Fund, Issue as EmailIssue } from '../../lib/email';
 
 type DetailsProps = {
@@ -16,17 +22,103 @@ type DetailsProps = {
       fileName: string;
       issues: AnalysisIssue[];
     };
+    org_id: string | null;
+    shared_with_org: boolean;
   };
+  isOwner: boolean;
+  lineage: DocumentLineage | null;
 };
 
 // Mock Data: Replace with your actual data from props or state
 const mockCustomer: Customer = { name: "Acme GP", timezone: "America/New_York", isExistingCustomer: true };
 const mockFunds: Fund[] = [{fullName:"Acme Growth Fund II, L.P.", shortName:"the Fund"}];
 
-export default function Details({ request }: DetailsProps) {
+export default function Details({ request, isOwner, lineage }: DetailsProps) {
   const [emailResult, setEmailResult] = useState<EmailGenerationResult | null>(null);
   const [isGeneratingEmail, setIsGeneratingEmail] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [shared, setShared] = useState<boolean>(request.shared_with_org);
+  const [isUpdatingSharing, setIsUpdatingSharing] = useState<boolean>(false);
+  const [undoUntil, setUndoUntil] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  const [showUndoToast, setShowUndoToast] = useState<boolean>(false);
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this analysis and its screenshots? You can undo for a few minutes.')) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/history/${request.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete analysis');
+      }
+
+      setUndoUntil(result.undoUntil);
+      setShowUndoToast(true);
+    } catch (err: any) {
+      console.error('Error deleting analysis:', err);
+      alert(`Failed to delete analysis: ${err.message}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    try {
+      const response = await fetch('/api/history/restore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: [request.id] }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore analysis');
+      }
+
+      setUndoUntil(null);
+      setShowUndoToast(false);
+    } catch (err: any) {
+      console.error('Error restoring analysis:', err);
+      alert(`Failed to restore analysis: ${err.message}`);
+    }
+  };
+
+  const handleToggleSharing = async () => {
+    setIsUpdatingSharing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/history/${request.id}/share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ shared: !shared }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update sharing');
+      }
+
+      setShared(result.shared);
+    } catch (err: any) {
+      console.error('Error updating sharing:', err);
+      setError(err.message ?? 'Unexpected error');
+    } finally {
+      setIsUpdatingSharing(false);
+    }
+  };
 
   const handleGenerateEmail = async () => {
     if (!request.ai_result.issues) {
@@ -48,6 +140,7 @@ export default function Details({ request }: DetailsProps) {
                 issues: convertToEmailIssues(request.ai_result.issues),
                 typos: [],
                 expectedDate: new Date().toISOString().split('T')[0],
+                documentId: request.id,
             }),
         });
 
@@ -77,7 +170,10 @@ export default function Details({ request }: DetailsProps) {
         },
         body: JSON.stringify({
           recipientEmail,
-          emailResult
+          emailResult,
+          // The draft was generated from every issue of the analysis
+          documentId: request.id,
+          issueIndexes: request.ai_result.issues.map((_, index) => index),
         }),
       });
 
@@ -131,7 +227,39 @@ export default function Details({ request }: DetailsProps) {
             </h1>
             <p className="text-sm text-gray-500 mt-1">
               Analyzed on {new Date(request.created_at).toLocaleString()}
+              {!isOwner && ' · Shared by a teammate'}
             </p>
+            {undoUntil && (
+              <p className="mt-3 p-3 text-sm text-gray-700 bg-gray-100 border border-gray-200 rounded-md">
+                This analysis was deleted and will be removed for good after {new Date(undoUntil).toLocaleTimeString()}.{' '}
+                <button onClick={handleUndoDelete} className="text-primary hover:underline font-medium">Undo</button>
+                {' · '}
+                <Link href="/history" className="text-primary hover:underline font-medium">Back to history</Link>
+              </p>
+            )}
+            {isOwner && !undoUntil && (
+              <button
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="mt-3 mr-4 px-3 py-1 text-sm font-medium text-red-600 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isDeleting ? 'Deleting...' : 'Delete'}
+              </button>
+            )}
+            {/* Sharing is opt-in and only possible for documents analyzed inside an organization */}
+            {isOwner && request.org_id && !undoUntil && (
+              <label className="mt-3 inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shared}
+                  onChange={handleToggleSharing}
+                  disabled={isUpdatingSharing}
+                />
+                Share with my team
+              </label>
+            )}
+
+            {lineage && !undoUntil && <DocumentVersions documentId={request.id} lineage={lineage} />}
 
             <div className="mt-8">
               {request.ai_result.issues.length > 0 ? (
@@ -184,6 +312,15 @@ export default function Details({ request }: DetailsProps) {
               )}
             </div>
 
+            {undoUntil && showUndoToast && (
+              <Toast
+                message="Analysis deleted."
+                variant="success"
+                onClose={() => setShowUndoToast(false)}
+                action={{ label: 'Undo', onClick: handleUndoDelete }}
+              />
+            )}
+
             {emailResult && (
               <EmailPreview
                 result={emailResult}
@@ -202,26 +339,33 @@ export default function Details({ request }: DetailsProps) {
 }
 
 
-export const getServerSideProps: GetServerSideProps = async (context) => {
+export const getServerSideProps: GetServerSideProps<DetailsProps> = async (context) => {
   const { id } = context.params!;
-  const { data, error } = await supabase
-    .from('demo_requests')
-    .select('id, created_at, user_input, ai_result')
-    .eq('id', id)
-    .single();
+  const { userId, orgId } = getAuth(context.req);
+  if (!userId || typeof id !== 'string') {
+    return {
+      notFound: true,
+    };
+  }
+
+  // Documents owned by someone else and not shared with the caller's organization look the same as missing ones
+  const data = await getDocumentAccessService().getDocument<DetailsProps['request'] & { created_by: string }>(
+    id,
+    { userId, orgId }
+  );
 
-  if (error || !data) {
+  if (!data) {
     return {
       notFound: true,
     };
   }
 
+  const { created_by, ...request } = data;
   return {
     props: {
-      request: data,
+      request: { ...request, ai_result: await rehydrateStoredAnalysis(id, { userId, orgId }, request.ai_result) },
+      isOwner: created_by === userId,
+      lineage: await getDocumentLineageService().getLineage(id, { userId, orgId }),
     },
   };
 };
-
-
-
@@ -0,0 +1,195 @@
+import type { GetServerSideProps } from 'next';
+import { getAuth } from '@clerk/nextjs/server';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { RedirectToSignIn, SignedIn, SignedOut } from '@clerk/nextjs';
+import { getDocumentAccessService } from '@/lib/document-access';
+import {
+  getDocumentDiffService,
+  type ComparisonUnavailable,
+  type DiffOp,
+  type PageDiff,
+  type TextChange,
+  type VersionTextComparison,
+} from '@/lib/pdf-diff';
+
+type CompareProps = {
+  documentId: string;
+  fileName: string;
+  comparison: VersionTextComparison | ComparisonUnavailable | null;
+};
+
+// Unchanged text longer than this is shortened to its ends around each change
+const EQUAL_CONTEXT_WORDS = 12;
+
+const pageLabel = (page: PageDiff): string => {
+  if (page.previousPage === null) return `Inserted page ${page.currentPage}`;
+  if (page.currentPage === null) return `Removed page ${page.previousPage}`;
+  return page.previousPage === page.currentPage
+    ? `Page ${page.currentPage}`
+    : `Page ${page.previousPage} → page ${page.currentPage}`;
+};
+
+const CHANGE_FLAGS: Record<TextChange['match'], { className: string; title?: string }> = {
+  requested: { className: '' },
+  page_hint: {
+    className: ' ring-2 ring-yellow-400 rounded-sm',
+    title: 'Our review email raised an issue on this page without quoting text; check this is the change asked for',
+  },
+  unrequested: { className: ' ring-2 ring-orange-400 rounded-sm', title: 'Not requested in our review email' },
+};
+
+const unavailableMessage = (comparison: ComparisonUnavailable | null): string => {
+  if (!comparison) return 'The versions could not be compared.';
+  if (comparison.unavailable === 'first_version') {
+    return 'There is nothing to compare: this is the first version of the document.';
+  }
+  const versions = comparison.missingVersions.map(version => `v${version}`).join(' and ');
+  return `The PDF of ${versions} was not kept: it was analyzed through the review jobs API before analyses kept their file. Upload it again as a new version to compare.`;
+};
+
+const shorten = (text: string, keepStart: boolean, keepEnd: boolean): string => {
+  const words = text.split(' ');
+  if (words.length <= EQUAL_CONTEXT_WORDS * 2) return text;
+  const start = keepStart ? words.slice(0, EQUAL_CONTEXT_WORDS).join(' ') : '';
+  const end = keepEnd ? words.slice(-EQUAL_CONTEXT_WORDS).join(' ') : '';
+  return [start, '…', end].filter(Boolean).join(' ');
+};
+
+const PageOps: React.FC<{ page: PageDiff }> = ({ page }) => (
+  <p className="text-sm leading-relaxed text-gray-800">
+    {page.ops.map((op: DiffOp, index) => {
+      if (op.type === 'equal') {
+        return <span key={index}>{shorten(op.text, index > 0, index < page.ops.length - 1)} </span>;
+      }
+      const { className: flag, title } = CHANGE_FLAGS[op.change !== undefined ? page.changes[op.change].match : 'requested'];
+      return (
+        <React.Fragment key={index}>
+          {op.type === 'delete' ? (
+            <del className={`bg-red-100 text-red-800${flag}`} title={title}>{op.text}</del>
+          ) : (
+            <ins className={`bg-green-100 text-green-800 no-underline${flag}`} title={title}>{op.text}</ins>
+          )}{' '}
+        </React.Fragment>
+      );
+    })}
+  </p>
+);
+
+export default function CompareVersions({ documentId, fileName, comparison }: CompareProps) {
+  const [onlyUnrequested, setOnlyUnrequested] = useState<boolean>(false);
+
+  const compared = comparison && !('unavailable' in comparison) ? comparison : null;
+  const pages = compared?.diff.pages.filter(page =>
+    onlyUnrequested ? page.changes.some(change => change.match !== 'requested') : page.changes.length > 0
+  ) ?? [];
+
+  return (
+    <>
+      <SignedOut>
+        <RedirectToSignIn redirectUrl={`/history/${documentId}/compare`} />
+      </SignedOut>
+
+      <SignedIn>
+        <div className="bg-white rounded-acl shadow-elev-2 p-6 md:p-8">
+          <Link href={`/history/${documentId}`} className="text-sm text-primary hover:underline">
+            ← Back to analysis
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold">
+            Changes in <span className="text-primary">{fileName}</span>
+          </h1>
+
+          {!compared ? (
+            <p className="mt-4 text-sm text-gray-600">
+              {unavailableMessage(comparison && 'unavailable' in comparison ? comparison : null)}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mt-1">
+                v{compared.previousVersion.versionNumber} ({compared.previousVersion.fileName}) → v{compared.currentVersion.versionNumber}
+              </p>
+
+              <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-gray-900">
+                  {compared.diff.changeCount} change{compared.diff.changeCount !== 1 ? 's' : ''}
+                  {compared.diff.unrequestedCount > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-100 text-orange-800 font-medium">
+                      {compared.diff.unrequestedCount} not requested in our review email; re-review these
+                    </span>
+                  )}
+                  {compared.diff.pageHintCount > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 font-medium">
+                      {compared.diff.pageHintCount} on pages our email raised without quoting text; check these
+                    </span>
+                  )}
+                </p>
+                <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={onlyUnrequested}
+                    onChange={() => setOnlyUnrequested(!onlyUnrequested)}
+                  />
+                  Only pages with changes to check
+                </label>
+              </div>
+
+              {compared.emailedIssueCount === null && (
+                <p className="mt-3 text-sm text-orange-800">
+                  No review email was sent for v{compared.previousVersion.versionNumber} from this app, so no change is
+                  marked as requested.
+                </p>
+              )}
+
+              <div className="mt-6 space-y-4">
+                {pages.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    {onlyUnrequested ? 'Every change was requested in the review.' : 'The text of the two versions is identical.'}
+                  </p>
+                ) : pages.map(page => (
+                  <div key={`${page.previousPage}-${page.currentPage}`} className="p-4 border border-gray-200 rounded-lg">
+                    <h2 className="mb-2 text-sm font-medium text-gray-500">
+                      {pageLabel(page)} · {page.changes.length} change{page.changes.length !== 1 ? 's' : ''}
+                    </h2>
+                    <PageOps page={page} />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </SignedIn>
+    </>
+  );
+}
+
+export const getServerSideProps: GetServerSideProps<CompareProps> = async (context) => {
+  const { id } = context.params!;
+  const { userId, orgId } = getAuth(context.req);
+  if (!userId || typeof id !== 'string') {
+    return { notFound: true };
+  }
+
+  const document = await getDocumentAccessService().getDocument<{ id: string; user_input: string }>(
+    id,
+    { userId, orgId },
+    'id, user_input'
+  );
+  if (!document) {
+    return { notFound: true };
+  }
+
+  let comparison: VersionTextComparison | ComparisonUnavailable | null = null;
+  try {
+    comparison = await getDocumentDiffService().compareWithPreviousVersion(id, { userId, orgId });
+  } catch (error) {
+    console.error('Error comparing document versions:', error);
+  }
+
+  return {
+    props: {
+      documentId: id,
+      fileName: document.user_input,
+      comparison,
+    },
+  };
+};
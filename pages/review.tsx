@@ -1,6 +1,10 @@
 import React, { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 import IssuesTable from '@/components/IssuesTable';
 import EmailPreview from '@/components/EmailPreview';
+import { EnhancedConsentModal, type EnhancedConsentData } from '@/components/EnhancedConsentModal';
+import { SecureReviewSummary, type SecureReviewSummaryProps } from '@/components/SecureReviewSummary';
 import type { EmailGenerationResult, Customer, Fund, Issue as EmailIssue } from '../lib/email';
 
 interface Issue {
@@ -14,6 +18,47 @@ interface Issue {
 interface AnalysisResult {
   issues: Issue[];
   summary: string;
+  warnings?: string[];
+}
+
+// SecureAnalysisResult as returned with a completed review job
+interface SecureAnalysisResult extends AnalysisResult {
+  documentId?: string;
+  classification: { classification: string; confidence: number };
+  sanitization?: SecureReviewSummaryProps['sanitization'];
+  encryptionApplied: boolean;
+  consentRecorded: EnhancedConsentData;
+  retentionScheduled: boolean;
+  retentionExpiresAt?: string;
+  processingMethod: string;
+  versionNumber?: number;
+  previousVersionId?: string | null;
+}
+
+interface JobStage {
+  stage: string;
+  label: string;
+  completedAt: string | null;
+}
+
+interface ReviewJobStatus {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stages: JobStage[];
+  error: string | null;
+  result: SecureAnalysisResult | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+// Pre-upload scan that drives the consent modal
+interface ScanResult {
+  fileName: string;
+  classification: string;
+  confidence: number;
+  sensitiveDataDetected: boolean;
+  detectedPatterns: Array<{ type: string; count: number; description: string }>;
+  companyLLMAvailable: boolean;
 }
 
 // --- Mock Data: Replace with your actual data from props or state ---
@@ -22,10 +67,17 @@ const mockFunds: Fund[] = [{fullName:"Acme Growth Fund II, L.P.", shortName:"the
 // ---------------------------------------------------------------------
 
 export default function ReviewPage() {
+  const router = useRouter();
+  // Set by "Upload new version" on a history page
+  const previousVersionId = typeof router.query.previousVersion === 'string' ? router.query.previousVersion : null;
   const [file, setFile] = useState<File | null>(null);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [fundName, setFundName] = useState<string>('');
+  const [result, setResult] = useState<SecureAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [scan, setScan] = useState<ScanResult | null>(null);
+  const [isConsentOpen, setIsConsentOpen] = useState<boolean>(false);
+  const [job, setJob] = useState<ReviewJobStatus | null>(null);
   const [emailResult, setEmailResult] = useState<EmailGenerationResult | null>(null);
   const [isGeneratingEmail, setIsGeneratingEmail] = useState<boolean>(false);
 
@@ -35,6 +87,7 @@ export default function ReviewPage() {
     }
   };
 
+  // Scans the file first so the consent modal can show what was found before anything is processed
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!file) {
@@ -46,9 +99,44 @@ export default function ReviewPage() {
     setError(null);
     setResult(null);
     setEmailResult(null);
+    setScan(null);
+    setJob(null);
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      const response = await fetch('/api/review/scan', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.error || 'Failed to scan document');
+      }
+
+      setScan(responseData);
+      setIsConsentOpen(true);
+    } catch (err: any) {
+      setError(err.message ?? 'Unexpected error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConsent = async (consent: EnhancedConsentData) => {
+    if (!file) return;
 
+    setIsLoading(true);
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('consent', JSON.stringify(consent));
+    formData.append('fundName', fundName);
+    if (previousVersionId) {
+      formData.append('previousVersionId', previousVersionId);
+    }
 
     try {
       const response = await fetch('/api/review', {
@@ -62,7 +150,8 @@ export default function ReviewPage() {
         throw new Error(responseData.error || 'Something went wrong');
       }
 
-      setResult(responseData.data);
+      const completedJob = await pollJob(responseData.jobId);
+      setResult(completedJob.result);
     } catch (err: any) {
       setError(err.message ?? 'Unexpected error');
     } finally {
@@ -70,6 +159,30 @@ export default function ReviewPage() {
     }
   };
 
+  // Polls the review job until it completes; each poll also resumes a stalled job on the server
+  const pollJob = async (jobId: string): Promise<ReviewJobStatus> => {
+    while (true) {
+      const response = await fetch(`/api/review/${jobId}`);
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.error || 'Failed to load review status');
+      }
+
+      const currentJob: ReviewJobStatus = responseData.job;
+      setJob(currentJob);
+
+      if (currentJob.status === 'completed') {
+        return currentJob;
+      }
+      if (currentJob.status === 'failed') {
+        throw new Error(currentJob.error || 'Review failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  };
+
   const handleGenerateEmail = async (customer: Customer, funds: Fund[]) => {
     console.log('handleGenerateEmail called');
     if (!result) {
@@ -91,6 +204,7 @@ export default function ReviewPage() {
                 customer,
                 funds,
                 issues: result.issues,
+                documentId: result.documentId, // Restores pseudonymized values in the draft
                 typos: [], // TODO: Add logic to get typos if available
                 expectedDate: new Date().toISOString().split('T')[0], // TODO: Implement correct date logic
             }),
@@ -116,6 +230,9 @@ export default function ReviewPage() {
 
   const handleSendEmail = async (recipientEmail: string) => {
     if (!emailResult) return;
+    // The draft was generated from every issue of the analysis
+    const emailedDocumentId = result?.documentId;
+    const emailedIssues = result?.issues.map((_, index) => index);
 
     try {
       const response = await fetch('/api/send-email', {
@@ -125,7 +242,9 @@ export default function ReviewPage() {
         },
         body: JSON.stringify({
           recipientEmail,
-          emailResult
+          emailResult,
+          documentId: emailedDocumentId,
+          issueIndexes: emailedIssues,
         }),
       });
 
@@ -169,6 +288,12 @@ export default function ReviewPage() {
   return (
     <>
         <h1 className="text-3xl font-bold mb-6">New PDF Review</h1>
+        {previousVersionId && (
+            <p className="mb-4 p-3 text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-md">
+                This upload will be saved as a new version and compared with the{' '}
+                <Link href={`/history/${previousVersionId}`} className="text-primary hover:underline font-medium">previous review</Link>.
+            </p>
+        )}
                 <form onSubmit={handleSubmit} className="mb-6">
           <div className="flex items-center gap-4">
             <input
@@ -178,14 +303,83 @@ export default function ReviewPage() {
               disabled={isLoading}
               className="flex-grow"
             />
+            <input
+              type="text"
+              value={fundName}
+              onChange={e => setFundName(e.target.value)}
+              disabled={isLoading}
+              placeholder="Fund (optional)"
+              aria-label="Fund name, used to group revised versions of this document"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+            />
             <button type="submit" className="btn btn-primary" disabled={isLoading || !file}>
               {isLoading ? 'Analyzing...' : 'Analyze PDF'}
             </button>
             </div>
         </form>
 
+        {scan && (
+            <EnhancedConsentModal
+                isOpen={isConsentOpen}
+                onClose={() => setIsConsentOpen(false)}
+                onConsent={handleConsent}
+                fileName={scan.fileName}
+                sensitiveDataDetected={scan.sensitiveDataDetected}
+                detectedPatterns={scan.detectedPatterns}
+                classification={scan}
+                companyLLMAvailable={scan.companyLLMAvailable}
+                file={file ?? undefined}
+            />
+        )}
+
+        {job && job.status !== 'completed' && (
+            <ol className="mb-6 space-y-1 text-sm">
+                {job.stages.map(stage => (
+                    <li
+                        key={stage.stage}
+                        className={stage.completedAt ? 'text-green-700' : 'text-gray-500'}
+                    >
+                        {stage.completedAt ? '✓' : '○'} {stage.label}
+                    </li>
+                ))}
+                {job.error && (
+                    <li className="text-yellow-700">Retrying after error: {job.error}</li>
+                )}
+            </ol>
+        )}
+
+        {result?.warnings && result.warnings.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-100 border border-yellow-300 rounded-md">
+                <p className="text-sm text-yellow-800 font-medium">
+                    Some of the model output was invalid and could not be repaired; the results below may be incomplete.
+                </p>
+                <ul className="mt-2 text-sm text-yellow-700">
+                    {result.warnings.map((warning, index) => (
+                        <li key={index}>• {warning}</li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         {result?.issues && (
             <>
+                <SecureReviewSummary
+                    classification={result.classification}
+                    processingMethod={result.processingMethod}
+                    sanitization={result.sanitization}
+                    sanitizationMode={result.consentRecorded.sanitizationMode}
+                    encryptionApplied={result.encryptionApplied}
+                    retentionScheduled={result.retentionScheduled}
+                    retentionExpiresAt={result.retentionExpiresAt}
+                />
+                {result.documentId && result.previousVersionId && (
+                    <p className="mb-4 p-3 text-sm text-gray-700 bg-blue-50 border border-blue-200 rounded-md">
+                        Saved as version {result.versionNumber}.{' '}
+                        <Link href={`/history/${result.documentId}`} className="text-primary hover:underline font-medium">
+                            See which issues were resolved since the previous version
+                        </Link>
+                    </p>
+                )}
                 <IssuesTable issues={result.issues} />
                 <div className="mt-8 mb-8">
                     <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-lg p-6 shadow-sm">
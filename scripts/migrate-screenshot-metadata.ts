@@ -0,0 +1,94 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.join(__dirname, '../.env.local') });
+
+import { createServerSupabase } from '../lib/supabaseServer';
+import { getStorageBackend } from '../lib/storage';
+import {
+  SCREENSHOT_PREFIX,
+  toScreenshotRow,
+  type SecureScreenshotMetadata
+} from '../lib/secure-screenshot';
+
+// Index written by the storage-backed manager, and the original file next to the .enc files
+const STORAGE_INDEX_KEY = `${SCREENSHOT_PREFIX}/metadata.json`;
+const LEGACY_DIR = path.join(process.cwd(), 'secure-temp');
+const LEGACY_INDEX_FILE = path.join(LEGACY_DIR, 'screenshot-metadata.json');
+
+const parseIndex = (data: Buffer | null): SecureScreenshotMetadata[] =>
+  data ? JSON.parse(data.toString('utf8')) : [];
+
+/**
+ * Imports screenshot metadata from the JSON indexes into the secure_screenshots table
+ */
+async function migrateScreenshotMetadata() {
+  const supabase = createServerSupabase();
+  const storage = getStorageBackend();
+
+  try {
+    console.log('Migrating screenshot metadata from JSON indexes...');
+
+    const legacy = fs.existsSync(LEGACY_INDEX_FILE) ? parseIndex(fs.readFileSync(LEGACY_INDEX_FILE)) : [];
+    const stored = parseIndex(await storage.get(STORAGE_INDEX_KEY));
+
+    // Expired screenshots would only be deleted again by the next cleanup
+    const now = new Date();
+    const entries = new Map<string, SecureScreenshotMetadata>();
+    [...legacy, ...stored]
+      .filter(metadata => now < new Date(metadata.expiresAt))
+      .forEach(metadata => entries.set(metadata.id, metadata));
+
+    // Images from the legacy directory are copied to the key the manager reads them from
+    for (const metadata of legacy) {
+      const legacyFile = path.join(LEGACY_DIR, `${metadata.id}.enc`);
+      if (entries.has(metadata.id) && fs.existsSync(legacyFile)) {
+        await storage.put(`${SCREENSHOT_PREFIX}/${metadata.id}.enc`, fs.readFileSync(legacyFile), {
+          contentType: 'application/json'
+        });
+      }
+    }
+
+    const rows = [...entries.values()].map(toScreenshotRow);
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('secure_screenshots')
+        .upsert(rows, { onConflict: 'id' });
+
+      if (error) {
+        console.error('❌ Error importing screenshot metadata:', error);
+        return false;
+      }
+    }
+    console.log(`✅ Imported ${rows.length} screenshots (${legacy.length + stored.length - rows.length} expired or duplicate entries skipped)`);
+
+    // The indexes are only removed once every row is in the table
+    if (fs.existsSync(LEGACY_INDEX_FILE)) {
+      fs.renameSync(LEGACY_INDEX_FILE, `${LEGACY_INDEX_FILE}.migrated`);
+    }
+    await storage.delete(STORAGE_INDEX_KEY);
+
+    console.log('✅ Screenshot metadata migration completed successfully!');
+    return true;
+
+  } catch (error) {
+    console.error('❌ Error migrating screenshot metadata:', error);
+    return false;
+  }
+}
+
+// Run the migration if this file is executed directly
+if (require.main === module) {
+  migrateScreenshotMetadata()
+    .then((success) => {
+      process.exit(success ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateScreenshotMetadata };
@@ -0,0 +1,51 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.join(__dirname, '../.env.local') });
+
+import { rotateEncryptionKeys } from '../lib/key-rotation';
+
+/**
+ * Re-encrypts everything stored under older keys with DOCUMENT_ENCRYPTION_KEY_ID.
+ * Keep the old keys in DOCUMENT_ENCRYPTION_KEYS until this reports no failures.
+ */
+async function rotateEncryptionKey() {
+  try {
+    console.log('Re-encrypting stored documents and screenshots...');
+
+    const report = await rotateEncryptionKeys();
+    console.log(`🔑 Active key: ${report.activeKeyId}`);
+    console.log(`🗝️  Data keys: ${report.dataKeys.rotated} rewrapped, ${report.dataKeys.failed} failed`);
+    console.log(`📄 Documents: ${report.documents.rotated} rotated, ${report.documents.failed} failed`);
+    console.log(`⏳ Review jobs: ${report.reviewJobs.rotated} rotated, ${report.reviewJobs.failed} failed`);
+    console.log(`📷 Screenshots: ${report.screenshots.rotated} rotated, ${report.screenshots.failed} failed`);
+
+    const failed = report.dataKeys.failed + report.documents.failed + report.reviewJobs.failed + report.screenshots.failed;
+    if (failed > 0) {
+      console.error(`❌ ${failed} items could not be re-encrypted; keep the old keys configured and retry`);
+      return false;
+    }
+
+    console.log('✅ Key rotation completed successfully!');
+    return true;
+
+  } catch (error) {
+    console.error('❌ Error rotating encryption key:', error);
+    return false;
+  }
+}
+
+// Run the rotation if this file is executed directly
+if (require.main === module) {
+  rotateEncryptionKey()
+    .then((success) => {
+      process.exit(success ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('❌ Rotation failed:', error);
+      process.exit(1);
+    });
+}
+
+export { rotateEncryptionKey };
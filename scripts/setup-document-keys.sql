@@ -0,0 +1,23 @@
+-- Document Keys Table Setup for envelope encryption
+-- Run this in your Supabase SQL editor after setup-security-tables.sql
+
+CREATE TABLE IF NOT EXISTS document_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL, -- key management provider that wrapped the key
+    master_key_id VARCHAR(255) NOT NULL,
+    wrapped_key TEXT, -- NULL once the key is shredded
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    destroyed_at TIMESTAMPTZ
+);
+
+-- Indexes for document keys
+CREATE INDEX IF NOT EXISTS idx_document_keys_master_key_id ON document_keys(master_key_id);
+
+-- Data encrypted with a per-document key records which key it used
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS data_key_id UUID REFERENCES document_keys(id);
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS data_key_id UUID REFERENCES document_keys(id);
+
+-- Keys are only read and written by the server with the service role
+ALTER TABLE document_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE document_keys IS 'Per-document data keys wrapped by a master key; clearing wrapped_key crypto-shreds the document';
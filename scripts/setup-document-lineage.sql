@@ -0,0 +1,31 @@
+-- Document Lineage Setup for grouping revised uploads of the same document into versions
+-- Run this in your Supabase SQL editor after setup-history-search.sql
+
+-- Every analysis belongs to a lineage; previous_version_id is the version it was compared with.
+-- lineage_key is the normalized fund and document name used to group uploads automatically
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS lineage_id UUID;
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES demo_requests(id) ON DELETE SET NULL;
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS fund_name VARCHAR(255);
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS lineage_key VARCHAR(512);
+
+-- Issues the review emails sent for this version asked the customer to fix, as indexes into ai_result->issues;
+-- the next version's text changes are checked against them
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS emailed_issues JSONB;
+
+-- Analyses saved before lineages existed start a lineage of their own
+UPDATE demo_requests SET lineage_id = id WHERE lineage_id IS NULL;
+
+-- Review jobs carry the requested lineage until the save stage resolves it
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS fund_name VARCHAR(255);
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS previous_version_id UUID;
+
+-- Indexes for version lookups; each version number is taken once per lineage, so concurrent
+-- uploads of the same document cannot both become the same version
+DROP INDEX IF EXISTS idx_demo_requests_lineage;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_demo_requests_lineage_version ON demo_requests(lineage_id, version_number);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_lineage_key ON demo_requests(lineage_key, version_number DESC) WHERE lineage_key IS NOT NULL;
+
+COMMENT ON COLUMN demo_requests.lineage_id IS 'Shared by every version of the same document; versions are ordered by version_number';
+COMMENT ON COLUMN demo_requests.lineage_key IS 'Normalized fund and document name; NULL when no fund was given, so the document is only grouped explicitly';
+COMMENT ON COLUMN demo_requests.emailed_issues IS 'Indexes into ai_result->issues covered by a sent review email; NULL until an email is sent';
@@ -0,0 +1,34 @@
+-- Document Ownership Setup for per-user history, opt-in team sharing and soft deletion
+-- Run this in your Supabase SQL editor after setup-security-tables.sql
+
+-- Every analysis records the Clerk user and the organization that was active when it ran;
+-- rows saved before this have no owner and are hidden from every history page
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS org_id VARCHAR(255);
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS shared_with_org BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS org_id VARCHAR(255);
+
+-- Deleted analyses stay restorable for HISTORY_UNDO_WINDOW_MINUTES, then the cleanup job purges them
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(255);
+
+-- Indexes for history queries
+CREATE INDEX IF NOT EXISTS idx_demo_requests_owner_created_at ON demo_requests(created_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_org_shared ON demo_requests(org_id, created_at DESC) WHERE shared_with_org;
+CREATE INDEX IF NOT EXISTS idx_demo_requests_deleted_at ON demo_requests(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- The app queries with the service role and scopes by Clerk id itself; this policy covers
+-- clients that use a Clerk session token, whose subject and org_id claims are the Clerk ids
+ALTER TABLE demo_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "demo_requests_user_access" ON demo_requests;
+CREATE POLICY "demo_requests_user_access" ON demo_requests
+    FOR ALL
+    USING (created_by = auth.jwt() ->> 'sub');
+
+DROP POLICY IF EXISTS "demo_requests_org_read" ON demo_requests;
+CREATE POLICY "demo_requests_org_read" ON demo_requests
+    FOR SELECT
+    USING (shared_with_org AND deleted_at IS NULL AND org_id IS NOT NULL AND org_id = auth.jwt() ->> 'org_id');
+
+COMMENT ON COLUMN demo_requests.shared_with_org IS 'Owner opted in to showing this document to members of org_id';
@@ -0,0 +1,9 @@
+-- Encryption Columns Setup for key versioning and pseudonymized documents
+-- Run this in your Supabase SQL editor after setup-document-keys.sql
+
+-- Master key that encrypted the document, so payloads can be decrypted after a key rotation;
+-- NULL for payloads written before key versioning
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS encryption_key_id VARCHAR(64);
+
+-- Token map of a pseudonymized document, encrypted with the document's data key
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS pseudonym_map JSONB;
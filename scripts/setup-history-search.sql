@@ -0,0 +1,35 @@
+-- History Search Setup for full-text search, filters and keyset pagination on the history page
+-- Run this in your Supabase SQL editor after setup-document-ownership.sql
+
+-- How each analysis was processed; rows saved before this column existed stay NULL
+-- and only match when no processing method filter is set
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS processing_method VARCHAR(20);
+
+-- Derived from ai_result so filtering and sorting by issue count can use an index
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS issue_count INTEGER
+    GENERATED ALWAYS AS (jsonb_array_length(COALESCE(ai_result -> 'issues', '[]'::jsonb))) STORED;
+
+-- File names rank above issue messages in search results
+ALTER TABLE demo_requests ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(user_input, '')), 'A') ||
+        setweight(
+            jsonb_to_tsvector(
+                'english',
+                COALESCE(jsonb_path_query_array(ai_result, '$.issues[*].message'), '[]'::jsonb),
+                '["string"]'
+            ),
+            'B'
+        )
+    ) STORED;
+
+-- Indexes for history search, filters and sort orders; every page is also ordered by id as a tiebreaker
+CREATE INDEX IF NOT EXISTS idx_demo_requests_search_vector ON demo_requests USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_issues ON demo_requests USING GIN ((ai_result -> 'issues') jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_created_at_id ON demo_requests(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_issue_count_id ON demo_requests(issue_count, id);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_user_input_id ON demo_requests(user_input, id);
+CREATE INDEX IF NOT EXISTS idx_demo_requests_processing_method ON demo_requests(processing_method);
+
+COMMENT ON COLUMN demo_requests.processing_method IS 'Consent processing method: company_llm, external_ai, local_patterns or manual_only';
+COMMENT ON COLUMN demo_requests.search_vector IS 'Full-text index over the file name and issue messages, used by the history search';
@@ -0,0 +1,55 @@
+-- Review Jobs Table Setup for asynchronous document reviews
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS review_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_by VARCHAR(255),
+    org_id VARCHAR(255), -- Clerk organization active when the job was created
+    file_name VARCHAR(500) NOT NULL,
+    provider VARCHAR(50), -- chosen from, and checked against, the consent's processing method
+    consent JSONB, -- the enhanced consent the document is reviewed under
+    outcome JSONB NOT NULL DEFAULT '{}', -- classification, sanitization summary and retention recorded by the stages
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- queued, running, completed, failed
+    stage VARCHAR(20) NOT NULL DEFAULT 'uploaded', -- last completed stage: uploaded, extracted, analyzed, saved, screenshotted
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    encrypted_document TEXT, -- moved to the saved analysis, with its data key, once the job is saved
+    encryption_iv VARCHAR(64),
+    encryption_auth_tag VARCHAR(64),
+    encryption_key_id VARCHAR(64), -- NULL for payloads written before key versioning
+    extracted_pages JSONB, -- encrypted with the job's data key, like analysis; both cleared once the job is saved or fails
+    analysis JSONB,
+    result_id UUID REFERENCES demo_requests(id) ON DELETE SET NULL,
+    stage_completed_at JSONB NOT NULL DEFAULT '{}',
+    locked_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tables created before key versioning
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS encryption_key_id VARCHAR(64);
+
+-- Tables created before organization ownership
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS org_id VARCHAR(255);
+
+-- Tables created before jobs ran the secure pipeline under recorded consent
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS consent JSONB;
+ALTER TABLE review_jobs ADD COLUMN IF NOT EXISTS outcome JSONB NOT NULL DEFAULT '{}';
+
+-- Tables created before saved jobs handed their copy of the document to the analysis
+ALTER TABLE review_jobs ALTER COLUMN encrypted_document DROP NOT NULL;
+ALTER TABLE review_jobs ALTER COLUMN encryption_iv DROP NOT NULL;
+ALTER TABLE review_jobs ALTER COLUMN encryption_auth_tag DROP NOT NULL;
+
+-- Tables created before stage outputs were encrypted hold page text and analyses in plaintext
+UPDATE review_jobs SET extracted_pages = NULL, analysis = NULL WHERE status IN ('completed', 'failed');
+
+-- Indexes for review jobs
+CREATE INDEX IF NOT EXISTS idx_review_jobs_created_by ON review_jobs(created_by);
+CREATE INDEX IF NOT EXISTS idx_review_jobs_status ON review_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_review_jobs_updated_at ON review_jobs(updated_at);
+
+-- Jobs are only read and written by the server with the service role
+ALTER TABLE review_jobs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE review_jobs IS 'Tracks asynchronous document reviews stage by stage so they can resume after a crash';
@@ -0,0 +1,26 @@
+-- Secure Screenshots Table Setup for encrypted issue screenshots
+-- Run this in your Supabase SQL editor, then `npm run migrate-screenshot-metadata`
+-- to import metadata from the old JSON index
+
+CREATE TABLE IF NOT EXISTS secure_screenshots (
+    id VARCHAR(500) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    document_id VARCHAR(255),
+    file_name VARCHAR(500) NOT NULL,
+    page_number INTEGER NOT NULL,
+    issue_index INTEGER NOT NULL,
+    classification VARCHAR(20) NOT NULL DEFAULT 'internal',
+    checksum VARCHAR(64) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Indexes for secure screenshots
+CREATE INDEX IF NOT EXISTS idx_secure_screenshots_user_id ON secure_screenshots(user_id);
+CREATE INDEX IF NOT EXISTS idx_secure_screenshots_document_id ON secure_screenshots(document_id);
+CREATE INDEX IF NOT EXISTS idx_secure_screenshots_expires_at ON secure_screenshots(expires_at);
+
+-- Metadata is only read and written by the server with the service role
+ALTER TABLE secure_screenshots ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE secure_screenshots IS 'Metadata for encrypted screenshots; the images themselves live in screenshot storage';
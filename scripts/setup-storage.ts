@@ -16,8 +16,9 @@ async function setupStorage() {
     console.log('Setting up Supabase storage for review screenshots...');
 
     // Create the storage bucket
+    // Private bucket: screenshots are served through short-lived signed URLs
     const { data: bucket, error: bucketError } = await supabase.storage.createBucket('review-screenshots', {
-      public: true,
+      public: false,
       allowedMimeTypes: ['image/jpeg', 'image/png'],
       fileSizeLimit: 5242880, // 5MB limit
     });
@@ -33,14 +34,21 @@ async function setupStorage() {
       console.log('✅ Storage bucket "review-screenshots" created successfully');
     }
 
-    // Set up RLS policies for public read access
-    console.log('Setting up public access policies...');
+    // Buckets created by an earlier version of this script were public
+    const { error: updateError } = await supabase.storage.updateBucket('review-screenshots', {
+      public: false,
+      allowedMimeTypes: ['image/jpeg', 'image/png'],
+      fileSizeLimit: 5242880,
+    });
 
-    // Note: The bucket is already set to public: true, so files should be publicly accessible
-    // If you need more granular control, you can add RLS policies here
+    if (updateError) {
+      console.error('❌ Error making storage bucket private:', updateError);
+      return false;
+    }
 
     console.log('✅ Storage setup completed successfully!');
     console.log('📷 Screenshots will be stored at: review-screenshots/screenshots/');
+    console.log('🔒 Set STORAGE_BACKEND=supabase to serve them through signed URLs');
 
     return true;
 